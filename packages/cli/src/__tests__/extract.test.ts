@@ -1,7 +1,8 @@
 import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { generateMessageHash, transformMsgProps } from "@vocoder/extractor";
 import { StringExtractor } from "../utils/extract.js";
 
 describe("StringExtractor", () => {
@@ -42,7 +43,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Hello world");
@@ -61,7 +62,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Hello {name}!");
@@ -79,7 +80,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Welcome");
@@ -99,7 +100,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Hello");
@@ -117,7 +118,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe(
@@ -137,7 +138,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("From msg prop");
@@ -155,7 +156,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe(
@@ -175,7 +176,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe(
@@ -197,7 +198,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Click <link>here</link> for help");
@@ -223,7 +224,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe(
@@ -243,7 +244,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Hello world");
@@ -266,7 +267,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(2);
 			expect(result.map((r: any) => r.text)).toContain("Welcome back");
@@ -285,7 +286,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Hello {name}!");
@@ -304,7 +305,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Welcome");
@@ -328,7 +329,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(3);
 			expect(result.map((r: any) => r.text)).toContain(
@@ -357,7 +358,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(3);
 			expect(result.map((r: any) => r.text)).toContain("Administrator");
@@ -375,7 +376,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Hello");
@@ -395,7 +396,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Hello");
@@ -424,7 +425,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(3);
 			expect(result.map((r: any) => r.text)).toContain("Page Title");
@@ -433,6 +434,518 @@ describe("StringExtractor", () => {
 		});
 	});
 
+	describe("Tagged template t`…`", () => {
+		it("should extract named and positional args", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { t, useVocoder } from '@vocoder/react';
+
+        const summary = t\`Hello \${name}, you have \${cart.items.length} items\`;
+
+        function Price() {
+          const { t: tr } = useVocoder();
+          return <p>{tr\`Total: $\${amount}\`}</p>;
+        }
+
+        const skipped = t\`Status: \${ok ? fine : 'broken'}\`;
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((r: any) => [r.text, r.key])).toEqual([
+				[
+					"Hello {name}, you have {0} items",
+					generateMessageHash("Hello {name}, you have {0} items"),
+				],
+				["Total: ${amount}", generateMessageHash("Total: ${amount}")],
+			]);
+		});
+
+		it("should be rewritten by the build transform to the extracted call", () => {
+			const code = [
+				'import { t } from "@vocoder/react";',
+				"const summary = t`Hello ${name}, you have ${cart.items.length} items`;",
+				'const plain = t`Say "hi"`;',
+			].join("\n");
+
+			const result = transformMsgProps(code, "summary.ts");
+
+			expect(result.code).toBe(
+				[
+					'import { t } from "@vocoder/react";',
+					'const summary = t("Hello {name}, you have {0} items", { name, 0: cart.items.length });',
+					'const plain = t("Say \\"hi\\"");',
+				].join("\n"),
+			);
+		});
+	});
+
+	describe("String conditionals", () => {
+		it("should extract <T> conditionals between string literals as select args", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { T } from '@vocoder/react';
+
+        function Badge({ isAdmin, isNew }: { isAdmin: boolean; isNew: boolean }) {
+          return (
+            <>
+              <T>You are {isAdmin ? 'an admin' : 'a member'}</T>
+              <T>{isNew && 'New'} items</T>
+            </>
+          );
+        }
+      `,
+			);
+
+			const { strings: result, diagnostics } = await extractor.extractFromProject(file);
+
+			expect(diagnostics).toEqual([]);
+			expect(result.map((r: any) => r.text)).toEqual([
+				"You are {0, select, true {an admin} other {a member}}",
+				"{0, select, true {New} other {}} items",
+			]);
+		});
+
+		it("should escape ICU syntax in conditional branches", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { T } from '@vocoder/react';
+
+        const Hint = ({ ok }) => <T>Type {ok ? "{name}" : "it's"} here</T>;
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((r: any) => r.text)).toEqual([
+				"Type {0, select, true {'{'name'}'} other {it''s}} here",
+			]);
+		});
+
+		it("should transform <T> conditionals to the extracted select message", () => {
+			const code = [
+				'import { T } from "@vocoder/react";',
+				"export const Badge = ({ user }) => <T>You are {user.isAdmin ? 'an admin' : 'a member'}</T>;",
+			].join("\n");
+			const message = "You are {0, select, true {an admin} other {a member}}";
+
+			expect(transformMsgProps(code, "Badge.tsx").code).toBe(
+				[
+					'import { T } from "@vocoder/react";',
+					`export const Badge = ({ user }) => <T id="${generateMessageHash(message)}" message="${message}" values={{ 0: Boolean(user.isAdmin) }}>You are {user.isAdmin ? 'an admin' : 'a member'}</T>;`,
+				].join("\n"),
+			);
+		});
+
+		it("should extract each branch of a t() conditional as its own message", async () => {
+			const file = createTestFile(
+				"test.ts",
+				`
+        import { t } from '@vocoder/react';
+
+        const role = t(isAdmin ? 'Admin' : isOwner ? 'Owner' : 'Member', {}, { context: 'role' });
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((r: any) => [r.text, r.key])).toEqual([
+				["Admin", generateMessageHash("Admin", "role")],
+				["Owner", generateMessageHash("Owner", "role")],
+				["Member", generateMessageHash("Member", "role")],
+			]);
+		});
+	});
+
+	describe("msg() and defineMessages()", () => {
+		it("should extract module-scope message descriptors", async () => {
+			const file = createTestFile(
+				"test.ts",
+				`
+        import { defineMessages, msg } from '@vocoder/react';
+
+        export const STATUS = {
+          active: msg('Active'),
+          archived: msg('Archived', { context: 'project status' }),
+        };
+
+        export const labels = defineMessages({
+          save: 'Save',
+          close: { message: 'Close', context: 'dialog', id: 'dialog.close' },
+          other: msg('Other'),
+        });
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(
+				result.map(({ key, text, context, line }: any) => ({ key, text, context, line })),
+			).toEqual([
+				{ key: generateMessageHash("Active"), text: "Active", context: undefined, line: 5 },
+				{
+					key: generateMessageHash("Archived", "project status"),
+					text: "Archived",
+					context: "project status",
+					line: 6,
+				},
+				{ key: generateMessageHash("Save"), text: "Save", context: undefined, line: 10 },
+				{ key: "dialog.close", text: "Close", context: "dialog", line: 11 },
+				{ key: generateMessageHash("Other"), text: "Other", context: undefined, line: 12 },
+			]);
+		});
+
+		it("should ignore msg() not imported from Vocoder", async () => {
+			const file = createTestFile(
+				"test.ts",
+				`
+        import { msg } from './log';
+        msg('Not a message');
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(0);
+		});
+	});
+
+	describe("Namespace imports and member calls", () => {
+		it("should extract V.T and V.t from a namespace import", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import * as V from '@vocoder/react';
+
+        function Component() {
+          return (
+            <div title={V.t('Tooltip')}>
+              <V.T>Hello {name}</V.T>
+            </div>
+          );
+        }
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((r: any) => r.text).sort()).toEqual(["Hello {name}", "Tooltip"]);
+		});
+
+		it("should extract t() called on the useVocoder() result", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { useVocoder } from '@vocoder/react';
+
+        function Component() {
+          const i18n = useVocoder();
+          return <p>{i18n.t('Signed in')}</p>;
+        }
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((r: any) => r.text)).toEqual(["Signed in"]);
+		});
+
+		it("should ignore member calls on unrelated objects", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { t } from '@vocoder/react';
+        import * as other from 'other-lib';
+
+        other.t('Not mine');
+        this.t('Nor this');
+        t('Mine');
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((r: any) => r.text)).toEqual(["Mine"]);
+		});
+	});
+
+	describe("Configured components, functions and import sources", () => {
+		it("should extract custom names imported from a configured source", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { Trans, translate as tr, i18n } from '@acme/i18n';
+
+        function Component() {
+          return (
+            <div title={tr('Tooltip')}>
+              <Trans>Hello</Trans>
+              {i18n.translate('Goodbye')}
+            </div>
+          );
+        }
+      `,
+			);
+
+			extractor = new StringExtractor({
+				tComponents: ["Trans"],
+				tFunctions: ["translate"],
+				importSources: ["@acme/i18n"],
+			});
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((r: any) => r.text).sort()).toEqual(["Goodbye", "Hello", "Tooltip"]);
+		});
+
+		it("should not extract custom names without the options", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { Trans, translate } from '@acme/i18n';
+
+        const A = () => <Trans>Hello</Trans>;
+        translate('Tooltip');
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(0);
+		});
+	});
+
+	describe("Translator notes and length limits", () => {
+		it("should read note, description and maxLength props on <T>", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { T } from '@vocoder/react';
+
+        const A = () => <button><T note="Submits the order form" maxLength={12}>Place order</T></button>;
+        const B = () => <T description="Shown under the avatar">Change photo</T>;
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(2);
+			expect(result[0]).toMatchObject({
+				text: "Place order",
+				note: "Submits the order form",
+				maxLength: 12,
+			});
+			expect(result[1]).toMatchObject({ text: "Change photo", note: "Shown under the avatar" });
+			expect(result[1]!.maxLength).toBeUndefined();
+		});
+
+		it("should read note and maxLength options of t() and msg()", async () => {
+			const file = createTestFile(
+				"test.ts",
+				`
+        import { msg, t } from '@vocoder/react';
+
+        t('Save', {}, { note: 'Toolbar button', maxLength: 10 });
+        const label = msg('Archive', { note: 'Project action' });
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result[0]).toMatchObject({ text: "Save", note: "Toolbar button", maxLength: 10 });
+			expect(result[1]).toMatchObject({ text: "Archive", note: "Project action" });
+		});
+
+		it("should read a vocoder: comment on the line above as the note", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { T, t } from '@vocoder/react';
+
+        // vocoder: Title of the confirmation dialog
+        const title = t('Are you sure?');
+        // unrelated comment
+        const body = t('This cannot be undone.');
+
+        const A = () => (
+          <div>
+            {/* vocoder: Greeting on the dashboard */}
+            <T>Welcome back</T>
+          </div>
+        );
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((s) => [s.text, s.note])).toEqual([
+				["Are you sure?", "Title of the confirmation dialog"],
+				["This cannot be undone.", undefined],
+				["Welcome back", "Greeting on the dashboard"],
+			]);
+		});
+
+		it("should prefer the note option over a comment and ignore invalid maxLength", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { T } from '@vocoder/react';
+
+        // vocoder: from the comment
+        const A = () => <T note="from the prop" maxLength={-3}>Done</T>;
+      `,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result[0]!.note).toBe("from the prop");
+			expect(result[0]!.maxLength).toBeUndefined();
+		});
+	});
+
+	describe("Occurrences", () => {
+		it("should record every usage with column and enclosing component", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`import { T, t } from '@vocoder/react';
+
+function Toolbar() {
+  return <button><T>Save</T></button>;
+}
+
+const Dialog = memo(() => {
+  const items = ['a'].map(() => t('Save'));
+  return <div>{items}</div>;
+});
+
+class Legacy extends React.Component {
+  render() {
+    return <T>Save</T>;
+  }
+}
+
+export const label = t('Save');
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(1);
+			const { file: relPath } = result[0]!;
+			expect(result[0]).toMatchObject({ line: 4, column: 18, componentName: "Toolbar" });
+			expect(result[0]!.occurrences).toEqual([
+				{ file: relPath, line: 4, column: 18, componentName: "Toolbar" },
+				{ file: relPath, line: 8, column: 33, componentName: "Dialog" },
+				{ file: relPath, line: 14, column: 12, componentName: "Legacy" },
+				{ file: relPath, line: 18, column: 22 },
+			]);
+		});
+
+		it("should collect occurrences across files", async () => {
+			const dir = mkdtempSync(join(tmpdir(), "vocoder-test-"));
+			tempDir = dir;
+			writeFileSync(
+				join(dir, "a.tsx"),
+				`import { t } from '@vocoder/react';\nexport const useA = () => t('Cancel');\n`,
+			);
+			writeFileSync(
+				join(dir, "b.tsx"),
+				`import { t } from '@vocoder/react';\nexport function useB() {\n  return t('Cancel');\n}\n`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject("*.tsx", dir);
+
+			expect(result[0]!.occurrences).toEqual([
+				{ file: "a.tsx", line: 2, column: 27, componentName: "useA" },
+				{ file: "b.tsx", line: 3, column: 10, componentName: "useB" },
+			]);
+		});
+	});
+
+	describe("Key collisions and key options", () => {
+		it("should report two texts sharing an explicit id", async () => {
+			const file = createTestFile(
+				"test.ts",
+				`
+        import { t } from '@vocoder/react';
+
+        t('Save', {}, { id: 'action' });
+        t('Close', {}, { id: 'action' });
+        t('Close', {}, { id: 'action' });
+      `,
+			);
+
+			const { strings: result, diagnostics } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(1);
+			expect(result[0]!.text).toBe("Save");
+			expect(diagnostics).toEqual([
+				expect.objectContaining({ code: "key-collision", severity: "error", line: 5 }),
+			]);
+			expect(diagnostics[0]!.message).toContain('"Close"');
+		});
+
+		it("should report texts whose content hashes collide", async () => {
+			const file = createTestFile(
+				"test.ts",
+				`import { t } from '@vocoder/react';\nt('Item 99');\nt('Item 622');\n`,
+			);
+
+			// 3-character keys make a collision easy to hit: both hash to "azc".
+			const shortKeys = new StringExtractor({ keyLength: 3 });
+			const { strings: result, diagnostics } = await shortKeys.extractFromProject(file);
+
+			expect(result.map((s) => s.key)).toEqual(["azc"]);
+			expect(diagnostics.map((d) => [d.code, d.line])).toEqual([["key-collision", 3]]);
+		});
+
+		it("should hash with the configured algorithm and keep the previous key", async () => {
+			const file = createTestFile(
+				"test.tsx",
+				`
+        import { T, t } from '@vocoder/react';
+
+        t('Save', {}, { context: 'verb' });
+        t('Close', {}, { id: 'dialog.close' });
+        const A = () => <T>Hello</T>;
+      `,
+			);
+
+			const longKeys = new StringExtractor({ hashAlgorithm: "fnv1a-64", keyLength: 10 });
+			const { strings: result } = await longKeys.extractFromProject(file);
+
+			expect(result[0]).toMatchObject({
+				key: generateMessageHash("Save", "verb", { algorithm: "fnv1a-64", keyLength: 10 }),
+				legacyKey: generateMessageHash("Save", "verb"),
+			});
+			expect(result[0]!.key).toHaveLength(10);
+			expect(result[1]).toMatchObject({ key: "dialog.close" });
+			expect(result[1]!.legacyKey).toBeUndefined();
+			expect(result[2]!.legacyKey).toBe(generateMessageHash("Hello"));
+		});
+
+		it("should inject ids hashed with the configured options", () => {
+			const code = `
+        import { T } from '@vocoder/react';
+        const A = ({ name }) => <T>Hello {name}</T>;
+      `;
+
+			const { code: output } = transformMsgProps(code, "test.tsx", {
+				hashAlgorithm: "fnv1a-64",
+				keyLength: 12,
+			});
+
+			const id = generateMessageHash("Hello {name}", undefined, {
+				algorithm: "fnv1a-64",
+				keyLength: 12,
+			});
+			expect(output).toContain(`id="${id}"`);
+		});
+	});
+
 	describe("Deduplication", () => {
 		it("should deduplicate identical strings", async () => {
 			const file = createTestFile(
@@ -454,7 +967,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			// Should only have one "Hello" despite 4 occurrences
 			expect(result).toHaveLength(1);
@@ -472,7 +985,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			// Should have two entries because contexts differ
 			expect(result).toHaveLength(2);
@@ -493,7 +1006,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Price: ${price}");
@@ -511,7 +1024,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Price: ${price}");
@@ -529,7 +1042,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Price: ${price}");
@@ -553,7 +1066,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			// CRITICAL: ICU keywords must remain in English
@@ -581,7 +1094,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			// CRITICAL: ICU keywords must remain in English
@@ -606,7 +1119,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe(
@@ -627,7 +1140,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			// ICU syntax should remain unchanged even in template literals
@@ -652,7 +1165,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(0);
 		});
@@ -670,7 +1183,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(0);
 		});
@@ -688,7 +1201,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(0);
 		});
@@ -707,7 +1220,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Read <0>the docs</0> for help.");
@@ -725,7 +1238,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("See <0>Privacy</0> and <1>Terms</1>.");
@@ -743,7 +1256,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Hello {0}!");
@@ -761,7 +1274,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Value: {0}");
@@ -779,7 +1292,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("{count} items by {0}");
@@ -797,7 +1310,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Hello {0}");
@@ -815,7 +1328,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("You have 42 new messages");
@@ -833,7 +1346,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Price: 3.14");
@@ -851,7 +1364,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			// {true} renders nothing — extracted text is just the surrounding literal
 			expect(result).toHaveLength(1);
@@ -870,7 +1383,7 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const result = await extractor.extractFromProject(file);
+			const { strings: result } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("Hello  world");
@@ -882,19 +1395,26 @@ describe("StringExtractor", () => {
 				`
         import { T } from '@vocoder/react';
 
-        function Component({ isNew }: { isNew: boolean }) {
-          return <T>{isNew ? 'New' : 'Old'} item</T>;
+        function Component({ isNew, label }: { isNew: boolean; label: string }) {
+          return <T>{isNew ? label : 'Old'} item</T>;
         }
       `,
 			);
 
-			// Suppress expected warning
-			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
-			const result = await extractor.extractFromProject(file);
-			warn.mockRestore();
+			const { strings: result, diagnostics } = await extractor.extractFromProject(file);
 
-			// Conditional expression = untranslatable unit; extractor skips the element
+			// Conditional with a non-literal branch = untranslatable unit; extractor skips the element
 			expect(result).toHaveLength(0);
+			expect(diagnostics).toEqual([
+				expect.objectContaining({
+					code: "conditional-in-t",
+					severity: "warning",
+					file: expect.stringMatching(/test\.tsx$/),
+					line: 5,
+					column: 22,
+				}),
+			]);
+			expect(diagnostics[0]!.suggestion).toContain("{cond ? <T>A</T> : <T>B</T>}");
 		});
 
 		it("bails on logical AND expression — T not transformed", async () => {
@@ -903,17 +1423,16 @@ describe("StringExtractor", () => {
 				`
         import { T } from '@vocoder/react';
 
-        function Component({ show }: { show: boolean }) {
-          return <T>Status: {show && 'visible'}</T>;
+        function Component({ show, label }: { show: boolean; label: string }) {
+          return <T>Status: {show && label}</T>;
         }
       `,
 			);
 
-			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
-			const result = await extractor.extractFromProject(file);
-			warn.mockRestore();
+			const { strings: result, diagnostics } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(0);
+			expect(diagnostics.map((d) => d.code)).toEqual(["conditional-in-t"]);
 		});
 
 		it("bails on logical AND with JSX — T not transformed", async () => {
@@ -928,11 +1447,10 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
-			const result = await extractor.extractFromProject(file);
-			warn.mockRestore();
+			const { strings: result, diagnostics } = await extractor.extractFromProject(file);
 
 			expect(result).toHaveLength(0);
+			expect(diagnostics.map((d) => d.code)).toEqual(["conditional-in-t"]);
 		});
 
 		it("bails on nested <T> inside <T> — outer not transformed, inner extracted independently", async () => {
@@ -947,13 +1465,14 @@ describe("StringExtractor", () => {
       `,
 			);
 
-			const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
-			const result = await extractor.extractFromProject(file);
-			warn.mockRestore();
+			const { strings: result, diagnostics } = await extractor.extractFromProject(file);
 
 			// Outer T bails; inner T extracts independently as "world"
 			expect(result).toHaveLength(1);
 			expect(result[0]!.text).toBe("world");
+			expect(diagnostics).toEqual([
+				expect.objectContaining({ code: "nested-t", line: 5, column: 27 }),
+			]);
 		});
 	});
 });
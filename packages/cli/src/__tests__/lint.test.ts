@@ -0,0 +1,154 @@
+import { lintContent } from "@vocoder/extractor";
+import { describe, expect, it } from "vitest";
+
+const rules = (code: string) =>
+	lintContent("src/App.tsx", code).map(({ line, column, rule }) => ({ line, column, rule }));
+
+describe("lintContent", () => {
+	it("reports hard-coded JSX text and user-facing props with positions", () => {
+		const code = [
+			'import { T } from "@vocoder/react";',
+			"export const App = () => (",
+			"  <main>",
+			"    <h1>Welcome back!</h1>",
+			'    <input placeholder="Search" className="input" />',
+			"    <T>Already wrapped</T>",
+			"    <code>npm install</code> —",
+			"  </main>",
+			");",
+		].join("\n");
+
+		expect(lintContent("src/App.tsx", code)).toEqual([
+			{
+				file: "src/App.tsx",
+				line: 4,
+				column: 9,
+				rule: "hardcoded-string",
+				message: 'Hard-coded string "Welcome back!" — wrap it in <T>',
+			},
+			{
+				file: "src/App.tsx",
+				line: 5,
+				column: 24,
+				rule: "hardcoded-string",
+				message: 'Hard-coded placeholder "Search" — wrap it in t()',
+			},
+		]);
+	});
+
+	it("reports <T> bodies the extractor bails on", () => {
+		const code = [
+			'import { T } from "@vocoder/react";',
+			"export const A = ({ n }) => <T>You have {n > 1 ? many : 'one'} items</T>;",
+			"export const B = () => <T>Hello <T>world</T></T>;",
+			"export const C = ({ n }) => <T value={n} one=\"# item\" other=\"# items\" />;",
+		].join("\n");
+
+		expect(rules(code)).toEqual([
+			{ line: 2, column: 42, rule: "untranslatable-t" },
+			{ line: 3, column: 33, rule: "untranslatable-t" },
+		]);
+	});
+
+	it("reports dynamic t() arguments from imports and useVocoder()", () => {
+		const code = [
+			'import { t, useVocoder } from "@vocoder/react";',
+			"const a = t(label);",
+			"const b = t(`Hello ${name}`);",
+			'const c = t("Hello {name}", { name });',
+			"function Greeting() {",
+			"  const { t: translate } = useVocoder();",
+			"  return translate(messages.greeting);",
+			"}",
+		].join("\n");
+
+		expect(rules(code)).toEqual([
+			{ line: 2, column: 13, rule: "dynamic-t" },
+			{ line: 3, column: 13, rule: "dynamic-t" },
+			{ line: 7, column: 20, rule: "dynamic-t" },
+		]);
+	});
+
+	it("accepts string conditionals in <T> and t() and reports dynamic branches", () => {
+		const code = [
+			'import { T, t } from "@vocoder/react";',
+			"export const A = ({ ok }) => <T>Status: {ok ? 'fine' : 'broken'}</T>;",
+			"const b = t(ok ? 'Yes' : 'No');",
+			"const c = t(ok ? 'Yes' : label);",
+		].join("\n");
+
+		expect(rules(code)).toEqual([{ line: 4, column: 26, rule: "dynamic-t" }]);
+	});
+
+	it("accepts msg() descriptors declared in the file and reports dynamic msg()", () => {
+		const code = [
+			'import { defineMessages, msg, t } from "@vocoder/react";',
+			'const labels = defineMessages({ save: "Save" });',
+			'const STATUS = { active: msg("Active") };',
+			"const dynamic = msg(label);",
+			"t(labels.save);",
+			"t(STATUS[status]);",
+			"t(imported.save);",
+		].join("\n");
+
+		expect(rules(code)).toEqual([
+			{ line: 4, column: 21, rule: "dynamic-t" },
+			{ line: 7, column: 3, rule: "dynamic-t" },
+		]);
+	});
+
+	it("reports conditionals inside tagged t templates", () => {
+		const code = [
+			'import { t } from "@vocoder/react";',
+			"const a = t`Hello ${name}`;",
+			"const b = t`Status: ${ok ? fine : 'broken'}`;",
+		].join("\n");
+
+		expect(rules(code)).toEqual([{ line: 3, column: 23, rule: "dynamic-t" }]);
+	});
+
+	it("reports dynamic member calls and honours configured names", () => {
+		const code = [
+			'import * as V from "@vocoder/react";',
+			'import { Trans } from "@acme/i18n";',
+			"V.t(label);",
+			"export const A = () => <Trans>{a ? 1 : 2}</Trans>;",
+		].join("\n");
+
+		expect(rules(code)).toEqual([{ line: 3, column: 5, rule: "dynamic-t" }]);
+		expect(
+			lintContent("src/App.tsx", code, {
+				tComponents: ["Trans"],
+				importSources: ["@acme/i18n"],
+			}).map(({ line, rule }) => ({ line, rule })),
+		).toEqual([
+			{ line: 3, rule: "dynamic-t" },
+			{ line: 4, rule: "untranslatable-t" },
+		]);
+	});
+
+	it("honours ignore comments", () => {
+		const code = [
+			'import { t } from "@vocoder/react";',
+			"export const A = () => (",
+			"  <div>",
+			"    {/* vocoder-ignore-next-line */}",
+			"    <p>Ignored</p>",
+			"    {/* vocoder-ignore-next-line dynamic-t */}",
+			"    <p>Still reported</p>",
+			"  </div>",
+			");",
+			"// vocoder-ignore-next-line",
+			"const b = t(label);",
+		].join("\n");
+
+		expect(rules(code)).toEqual([{ line: 7, column: 8, rule: "hardcoded-string" }]);
+		expect(rules(`/* vocoder-ignore-file */\n${code}`)).toEqual([]);
+		expect(rules(`// vocoder-ignore-file hardcoded-string\nconst x = <p>Hi</p>;`)).toEqual([]);
+	});
+
+	it("reports parse errors and skips Vue and Svelte files", () => {
+		expect(rules("const x = <div>")[0]?.rule).toBe("parse-error");
+		expect(lintContent("App.vue", "<template><p>Hi</p></template>")).toEqual([]);
+	});
+});
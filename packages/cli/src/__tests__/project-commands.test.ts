@@ -1,4 +1,4 @@
-import { mkdirSync, readFileSync } from "node:fs";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
@@ -277,6 +277,66 @@ describe("getTranslations command", () => {
 		expect(deContents).toEqual({ Hello: "Hallo", Goodbye: "Auf Wiedersehen" });
 	});
 
+	it("writes hash-keyed locale files to localesPath from vocoder.config", async () => {
+		const config: APIAppConfig = {
+			projectName: "Test",
+			organizationName: "Acme",
+			shortCode: "test123",
+			sourceLocale: "en",
+			targetLocales: ["fr"],
+			targetBranches: ["main"],
+			syncPolicy: {
+				blockingBranches: ["main"],
+				blockingMode: "required",
+				nonBlockingMode: "best-effort",
+				defaultMaxWaitMs: 60000,
+			},
+		};
+
+		const snapshot: TranslationSnapshotResponse = {
+			status: "FOUND",
+			branch: "main",
+			translations: { fr: { Hello: "Bonjour", Unused: "Inutilisé" } },
+			localeMetadata: { en: { nativeName: "English" }, fr: { nativeName: "Français" } },
+		};
+
+		globalThis.fetch = vi
+			.fn()
+			.mockResolvedValueOnce({ ok: true, text: async () => JSON.stringify(config) })
+			.mockResolvedValueOnce({
+				ok: true,
+				text: async () => JSON.stringify(snapshot),
+			}) as typeof globalThis.fetch;
+
+		const projectDir = mkdtempSync(join(tmpdir(), "vocoder-test-"));
+		writeFileSync(
+			join(projectDir, "vocoder.config.json"),
+			JSON.stringify({ include: ["*.tsx"], localesPath: "locales" }),
+		);
+		writeFileSync(
+			join(projectDir, "App.tsx"),
+			'import { T } from "@vocoder/react";\nexport const App = () => <T>Hello</T>;\n',
+		);
+		vi.spyOn(process, "cwd").mockReturnValue(projectDir);
+
+		try {
+			const code = await getTranslations({ branch: "main" });
+			expect(code).toBe(0);
+
+			const localesDir = join(projectDir, "locales");
+			expect(JSON.parse(readFileSync(join(localesDir, "fr.json"), "utf-8"))).toEqual({
+				"1w2u0qz": "Bonjour",
+			});
+			expect(JSON.parse(readFileSync(join(localesDir, "_config.json"), "utf-8"))).toEqual({
+				sourceLocale: "en",
+				targetLocales: ["fr"],
+				locales: { en: { nativeName: "English" }, fr: { nativeName: "Français" } },
+			});
+		} finally {
+			rmSync(projectDir, { recursive: true, force: true });
+		}
+	});
+
 	it("returns 1 when snapshot is NOT_FOUND", async () => {
 		const config: APIAppConfig = {
 			projectName: "Test",
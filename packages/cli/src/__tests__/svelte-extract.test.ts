@@ -0,0 +1,263 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateMessageHash, transformSvelteT } from "@vocoder/extractor";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { StringExtractor } from "../utils/extract.js";
+
+describe("Svelte components", () => {
+	let tempDir: string;
+	let extractor: StringExtractor;
+
+	function createTestFile(filename: string, content: string): string {
+		tempDir = mkdtempSync(join(tmpdir(), "vocoder-test-"));
+		const filePath = join(tempDir, filename);
+		writeFileSync(filePath, content, "utf-8");
+		return filePath;
+	}
+
+	beforeEach(() => {
+		extractor = new StringExtractor();
+	});
+
+	afterEach(() => {
+		if (tempDir) {
+			rmSync(tempDir, { recursive: true, force: true });
+		}
+	});
+
+	describe("markup <T> extraction", () => {
+		it("should keep {identifier} as a named placeholder", async () => {
+			const file = createTestFile(
+				"Inbox.svelte",
+				`<script>
+  import { T } from "@vocoder/svelte";
+  let count = 0;
+</script>
+
+<p><T>You have {count} new messages</T></p>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(1);
+			expect(result[0]!.text).toBe("You have {count} new messages");
+			expect(result[0]!.key).toBe(
+				generateMessageHash("You have {count} new messages"),
+			);
+			expect(result[0]!.line).toBe(6);
+			expect(result[0]!.uiRole).toBe("body_text");
+		});
+
+		it("should use positional placeholders and numeric element tags", async () => {
+			const file = createTestFile(
+				"Welcome.svelte",
+				`<script>
+  import { T } from "@vocoder/svelte";
+</script>
+
+<T>Welcome back, <strong>{user.name}</strong>!</T>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result[0]!.text).toBe("Welcome back, <0>{0}</0>!");
+		});
+
+		it("should read note and maxLength props", async () => {
+			const file = createTestFile(
+				"Notes.svelte",
+				`<script>
+  import { T } from "@vocoder/svelte";
+</script>
+
+<T note="Checkout button" maxLength={12}>Place order</T>
+<T description="Profile action" maxLength="20">Change photo</T>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result[0]).toMatchObject({ note: "Checkout button", maxLength: 12 });
+			expect(result[1]).toMatchObject({ note: "Profile action", maxLength: 20 });
+		});
+
+		it("should attribute markup strings to the component file", async () => {
+			const file = createTestFile(
+				"Checkout.svelte",
+				`<script>
+  import { T, t } from "@vocoder/svelte";
+</script>
+
+<T>Pay now</T>
+<input placeholder={t("Card number")} />
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.find((s) => s.text === "Pay now")).toMatchObject({
+				line: 5,
+				column: 1,
+				componentName: "Checkout",
+			});
+			expect(result.find((s) => s.text === "Card number")).toMatchObject({
+				line: 6,
+				column: 21,
+				componentName: "Checkout",
+			});
+		});
+
+		it("should read message, context and plural props", async () => {
+			const file = createTestFile(
+				"Props.svelte",
+				`<script>
+  import { T } from "@vocoder/svelte";
+</script>
+
+<button><T context="verb" message="Save" /></button>
+<T value={count} one="1 item" other="# items" />
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(2);
+			expect(result[0]!.key).toBe(generateMessageHash("Save", "verb"));
+			expect(result[0]!.uiRole).toBe("button_label");
+			expect(result[1]!.text).toBe(
+				"{count, plural, one {1 item} other {# items}}",
+			);
+		});
+
+		it("should find <T> inside control-flow blocks and skip non-literal conditionals", async () => {
+			const file = createTestFile(
+				"Blocks.svelte",
+				`<script>
+  import { T } from "@vocoder/svelte";
+</script>
+
+{#if loggedIn}
+  <T>Signed in</T>
+{/if}
+<T>{ok ? label : "No"}</T>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((s) => s.text)).toEqual(["Signed in"]);
+		});
+
+		it("should extract a string conditional as a select on its test", async () => {
+			const file = createTestFile(
+				"Badge.svelte",
+				`<script>
+  import { T } from "@vocoder/svelte";
+</script>
+
+<T>You are {user.isAdmin ? "an admin" : "a member"}</T>
+<T>{isNew && "New {"} items</T>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((s) => s.text)).toEqual([
+				"You are {0, select, true {an admin} other {a member}}",
+				"{0, select, true {New '{'} other {}} items",
+			]);
+		});
+	});
+
+	describe("t() extraction", () => {
+		it("should extract $t() from markup and t() from script with file line numbers", async () => {
+			const file = createTestFile(
+				"Search.svelte",
+				`<script lang="ts">
+  import { t } from "@vocoder/svelte";
+
+  const title: string = $t("Dashboard");
+</script>
+
+<input placeholder={$t("Search")} />
+<span>{$t("Hello {name}", { name })}</span>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((s) => s.text)).toEqual([
+				"Dashboard",
+				"Search",
+				"Hello {name}",
+			]);
+			expect(result[0]!.line).toBe(4);
+			expect(result[1]!.uiRole).toBe("input_placeholder");
+			expect(result[2]!.line).toBe(8);
+		});
+	});
+
+	describe("transformSvelteT", () => {
+		it("should inject id, message, values and components on markup <T>", () => {
+			const code = `<script>
+  import { T } from "@vocoder/svelte";
+</script>
+
+<T>Hi {name}, see <a href="/docs">the docs</a></T>
+`;
+
+			const result = transformSvelteT(code);
+			const template = "Hi {name}, see <0>the docs</0>";
+
+			expect(result.changed).toBe(true);
+			expect(result.code).toContain(
+				`<T id="${generateMessageHash(template)}" message={"${template}"} values={{ name }} components={[["a", { "href": "/docs" }]]}>`,
+			);
+		});
+
+		it("should leave <T> with a message or plural props unchanged", () => {
+			const code = `<script>
+  import { T } from "@vocoder/svelte";
+</script>
+
+<T message="Hello" />
+<T value={count} one="1 item" other="# items" />
+`;
+
+			expect(transformSvelteT(code).changed).toBe(false);
+		});
+
+		it("should ignore components that do not import T from @vocoder/svelte", () => {
+			const code = `<script>
+  import T from "./T.svelte";
+</script>
+
+<T>Hello</T>
+`;
+
+			expect(transformSvelteT(code).changed).toBe(false);
+		});
+
+		it("should rewrite $t`…` in <script> to the extracted call", () => {
+			const code = `<script lang="ts">
+  import { t } from "@vocoder/svelte";
+
+  const summary = $t\`Hello \${name}, you have \${cart.items.length} items\`;
+</script>
+
+<p>{summary}</p>
+`;
+
+			const result = transformSvelteT(code);
+
+			expect(result.changed).toBe(true);
+			expect(result.code).toContain(
+				'const summary = $t("Hello {name}, you have {0} items", { name, 0: cart.items.length });',
+			);
+			expect(result.code).toContain("<p>{summary}</p>");
+		});
+	});
+});
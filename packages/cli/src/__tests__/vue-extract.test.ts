@@ -0,0 +1,293 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateMessageHash, transformVueT } from "@vocoder/extractor";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { StringExtractor } from "../utils/extract.js";
+
+describe("Vue single-file components", () => {
+	let tempDir: string;
+	let extractor: StringExtractor;
+
+	function createTestFile(filename: string, content: string): string {
+		tempDir = mkdtempSync(join(tmpdir(), "vocoder-test-"));
+		const filePath = join(tempDir, filename);
+		writeFileSync(filePath, content, "utf-8");
+		return filePath;
+	}
+
+	beforeEach(() => {
+		extractor = new StringExtractor();
+	});
+
+	afterEach(() => {
+		if (tempDir) {
+			rmSync(tempDir, { recursive: true, force: true });
+		}
+	});
+
+	describe("template <T> extraction", () => {
+		it("should convert {{ identifier }} interpolation to a named placeholder", async () => {
+			const file = createTestFile(
+				"Inbox.vue",
+				`<template>
+  <p><T>You have {{ count }} new messages</T></p>
+</template>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(1);
+			expect(result[0]!.text).toBe("You have {count} new messages");
+			expect(result[0]!.line).toBe(2);
+			expect(result[0]!.uiRole).toBe("body_text");
+		});
+
+		it("should produce the same key as the equivalent JSX <T>", async () => {
+			const file = createTestFile(
+				"Greeting.vue",
+				`<template>
+  <T>Hello {{ name }}!</T>
+</template>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result[0]!.key).toBe(generateMessageHash("Hello {name}!"));
+		});
+
+		it("should use positional placeholders and numeric element tags", async () => {
+			const file = createTestFile(
+				"Welcome.vue",
+				`<template>
+  <T>Welcome back, <strong>{{ user.name }}</strong>!</T>
+</template>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result[0]!.text).toBe("Welcome back, <0>{0}</0>!");
+		});
+
+		it("should read note and maxLength props", async () => {
+			const file = createTestFile(
+				"Notes.vue",
+				`<template>
+  <T note="Checkout button" :maxLength="12">Place order</T>
+  <T description="Profile action" maxLength="20">Change photo</T>
+</template>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result[0]).toMatchObject({ note: "Checkout button", maxLength: 12 });
+			expect(result[1]).toMatchObject({ note: "Profile action", maxLength: 20 });
+		});
+
+		it("should attribute template strings to the component file", async () => {
+			const file = createTestFile(
+				"Checkout.vue",
+				`<script setup>
+import { T, t } from "@vocoder/vue";
+</script>
+
+<template>
+  <T>Pay now</T>
+  <input :placeholder="t('Card number')" />
+</template>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.find((s) => s.text === "Pay now")).toMatchObject({
+				line: 6,
+				column: 3,
+				componentName: "Checkout",
+			});
+			expect(result.find((s) => s.text === "Card number")).toMatchObject({
+				line: 7,
+				column: 24,
+				componentName: "Checkout",
+			});
+		});
+
+		it("should read message, context and plural props", async () => {
+			const file = createTestFile(
+				"Props.vue",
+				`<template>
+  <button><T context="verb" message="Save" /></button>
+  <T :value="count" one="1 item" other="# items" />
+</template>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(2);
+			expect(result[0]!.text).toBe("Save");
+			expect(result[0]!.context).toBe("verb");
+			expect(result[0]!.key).toBe(generateMessageHash("Save", "verb"));
+			expect(result[0]!.uiRole).toBe("button_label");
+			expect(result[1]!.text).toBe(
+				"{count, plural, one {1 item} other {# items}}",
+			);
+		});
+
+		it("should extract a string conditional as a select on its test", async () => {
+			const file = createTestFile(
+				"Badge.vue",
+				`<template>
+  <T>You are {{ user.isAdmin ? "an admin" : "a member" }}</T>
+  <T>{{ isNew && "New {" }} items</T>
+</template>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((s) => s.text)).toEqual([
+				"You are {0, select, true {an admin} other {a member}}",
+				"{0, select, true {New '{'} other {}} items",
+			]);
+		});
+
+		it("should skip <T> with a non-literal conditional interpolation", async () => {
+			const file = createTestFile(
+				"Conditional.vue",
+				`<template>
+  <T>{{ ok ? label : "No" }}</T>
+</template>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(0);
+		});
+	});
+
+	describe("t() extraction", () => {
+		it("should extract t() from <script setup> with file line numbers", async () => {
+			const file = createTestFile(
+				"Setup.vue",
+				`<template>
+  <h1>{{ title }}</h1>
+</template>
+
+<script setup lang="ts">
+import { useVocoder } from "@vocoder/vue";
+
+const { t } = useVocoder();
+const title = t("Dashboard");
+</script>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result).toHaveLength(1);
+			expect(result[0]!.text).toBe("Dashboard");
+			expect(result[0]!.line).toBe(9);
+		});
+
+		it("should extract t() calls inside template expressions", async () => {
+			const file = createTestFile(
+				"Search.vue",
+				`<script setup>
+import { t } from "@vocoder/vue";
+</script>
+
+<template>
+  <input :placeholder="t('Search')" />
+  <span>{{ t("Hello {name}", { name }) }}</span>
+</template>
+`,
+			);
+
+			const { strings: result } = await extractor.extractFromProject(file);
+
+			expect(result.map((s) => s.text)).toEqual(["Search", "Hello {name}"]);
+			expect(result[0]!.uiRole).toBe("input_placeholder");
+			expect(result[1]!.line).toBe(7);
+		});
+	});
+
+	describe("transformVueT", () => {
+		it("should inject id, message and :values on template <T>", () => {
+			const code = `<template>
+  <T>You have {{ count }} items from {{ user.name }}</T>
+</template>
+`;
+
+			const result = transformVueT(code);
+			const template = "You have {count} items from {0}";
+
+			expect(result.changed).toBe(true);
+			expect(result.code).toContain(
+				`<T id="${generateMessageHash(template)}" message="${template}" :values="{ count, 0: user.name }">`,
+			);
+		});
+
+		it("should pass Boolean(test) for a string conditional", () => {
+			const code = `<template>
+  <T>You are {{ user.isAdmin ? "an admin" : "a member" }}</T>
+</template>
+`;
+
+			const result = transformVueT(code);
+			const template = "You are {0, select, true {an admin} other {a member}}";
+
+			expect(result.code).toContain(
+				`<T id="${generateMessageHash(template)}" message="${template}" :values="{ 0: Boolean(user.isAdmin) }">`,
+			);
+		});
+
+		it("should escape quotes in injected attributes", () => {
+			const code = `<template>
+  <T>Say "hi"</T>
+</template>
+`;
+
+			const result = transformVueT(code);
+
+			expect(result.code).toContain(`message="Say &quot;hi&quot;"`);
+		});
+
+		it("should leave <T> with a message or plural props unchanged", () => {
+			const code = `<template>
+  <T message="Hello" />
+  <T :value="count" one="1 item" other="# items" />
+</template>
+`;
+
+			expect(transformVueT(code).changed).toBe(false);
+		});
+
+		it("should rewrite t`…` in <script setup> to the extracted call", () => {
+			const code = `<template>
+  <p>{{ summary }}</p>
+</template>
+
+<script setup lang="ts">
+import { useVocoder } from "@vocoder/vue";
+
+const { t } = useVocoder();
+const summary = t\`Hello \${name}, you have \${cart.items.length} items\`;
+</script>
+`;
+
+			const result = transformVueT(code);
+
+			expect(result.changed).toBe(true);
+			expect(result.code).toContain(
+				'const summary = t("Hello {name}, you have {0} items", { name, 0: cart.items.length });',
+			);
+			expect(result.code).toContain("<p>{{ summary }}</p>");
+		});
+	});
+});
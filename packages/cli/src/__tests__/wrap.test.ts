@@ -0,0 +1,101 @@
+import { wrapHardcodedStrings } from "@vocoder/extractor";
+import { describe, expect, it } from "vitest";
+import { createUnifiedDiff } from "../utils/diff.js";
+
+describe("wrapHardcodedStrings", () => {
+	it("wraps JSX text runs in <T> and adds the import", () => {
+		const code = [
+			'import React from "react";',
+			"",
+			"export const Hero = ({ user }) => (",
+			"  <h1>",
+			"    Welcome back, {user.name}!",
+			"  </h1>",
+			");",
+		].join("\n");
+
+		const result = wrapHardcodedStrings(code);
+
+		expect(result.changed).toBe(true);
+		expect(result.code).toContain('import React from "react";\nimport { T } from "@vocoder/react";');
+		expect(result.code).toContain("  <h1>\n    <T>Welcome back, {user.name}!</T>\n  </h1>");
+		expect(result.strings).toEqual([
+			{ text: "Welcome back, {user.name}!", line: 5, kind: "jsx", uiRole: "heading" },
+		]);
+	});
+
+	it("wraps user-facing props in t() and leaves other props alone", () => {
+		const code = [
+			'import { T } from "@vocoder/react";',
+			'export const Search = () => <input placeholder="Search" aria-label="Search the docs" className="input" />;',
+		].join("\n");
+
+		const result = wrapHardcodedStrings(code);
+
+		expect(result.code).toBe(
+			[
+				'import { T, t } from "@vocoder/react";',
+				'export const Search = () => <input placeholder={t("Search")} aria-label={t("Search the docs")} className="input" />;',
+			].join("\n"),
+		);
+		expect(result.strings.map((s) => s.uiRole)).toEqual(["input_placeholder", "input_label"]);
+	});
+
+	it("splits runs at elements and skips non-UI text", () => {
+		const code = [
+			"export const Help = () => (",
+			"  <p>",
+			'    Read <a href="/docs">the docs</a> or run <code>npx vocoder</code>. <span>—</span>',
+			"  </p>",
+			");",
+		].join("\n");
+
+		const result = wrapHardcodedStrings(code);
+
+		expect(result.code).toContain(
+			'<T>Read</T> <a href="/docs"><T>the docs</T></a> <T>or run</T> <code>npx vocoder</code>. <span>—</span>',
+		);
+	});
+
+	it("leaves existing <T> content and conflicting t bindings untouched", () => {
+		const code = [
+			'import { T as Trans } from "@vocoder/react";',
+			'import { t } from "./i18n";',
+			'export const A = () => <Trans>Hello <b>there</b></Trans>;',
+			'export const B = () => <img alt="Logo" />;',
+		].join("\n");
+
+		expect(wrapHardcodedStrings(code)).toEqual({ code, changed: false, strings: [] });
+	});
+
+	it("inserts the import after directives when the file has no imports", () => {
+		const result = wrapHardcodedStrings('"use client";\nexport const A = () => <>Hi</>;');
+
+		expect(result.code).toBe(
+			'"use client";\n\nimport { T } from "@vocoder/react";\nexport const A = () => <><T>Hi</T></>;',
+		);
+	});
+});
+
+describe("createUnifiedDiff", () => {
+	it("renders changed lines with context", () => {
+		const before = ["a", "b", "c", "d", "e", "f", "g", "h"].join("\n");
+		const after = ["a", "b", "c", "d", "E", "f", "g", "h"].join("\n");
+
+		expect(createUnifiedDiff("src/x.tsx", before, after, 2)).toBe(
+			[
+				"--- a/src/x.tsx",
+				"+++ b/src/x.tsx",
+				"@@ -3,5 +3,5 @@",
+				" c",
+				" d",
+				"-e",
+				"+E",
+				" f",
+				" g",
+				"",
+			].join("\n"),
+		);
+		expect(createUnifiedDiff("src/x.tsx", before, before)).toBe("");
+	});
+});
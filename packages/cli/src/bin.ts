@@ -14,6 +14,8 @@ import { sync } from "./commands/sync.js";
 import { getTranslations } from "./commands/translations.js";
 import { createApp } from "./commands/create-app.js";
 import { whoami } from "./commands/whoami.js";
+import { lint } from "./commands/lint.js";
+import { wrap } from "./commands/wrap.js";
 
 /**
  * Collector function for repeated CLI options
@@ -75,6 +77,25 @@ program
 		return runCommand(sync, translated);
 	});
 
+program
+	.command("wrap [globs...]")
+	.description("Wrap hard-coded JSX strings in <T> and t()")
+	.option("--dry-run", "Print a unified diff instead of writing files")
+	.option("--exclude <pattern>", "Exclude glob pattern", collect, [])
+	.option("--verbose", "List every wrapped string")
+	.action((globs: string[], options) =>
+		runCommand((opts) => wrap({ ...opts, include: globs }), options),
+	);
+
+program
+	.command("lint [globs...]")
+	.description("Report untranslated strings and untranslatable <T> / t() usage")
+	.option("--exclude <pattern>", "Exclude glob pattern", collect, [])
+	.option("--verbose", "Detailed output")
+	.action((globs: string[], options) =>
+		runCommand((opts) => lint({ ...opts, include: globs }), options),
+	);
+
 program
 	.command("logout")
 	.description("Log out and remove stored credentials")
@@ -0,0 +1,75 @@
+import { readFileSync } from "node:fs";
+import { relative } from "node:path";
+import * as p from "@clack/prompts";
+import chalk from "chalk";
+import { findSourceFiles, lintContent, loadVocoderConfig } from "@vocoder/extractor";
+import type { LintDiagnostic } from "@vocoder/extractor";
+import { getMergedConfig } from "../utils/config.js";
+import { highlight } from "../utils/theme.js";
+
+export interface LintOptions {
+	/** Glob patterns of files to lint. Defaults to the vocoder.config.ts include patterns. */
+	include?: string[];
+	exclude?: string[];
+	verbose?: boolean;
+}
+
+/**
+ * One diagnostic per line — `file:line:column  rule  message` — the shape
+ * editors and CI annotators pick up.
+ */
+export function formatDiagnostic(diagnostic: LintDiagnostic): string {
+	const { file, line, column, rule, message } = diagnostic;
+	return `${file}:${line}:${column}  ${chalk.dim(rule)}  ${message}`;
+}
+
+/**
+ * Report hard-coded JSX strings, untranslatable <T> bodies and dynamic t()
+ * calls (see lintContent for the rules and ignore comments).
+ *
+ * Exits 1 when anything is reported, so it can gate CI.
+ */
+export async function lint(options: LintOptions = {}): Promise<number> {
+	const projectRoot = process.cwd();
+
+	p.intro(chalk.bold("Vocoder Lint"));
+
+	const { includePattern, excludePattern } = await getMergedConfig(
+		{ include: options.include, exclude: options.exclude },
+		options.verbose,
+	);
+
+	const spinner = p.spinner();
+	spinner.start(`Scanning ${includePattern.join(", ")}`);
+
+	const files = await findSourceFiles(includePattern, projectRoot, excludePattern);
+	const fileConfig = loadVocoderConfig(projectRoot) ?? undefined;
+	const diagnostics: LintDiagnostic[] = [];
+
+	for (const file of files) {
+		const relPath = relative(projectRoot, file).split("\\").join("/");
+		let code: string;
+		try {
+			code = readFileSync(file, "utf-8");
+		} catch {
+			continue;
+		}
+		diagnostics.push(...lintContent(relPath, code, fileConfig));
+	}
+
+	const fileCount = new Set(diagnostics.map((d) => d.file)).size;
+	spinner.stop(
+		`Linted ${highlight(String(files.length))} file(s) — ${highlight(String(diagnostics.length))} problem(s) in ${highlight(String(fileCount))} file(s)`,
+	);
+
+	if (diagnostics.length === 0) {
+		p.outro("No problems found.");
+		return 0;
+	}
+
+	process.stdout.write(`${diagnostics.map(formatDiagnostic).join("\n")}\n`);
+	p.outro(
+		"Wrap hard-coded strings with `vocoder wrap`, or silence a line with `// vocoder-ignore-next-line`.",
+	);
+	return 1;
+}
@@ -1,10 +1,15 @@
 import { createHash, randomUUID } from "node:crypto";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { existsSync, readFileSync } from "node:fs";
 import { join } from "node:path";
 import * as p from "@clack/prompts";
 import chalk from "chalk";
 import { highlight } from "../utils/theme.js";
 import type { VocoderTranslationData } from "@vocoder/config";
+import {
+	getCachedBundlePath,
+	readNearestBundle,
+	writeCachedBundle,
+} from "@vocoder/config/cache";
 import { loadVocoderConfig } from "@vocoder/extractor";
 import type {
 	EffectiveSyncMode,
@@ -19,16 +24,22 @@ import type {
 } from "../types.js";
 import { VocoderAPI, VocoderAPIError } from "../utils/api.js";
 import { detectBranch, isTargetBranch } from "../utils/branch.js";
+import { buildTranslationData, writeHashedLocaleFiles } from "../utils/locale-files.js";
 import { extractShortCodeFromApiKey, getMergedConfig, validateLocalConfig } from "../utils/config.js";
-import { StringExtractor } from "../utils/extract.js";
+import {
+	type ExtractionDiagnostic,
+	formatExtractionDiagnostic,
+	StringExtractor,
+} from "../utils/extract.js";
 import {
 	detectCommitSha,
 	resolveGitRepositoryIdentity,
 } from "../utils/git-identity.js";
+import { buildStringEntries } from "../utils/string-entries.js";
 
 type LocaleMetadataMap = LocalesMap;
 type TranslationMap = Record<string, Record<string, string>>;
-type TranslationArtifactSource = "fresh" | "local-cache" | "api-snapshot";
+type TranslationArtifactSource = "fresh" | "local-cache" | "api-snapshot" | "previous-bundle";
 
 type TranslationArtifacts = {
 	source: TranslationArtifactSource;
@@ -103,47 +114,11 @@ function parseTranslations(value: unknown): TranslationMap | null {
 	return Object.keys(translations).length > 0 ? translations : null;
 }
 
-function getCacheFilePath(projectRoot: string, fingerprint: string): string {
-	return join(projectRoot, "node_modules", ".vocoder", "cache", `${fingerprint}.json`);
-}
-
-function buildTranslationData(params: {
-	sourceLocale: string;
-	targetLocales: string[];
-	stringEntries: TranslationStringEntry[];
-	translations: TranslationMap;
-	localeMetadata?: LocaleMetadataMap;
-	updatedAt: string;
-}): VocoderTranslationData {
-	// Remap text-keyed translations → hash-keyed using the string entries the CLI already has
-	const textToHash = new Map(params.stringEntries.map((e) => [e.text, e.key]));
-	const hashKeyed: TranslationMap = {};
-	for (const [locale, localeMap] of Object.entries(params.translations)) {
-		hashKeyed[locale] = {};
-		for (const [text, translation] of Object.entries(localeMap)) {
-			const hash = textToHash.get(text);
-			if (hash) hashKeyed[locale][hash] = translation;
-		}
-	}
-
-	const locales: Record<string, { nativeName: string; dir?: "rtl" }> = {};
-	for (const code of [params.sourceLocale, ...params.targetLocales]) {
-		const meta = params.localeMetadata?.[code];
-		if (meta) locales[code] = { nativeName: meta.nativeName, ...(meta.dir ? { dir: meta.dir } : {}) };
-	}
-
-	return {
-		config: { sourceLocale: params.sourceLocale, targetLocales: params.targetLocales, locales },
-		translations: hashKeyed,
-		updatedAt: params.updatedAt,
-	};
-}
-
 function readLocalCache(params: {
 	projectRoot: string;
 	fingerprint: string;
 }): TranslationArtifacts | null {
-	const cacheFilePath = getCacheFilePath(params.projectRoot, params.fingerprint);
+	const cacheFilePath = getCachedBundlePath(params.projectRoot, params.fingerprint);
 	if (!existsSync(cacheFilePath)) return null;
 	try {
 		const raw = readFileSync(cacheFilePath, "utf-8");
@@ -163,16 +138,55 @@ function readLocalCache(params: {
 	}
 }
 
-function writeCache(params: {
+/**
+ * Fill the strings `translations` (text-keyed, per target locale) is missing
+ * from the nearest previously cached bundle — the one sharing the most keys
+ * with `stringEntries`. A new string changes the fingerprint; seeding keeps
+ * every still-extracted string translated while its batch is pending.
+ */
+function seedFromPreviousBundle(params: {
 	projectRoot: string;
 	fingerprint: string;
-	data: VocoderTranslationData;
-}): string {
-	const cacheDir = join(params.projectRoot, "node_modules", ".vocoder", "cache");
-	mkdirSync(cacheDir, { recursive: true });
-	const cacheFilePath = getCacheFilePath(params.projectRoot, params.fingerprint);
-	writeFileSync(cacheFilePath, JSON.stringify(params.data), "utf-8");
-	return cacheFilePath;
+	stringEntries: TranslationStringEntry[];
+	targetLocales: string[];
+	translations: TranslationMap;
+}): {
+	translations: TranslationMap;
+	localeMetadata?: LocaleMetadataMap;
+	carriedOver: number;
+	from: string | null;
+} {
+	const keyToText = new Map(params.stringEntries.map((entry) => [entry.key, entry.text]));
+	const unchanged = { translations: params.translations, carriedOver: 0, from: null };
+
+	const nearest = readNearestBundle(
+		params.projectRoot,
+		params.fingerprint,
+		new Set(keyToText.keys()),
+	);
+	if (!nearest) return unchanged;
+	const previous = nearest.data;
+
+	const carried = new Set<string>();
+	const translations: TranslationMap = { ...params.translations };
+	for (const locale of params.targetLocales) {
+		const seeded = { ...(translations[locale] ?? {}) };
+		for (const [key, translated] of Object.entries(previous.translations[locale] ?? {})) {
+			const text = keyToText.get(key);
+			if (!text || text in seeded) continue;
+			seeded[text] = translated;
+			carried.add(key);
+		}
+		translations[locale] = seeded;
+	}
+	if (carried.size === 0) return unchanged;
+
+	return {
+		translations,
+		localeMetadata: parseLocaleMetadata(previous.config?.locales),
+		carriedOver: carried.size,
+		from: nearest.fingerprint,
+	};
 }
 
 function resolveEffectiveModeFromPolicy(params: {
@@ -326,58 +340,42 @@ function getSyncPolicyErrorGuidance(
 	return lines;
 }
 
-function mergeContext(
-	current: string | undefined,
-	incoming: string | undefined,
-): string | undefined {
-	if (!incoming) return current;
-	if (!current) return incoming;
-	if (current === incoming) return current;
-
-	const merged = new Set(
-		[...current.split(" | "), ...incoming.split(" | ")]
-			.map((part) => part.trim())
-			.filter(Boolean),
-	);
-	return Array.from(merged).join(" | ");
+/**
+ * Strings the extractor skipped or files it couldn't parse — each one with
+ * --verbose, otherwise just the count.
+ */
+function reportExtractionDiagnostics(
+	diagnostics: ExtractionDiagnostic[],
+	verbose?: boolean,
+): void {
+	if (diagnostics.length === 0) return;
+	if (!verbose) {
+		p.log.warn(
+			`${diagnostics.length} extraction warning(s) — run with --verbose for details`,
+		);
+		return;
+	}
+	p.note(diagnostics.map(formatExtractionDiagnostic).join("\n"), "Extraction diagnostics");
 }
 
-function buildStringEntries(
-	extractedStrings: ExtractedString[],
-): TranslationStringEntry[] {
-	const byText = new Map<string, TranslationStringEntry>();
-
-	for (const str of extractedStrings) {
-		const existing = byText.get(str.text);
-		if (!existing) {
-			byText.set(str.text, {
-				key: str.key,
-				text: str.text,
-				...(str.context ? { context: str.context } : {}),
-				...(str.formality ? { formality: str.formality } : {}),
-				...(str.uiRole ? { uiRole: str.uiRole } : {}),
-			});
-			continue;
-		}
-
-		existing.context = mergeContext(existing.context, str.context);
-
-		if (!existing.formality && str.formality) {
-			existing.formality = str.formality;
-		} else if (
-			existing.formality &&
-			str.formality &&
-			existing.formality !== str.formality
-		) {
-			existing.formality = "auto";
-		}
-
-		if (str.key < existing.key) {
-			existing.key = str.key;
+/**
+ * Write the synced bundle to `localesPath` from vocoder.config.ts. Unlike the
+ * cache these files are committed, so a failed write fails the sync.
+ */
+function writeLocalesPath(
+	data: VocoderTranslationData,
+	projectRoot: string,
+	localesPath: string,
+	verbose?: boolean,
+): void {
+	const written = writeHashedLocaleFiles(data, join(projectRoot, localesPath));
+	if (verbose) {
+		for (const filePath of written) {
+			p.log.info(`Wrote ${highlight(filePath)}`);
 		}
+	} else {
+		p.log.success(`Wrote ${highlight(written.length)} file(s) to ${highlight(localesPath)}`);
 	}
-
-	return Array.from(byText.values());
 }
 
 async function fetchApiSnapshot(
@@ -479,8 +477,8 @@ export async function sync(options: TranslateOptions = {}): Promise<number> {
 			: config.includePattern;
 
 		spinner.start(`Extracting strings from ${patternsDisplay}`);
-		const extractor = new StringExtractor();
-		const extractedStrings = await extractor.extractFromProject(
+		const extractor = new StringExtractor(fileConfig ?? undefined);
+		const { strings: extractedStrings, diagnostics } = await extractor.extractFromProject(
 			config.includePattern,
 			projectRoot,
 			config.excludePattern,
@@ -488,6 +486,7 @@ export async function sync(options: TranslateOptions = {}): Promise<number> {
 
 		if (extractedStrings.length === 0) {
 			spinner.stop("No translatable strings found");
+			reportExtractionDiagnostics(diagnostics, options.verbose);
 			p.log.warn(
 				"Make sure you are wrapping translatable strings with Vocoder",
 			);
@@ -499,10 +498,21 @@ export async function sync(options: TranslateOptions = {}): Promise<number> {
 			`Extracted ${highlight(extractedStrings.length)} strings from ${highlight(patternsDisplay)}`,
 		);
 
+		// A collision would show one string the other's translation — don't sync it.
+		const collisions = diagnostics.filter((d) => d.code === "key-collision");
+		if (collisions.length > 0) {
+			for (const collision of collisions) {
+				p.log.error(formatExtractionDiagnostic(collision));
+			}
+			p.outro(`${collisions.length} message key collision(s) — nothing was synced.`);
+			return 1;
+		}
+		reportExtractionDiagnostics(diagnostics, options.verbose);
+
 		if (options.verbose) {
 			const sampleLines = extractedStrings
 				.slice(0, 5)
-				.map((s: ExtractedString) => `  "${s.text}" (${s.file}:${s.line})`);
+				.map((s: ExtractedString) => `  "${s.text}" (${s.file}:${s.line}:${s.column})`);
 			if (extractedStrings.length > 5) {
 				sampleLines.push(`  ... and ${extractedStrings.length - 5} more`);
 			}
@@ -546,11 +556,15 @@ export async function sync(options: TranslateOptions = {}): Promise<number> {
 
 		// Local cache check — skip API submission if translations already exist for this fingerprint.
 		if (!options.force) {
-			const cacheFile = getCacheFilePath(projectRoot, fingerprint);
+			const cacheFile = getCachedBundlePath(projectRoot, fingerprint);
 			if (existsSync(cacheFile)) {
 				if (options.verbose) {
 					p.log.info(`Cache hit: ${chalk.dim(cacheFile)} (fingerprint ${highlight(fingerprint)})`);
 				}
+				if (fileConfig?.localesPath) {
+					const cached = JSON.parse(readFileSync(cacheFile, "utf-8")) as VocoderTranslationData;
+					writeLocalesPath(cached, projectRoot, fileConfig.localesPath, options.verbose);
+				}
 				const duration = ((Date.now() - startTime) / 1000).toFixed(1);
 				p.outro(`Up to date (${duration}s)`);
 				return 0;
@@ -703,18 +717,42 @@ export async function sync(options: TranslateOptions = {}): Promise<number> {
 					}
 				}
 			}
+		}
 
-			if (!artifacts) {
-				if (waitError) {
-					throw new Error(
-						`No fallback snapshot available after wait failure: ${waitError.message}`,
-					);
-				}
+		// Strings the batch hasn't translated yet keep their translations from the
+		// nearest cached bundle — unless fallback is disabled.
+		if (!mergedConfig.noFallback) {
+			const seeded = seedFromPreviousBundle({
+				projectRoot,
+				fingerprint,
+				stringEntries,
+				targetLocales: config.targetLocales,
+				translations: artifacts?.translations ?? {},
+			});
+			if (seeded.carriedOver > 0) {
+				artifacts = artifacts
+					? { ...artifacts, translations: seeded.translations }
+					: {
+							source: "previous-bundle",
+							translations: seeded.translations,
+							localeMetadata: seeded.localeMetadata,
+						};
+				p.log.info(
+					`Carried over ${highlight(seeded.carriedOver)} translated string(s) from previous bundle ${chalk.dim(seeded.from)}`,
+				);
+			}
+		}
 
+		if (!artifacts) {
+			if (waitError) {
 				throw new Error(
-					"No fallback snapshot available. Try again shortly or run with --mode required.",
+					`No fallback snapshot available after wait failure: ${waitError.message}`,
 				);
 			}
+
+			throw new Error(
+				"No fallback snapshot available. Try again shortly or run with --mode required.",
+			);
 		}
 
 		const finalTranslations = normalizeTranslations({
@@ -724,16 +762,17 @@ export async function sync(options: TranslateOptions = {}): Promise<number> {
 			translations: artifacts.translations,
 		});
 
+		const data = buildTranslationData({
+			sourceLocale: config.sourceLocale,
+			targetLocales: config.targetLocales,
+			stringEntries,
+			translations: finalTranslations,
+			localeMetadata: artifacts.localeMetadata,
+			updatedAt: new Date().toISOString(),
+		});
+
 		try {
-			const data = buildTranslationData({
-				sourceLocale: config.sourceLocale,
-				targetLocales: config.targetLocales,
-				stringEntries,
-				translations: finalTranslations,
-				localeMetadata: artifacts.localeMetadata,
-				updatedAt: new Date().toISOString(),
-			});
-			const cachePath = writeCache({ projectRoot, fingerprint, data });
+			const cachePath = writeCachedBundle(projectRoot, fingerprint, data);
 			if (options.verbose) {
 				p.log.info(`Cache written: ${highlight(cachePath)}`);
 			}
@@ -745,11 +784,17 @@ export async function sync(options: TranslateOptions = {}): Promise<number> {
 			}
 		}
 
+		if (fileConfig?.localesPath) {
+			writeLocalesPath(data, projectRoot, fileConfig.localesPath, options.verbose);
+		}
+
 		if (artifacts.source !== "fresh") {
 			const sourceLabel =
 				artifacts.source === "local-cache"
 					? "local cached snapshot"
-					: "completed API snapshot";
+					: artifacts.source === "previous-bundle"
+						? "previous cached bundle"
+						: "completed API snapshot";
 			p.log.warn(
 				`Using ${sourceLabel}. New strings may appear after the background sync completes.`,
 			);
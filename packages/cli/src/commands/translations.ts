@@ -4,8 +4,13 @@ import * as p from "@clack/prompts";
 import chalk from "chalk";
 import { active, highlight } from "../utils/theme.js";
 import { config as loadEnv } from "dotenv";
+import { loadVocoderConfig } from "@vocoder/extractor";
 import { VocoderAPI } from "../utils/api.js";
 import { detectBranch } from "../utils/branch.js";
+import { getMergedConfig } from "../utils/config.js";
+import { StringExtractor } from "../utils/extract.js";
+import { buildTranslationData, writeHashedLocaleFiles } from "../utils/locale-files.js";
+import { buildStringEntries } from "../utils/string-entries.js";
 
 loadEnv();
 
@@ -17,7 +22,8 @@ export interface TranslationsOptions {
 	/**
 	 * Output directory for locale JSON files.
 	 * When set, writes one <locale>.json per locale to this directory.
-	 * When omitted, prints the full snapshot as JSON to stdout.
+	 * When omitted, writes hash-keyed files to `localesPath` from
+	 * vocoder.config.ts, or prints the full snapshot as JSON to stdout.
 	 */
 	output?: string;
 	apiUrl?: string;
@@ -29,7 +35,11 @@ export interface TranslationsOptions {
  * With --output <dir>: writes one <locale>.json file per locale to the
  * specified directory. Each file shape: { "source text": "translated text" }.
  *
- * Without --output: prints the full snapshot JSON to stdout, suitable
+ * Without --output, when vocoder.config.ts sets `localesPath`: extracts the
+ * project's strings to key the snapshot and writes the hash-keyed files
+ * @vocoder/plugin builds from (see writeHashedLocaleFiles).
+ *
+ * Otherwise: prints the full snapshot JSON to stdout, suitable
  * for piping or programmatic use.
  *
  * Reads the project API key from VOCODER_API_KEY.
@@ -63,6 +73,9 @@ export async function getTranslations(options: TranslationsOptions = {}): Promis
 		return 1;
 	}
 
+	const fileConfig = loadVocoderConfig(process.cwd());
+	const localesPath = options.output ? undefined : fileConfig?.localesPath;
+
 	const spinner = p.spinner();
 	spinner.start(`Fetching translations for ${highlight(branch)}…`);
 
@@ -94,6 +107,25 @@ export async function getTranslations(options: TranslationsOptions = {}): Promis
 
 		if (options.output) {
 			writeLocaleFiles(translations, options.output);
+		} else if (localesPath) {
+			const mergedConfig = await getMergedConfig({});
+			const extractor = new StringExtractor(fileConfig ?? undefined);
+			const { strings } = await extractor.extractFromProject(
+				mergedConfig.includePattern,
+				process.cwd(),
+				mergedConfig.excludePattern,
+			);
+			const data = buildTranslationData({
+				sourceLocale: projectConfig.sourceLocale,
+				targetLocales,
+				stringEntries: buildStringEntries(strings),
+				translations,
+				localeMetadata: snapshot.localeMetadata,
+				updatedAt: snapshot.completedAt ?? new Date().toISOString(),
+			});
+			for (const filePath of writeHashedLocaleFiles(data, join(process.cwd(), localesPath))) {
+				p.log.success(`Wrote ${highlight(filePath)}`);
+			}
 		} else {
 			// stdout — raw JSON for piping/programmatic use
 			process.stdout.write(JSON.stringify(translations, null, 2));
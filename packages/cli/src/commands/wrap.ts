@@ -0,0 +1,99 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { relative } from "node:path";
+import * as p from "@clack/prompts";
+import chalk from "chalk";
+import { findSourceFiles, wrapHardcodedStrings } from "@vocoder/extractor";
+import type { WrappedString } from "@vocoder/extractor";
+import { createUnifiedDiff } from "../utils/diff.js";
+import { getMergedConfig } from "../utils/config.js";
+import { highlight } from "../utils/theme.js";
+
+export interface WrapOptions {
+	/** Glob patterns of files to wrap. Defaults to the vocoder.config.ts include patterns. */
+	include?: string[];
+	exclude?: string[];
+	/** Print a unified diff instead of writing files. */
+	dryRun?: boolean;
+	verbose?: boolean;
+}
+
+// The codemod targets React components — JSX syntax only.
+const JSX_FILE = /\.(jsx|tsx|js)$/;
+
+/**
+ * Wrap hard-coded JSX strings for translation: text in `<T>`, user-facing
+ * props (placeholder, alt, title, aria-label) in `t()`, adding the
+ * @vocoder/react import where needed. Strings that aren't UI copy — code
+ * blocks, classNames, punctuation — are left alone.
+ *
+ * With --dry-run, prints a unified diff and writes nothing.
+ */
+export async function wrap(options: WrapOptions = {}): Promise<number> {
+	const projectRoot = process.cwd();
+
+	p.intro(chalk.bold("Vocoder Wrap"));
+
+	const { includePattern, excludePattern } = await getMergedConfig(
+		{ include: options.include, exclude: options.exclude },
+		options.verbose,
+	);
+
+	const spinner = p.spinner();
+	spinner.start(`Scanning ${includePattern.join(", ")}`);
+
+	const files = (await findSourceFiles(includePattern, projectRoot, excludePattern)).filter(
+		(file) => JSX_FILE.test(file),
+	);
+
+	const diffs: string[] = [];
+	const changed: Array<{ file: string; strings: WrappedString[] }> = [];
+
+	for (const file of files) {
+		const relPath = relative(projectRoot, file).split("\\").join("/");
+		let code: string;
+		try {
+			code = readFileSync(file, "utf-8");
+		} catch {
+			continue;
+		}
+
+		const result = wrapHardcodedStrings(code);
+		if (!result.changed) continue;
+
+		changed.push({ file: relPath, strings: result.strings });
+		if (options.dryRun) {
+			diffs.push(createUnifiedDiff(relPath, code, result.code));
+		} else {
+			writeFileSync(file, result.code, "utf-8");
+		}
+	}
+
+	const total = changed.reduce((sum, { strings }) => sum + strings.length, 0);
+	spinner.stop(
+		`Scanned ${highlight(String(files.length))} file(s) — ${highlight(String(total))} string(s) to wrap in ${highlight(String(changed.length))} file(s)`,
+	);
+
+	if (options.verbose) {
+		for (const { file, strings } of changed) {
+			p.note(
+				strings
+					.map((s) => `  ${s.line}: ${s.kind === "jsx" ? `<T>${s.text}</T>` : `t(${JSON.stringify(s.text)})`}`)
+					.join("\n"),
+				file,
+			);
+		}
+	}
+
+	if (options.dryRun) {
+		if (diffs.length > 0) process.stdout.write(diffs.join(""));
+		p.outro("Dry run — no files written.");
+		return 0;
+	}
+
+	p.outro(
+		changed.length > 0
+			? "Review the changes, then run `vocoder sync` to translate them."
+			: "Nothing to wrap.",
+	);
+	return 0;
+}
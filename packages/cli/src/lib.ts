@@ -5,6 +5,7 @@ export type {
 	LocaleInfo,
 	LocalesMap,
 	SyncPolicyConfig,
+	StringOccurrence,
 	SyncPolicyErrorResponse,
 	TranslationBatchResponse,
 	TranslationSnapshotResponse,
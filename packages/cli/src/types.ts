@@ -1,3 +1,5 @@
+import type { StringOccurrence } from "@vocoder/extractor";
+
 export interface LocaleInfo {
 	nativeName: string;
 	dir?: "rtl";
@@ -67,7 +69,7 @@ export interface ProjectConfig extends LocalConfig, APIAppConfig {
 	appIndustry?: string;
 }
 
-export type { ExtractedString } from "@vocoder/extractor";
+export type { ExtractedString, StringOccurrence } from "@vocoder/extractor";
 
 export interface TranslationStringEntry {
 	key: string;
@@ -75,6 +77,14 @@ export interface TranslationStringEntry {
 	context?: string;
 	formality?: "formal" | "informal" | "neutral" | "auto";
 	uiRole?: string;
+	/** Note for translators. */
+	note?: string;
+	/** Maximum translation length in characters. */
+	maxLength?: number;
+	/** Where the string is used — file, line, column and enclosing component. */
+	occurrences?: StringOccurrence[];
+	/** Key before hashAlgorithm / keyLength changed — the server moves its translations to `key`. */
+	legacyKey?: string;
 }
 
 export interface TranslationBatchResponse {
@@ -258,6 +258,10 @@ export class VocoderAPI {
 			...(entry.context ? { context: entry.context } : {}),
 			...(entry.formality ? { formality: entry.formality } : {}),
 			...(entry.uiRole ? { uiRole: entry.uiRole } : {}),
+			...(entry.note ? { note: entry.note } : {}),
+			...(entry.maxLength ? { maxLength: entry.maxLength } : {}),
+			...(entry.occurrences?.length ? { occurrences: entry.occurrences } : {}),
+			...(entry.legacyKey ? { legacyKey: entry.legacyKey } : {}),
 		}));
 	}
 
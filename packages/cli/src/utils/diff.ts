@@ -0,0 +1,105 @@
+/**
+ * Minimal unified diff for CLI previews (`vocoder wrap --dry-run`).
+ * Output applies with `git apply` / `patch -p1`.
+ */
+
+type Op = { type: " " | "-" | "+"; line: string };
+
+/** Line-level edit script via LCS, after trimming the common prefix and suffix. */
+function diffLines(a: string[], b: string[]): Op[] {
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const midA = a.slice(prefix, a.length - suffix);
+	const midB = b.slice(prefix, b.length - suffix);
+
+	// lcs[i][j] = LCS length of midA[i..] and midB[j..]
+	const lcs: number[][] = Array.from({ length: midA.length + 1 }, () =>
+		new Array<number>(midB.length + 1).fill(0),
+	);
+	for (let i = midA.length - 1; i >= 0; i--) {
+		for (let j = midB.length - 1; j >= 0; j--) {
+			lcs[i]![j] =
+				midA[i] === midB[j]
+					? lcs[i + 1]![j + 1]! + 1
+					: Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+		}
+	}
+
+	const ops: Op[] = a.slice(0, prefix).map((line) => ({ type: " ", line }));
+	let i = 0;
+	let j = 0;
+	while (i < midA.length || j < midB.length) {
+		if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+			ops.push({ type: " ", line: midA[i++]! });
+			j++;
+		} else if (i < midA.length && (j === midB.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+			// Deletions before insertions, as diff(1) prints them.
+			ops.push({ type: "-", line: midA[i++]! });
+		} else {
+			ops.push({ type: "+", line: midB[j++]! });
+		}
+	}
+	for (const line of a.slice(a.length - suffix)) ops.push({ type: " ", line });
+
+	return ops;
+}
+
+/**
+ * Unified diff of `before` → `after` for `file` (a path relative to the
+ * project root), with `context` unchanged lines around each change.
+ * Empty when the contents are identical.
+ */
+export function createUnifiedDiff(
+	file: string,
+	before: string,
+	after: string,
+	context = 3,
+): string {
+	if (before === after) return "";
+
+	const ops = diffLines(before.split("\n"), after.split("\n"));
+	const hunks: string[] = [];
+
+	let index = 0;
+	while (index < ops.length) {
+		// Next change, and the hunk around it: extend while changes are within 2×context.
+		while (index < ops.length && ops[index]!.type === " ") index++;
+		if (index === ops.length) break;
+
+		const start = Math.max(0, index - context);
+		let end = index;
+		let lastChange = index;
+		while (end < ops.length && end - lastChange <= context * 2) {
+			if (ops[end]!.type !== " ") lastChange = end;
+			end++;
+		}
+		end = Math.min(ops.length, lastChange + context + 1);
+
+		let oldStart = 1;
+		let newStart = 1;
+		for (const op of ops.slice(0, start)) {
+			if (op.type !== "+") oldStart++;
+			if (op.type !== "-") newStart++;
+		}
+		const body = ops.slice(start, end);
+		const oldCount = body.filter((op) => op.type !== "+").length;
+		const newCount = body.filter((op) => op.type !== "-").length;
+
+		hunks.push(
+			`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`,
+			...body.map((op) => `${op.type}${op.line}`),
+		);
+		index = end;
+	}
+
+	return [`--- a/${file}`, `+++ b/${file}`, ...hunks, ""].join("\n");
+}
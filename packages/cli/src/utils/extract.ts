@@ -1 +1,6 @@
-export { type ExtractedString, StringExtractor } from "@vocoder/extractor";
+export {
+	type ExtractedString,
+	type ExtractionDiagnostic,
+	formatExtractionDiagnostic,
+	StringExtractor,
+} from "@vocoder/extractor";
@@ -0,0 +1,82 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { VocoderTranslationData } from "@vocoder/config";
+import type { LocalesMap, TranslationStringEntry } from "../types.js";
+
+/**
+ * Locale config written next to the locale files — everything in
+ * VocoderTranslationData except the translations. @vocoder/plugin reads it back
+ * from `localesPath` to build without the API.
+ */
+export const LOCALES_CONFIG_FILE = "_config.json";
+
+/**
+ * Remap text-keyed translations (as the API returns them) to the hash-keyed
+ * VocoderTranslationData the build plugin and runtime use, keyed with the
+ * string entries the CLI extracted.
+ */
+export function buildTranslationData(params: {
+	sourceLocale: string;
+	targetLocales: string[];
+	stringEntries: TranslationStringEntry[];
+	translations: Record<string, Record<string, string>>;
+	localeMetadata?: LocalesMap;
+	updatedAt: string;
+}): VocoderTranslationData {
+	const textToHash = new Map(params.stringEntries.map((e) => [e.text, e.key]));
+	const hashKeyed: Record<string, Record<string, string>> = {};
+	for (const [locale, localeMap] of Object.entries(params.translations)) {
+		hashKeyed[locale] = {};
+		for (const [text, translation] of Object.entries(localeMap)) {
+			const hash = textToHash.get(text);
+			if (hash) hashKeyed[locale][hash] = translation;
+		}
+	}
+
+	const locales: Record<string, { nativeName: string; dir?: "rtl" }> = {};
+	for (const code of [params.sourceLocale, ...params.targetLocales]) {
+		const meta = params.localeMetadata?.[code];
+		if (meta) locales[code] = { nativeName: meta.nativeName, ...(meta.dir ? { dir: meta.dir } : {}) };
+	}
+
+	return {
+		config: { sourceLocale: params.sourceLocale, targetLocales: params.targetLocales, locales },
+		translations: hashKeyed,
+		updatedAt: params.updatedAt,
+	};
+}
+
+/**
+ * Write translation data to `dir` (the resolved `localesPath`) as files meant
+ * to be committed: one hash-keyed `<locale>.json` per locale plus `_config.json`.
+ * Keys are sorted and `updatedAt` is left out, so a sync that changed nothing
+ * leaves the files untouched. Returns the paths written.
+ */
+export function writeHashedLocaleFiles(
+	data: VocoderTranslationData,
+	dir: string,
+): string[] {
+	mkdirSync(dir, { recursive: true });
+
+	const written: string[] = [];
+	const write = (name: string, value: unknown) => {
+		const filePath = join(dir, name);
+		writeFileSync(filePath, `${JSON.stringify(value, null, 2)}\n`, "utf-8");
+		written.push(filePath);
+	};
+
+	write(LOCALES_CONFIG_FILE, data.config);
+	for (const locale of Object.keys(data.translations).sort()) {
+		write(`${locale}.json`, sortKeys(data.translations[locale]!));
+	}
+
+	return written;
+}
+
+function sortKeys(entries: Record<string, string>): Record<string, string> {
+	const sorted: Record<string, string> = {};
+	for (const key of Object.keys(entries).sort()) {
+		sorted[key] = entries[key]!;
+	}
+	return sorted;
+}
@@ -76,8 +76,8 @@ import { sveltekit } from '@sveltejs/kit/vite';
 
 export default defineConfig({
   plugins: [
+    vocoder(), // before sveltekit() so <T> is transformed before compilation
     sveltekit(),
-    vocoder(),
   ],
 });`,
 			};
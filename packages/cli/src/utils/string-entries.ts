@@ -0,0 +1,75 @@
+import type { ExtractedString, TranslationStringEntry } from "../types.js";
+
+/**
+ * One entry per unique source text, as sync submits them and `vocoder
+ * translations` keys locale files with: occurrences concatenated, contexts and
+ * notes merged, the tightest maxLength and the lowest key kept.
+ */
+export function buildStringEntries(
+	extractedStrings: ExtractedString[],
+): TranslationStringEntry[] {
+	const byText = new Map<string, TranslationStringEntry>();
+
+	for (const str of extractedStrings) {
+		const existing = byText.get(str.text);
+		if (!existing) {
+			byText.set(str.text, {
+				key: str.key,
+				text: str.text,
+				...(str.context ? { context: str.context } : {}),
+				...(str.formality ? { formality: str.formality } : {}),
+				...(str.uiRole ? { uiRole: str.uiRole } : {}),
+				...(str.note ? { note: str.note } : {}),
+				...(str.maxLength ? { maxLength: str.maxLength } : {}),
+				...(str.occurrences ? { occurrences: [...str.occurrences] } : {}),
+				...(str.legacyKey ? { legacyKey: str.legacyKey } : {}),
+			});
+			continue;
+		}
+
+		if (str.occurrences) {
+			existing.occurrences = [...(existing.occurrences ?? []), ...str.occurrences];
+		}
+
+		existing.context = mergeContext(existing.context, str.context);
+		existing.note = mergeContext(existing.note, str.note);
+
+		// The tightest limit wins — the translation has to fit every usage.
+		if (str.maxLength && (!existing.maxLength || str.maxLength < existing.maxLength)) {
+			existing.maxLength = str.maxLength;
+		}
+
+		if (!existing.formality && str.formality) {
+			existing.formality = str.formality;
+		} else if (
+			existing.formality &&
+			str.formality &&
+			existing.formality !== str.formality
+		) {
+			existing.formality = "auto";
+		}
+
+		if (str.key < existing.key) {
+			existing.key = str.key;
+			existing.legacyKey = str.legacyKey;
+		}
+	}
+
+	return Array.from(byText.values());
+}
+
+function mergeContext(
+	current: string | undefined,
+	incoming: string | undefined,
+): string | undefined {
+	if (!incoming) return current;
+	if (!current) return incoming;
+	if (current === incoming) return current;
+
+	const merged = new Set(
+		[...current.split(" | "), ...incoming.split(" | ")]
+			.map((part) => part.trim())
+			.filter(Boolean),
+	);
+	return Array.from(merged).join(" | ");
+}
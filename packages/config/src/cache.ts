@@ -0,0 +1,103 @@
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { VocoderTranslationData } from "./index";
+
+/**
+ * The translation bundle cache in node_modules/.vocoder/cache, written by both
+ * `vocoder sync` and @vocoder/plugin: one `<fingerprint>.json` per bundle, plus
+ * index.json listing the most recent bundles with their keys so a build whose
+ * fingerprint changed can reuse the translations of the nearest one.
+ *
+ * Node-only — imported as `@vocoder/config/cache` so the config entry stays
+ * free of fs.
+ */
+
+const CACHE_INDEX_FILE = "index.json";
+const MAX_INDEXED_BUNDLES = 10;
+
+/** One cached bundle in index.json. */
+export interface CachedBundleEntry {
+	fingerprint: string;
+	savedAt: number;
+	/** Every key the bundle translates, in any locale. */
+	keys: string[];
+}
+
+export function getCacheDir(projectRoot: string): string {
+	return join(projectRoot, "node_modules", ".vocoder", "cache");
+}
+
+export function getCachedBundlePath(projectRoot: string, fingerprint: string): string {
+	return join(getCacheDir(projectRoot), `${fingerprint}.json`);
+}
+
+/** The index, newest bundle first. Empty when missing or unreadable. */
+export function readCacheIndex(projectRoot: string): CachedBundleEntry[] {
+	try {
+		const index = JSON.parse(
+			readFileSync(join(getCacheDir(projectRoot), CACHE_INDEX_FILE), "utf-8"),
+		) as { bundles?: unknown };
+		return Array.isArray(index.bundles) ? (index.bundles as CachedBundleEntry[]) : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Cache a bundle as `<fingerprint>.json` and record its keys in index.json,
+ * keeping the most recent MAX_INDEXED_BUNDLES and deleting older bundles.
+ * Empty bundles (no source locale) are cached but not indexed — there is
+ * nothing in them to reuse. Returns the bundle path; throws when writing fails.
+ */
+export function writeCachedBundle(
+	projectRoot: string,
+	fingerprint: string,
+	data: VocoderTranslationData,
+): string {
+	const cacheDir = getCacheDir(projectRoot);
+	const bundlePath = getCachedBundlePath(projectRoot, fingerprint);
+	mkdirSync(cacheDir, { recursive: true });
+	writeFileSync(bundlePath, JSON.stringify(data), "utf-8");
+	if (!data.config.sourceLocale) return bundlePath;
+
+	const keys = new Set<string>();
+	for (const entries of Object.values(data.translations)) {
+		for (const key of Object.keys(entries)) keys.add(key);
+	}
+	const bundles = [
+		{ fingerprint, savedAt: Date.now(), keys: [...keys] },
+		...readCacheIndex(projectRoot).filter((entry) => entry.fingerprint !== fingerprint),
+	];
+	for (const stale of bundles.splice(MAX_INDEXED_BUNDLES)) {
+		rmSync(getCachedBundlePath(projectRoot, stale.fingerprint), { force: true });
+	}
+	writeFileSync(join(cacheDir, CACHE_INDEX_FILE), JSON.stringify({ bundles }), "utf-8");
+	return bundlePath;
+}
+
+/**
+ * The cached bundle, other than `fingerprint`'s own, sharing the most keys with
+ * `keys` — ties go to the newest. Null when none shares any or it can't be read.
+ */
+export function readNearestBundle(
+	projectRoot: string,
+	fingerprint: string,
+	keys: ReadonlySet<string>,
+): { fingerprint: string; data: VocoderTranslationData } | null {
+	let nearest: { fingerprint: string; shared: number } | null = null;
+	for (const entry of readCacheIndex(projectRoot)) {
+		if (entry.fingerprint === fingerprint) continue;
+		const shared = entry.keys.filter((key) => keys.has(key)).length;
+		if (shared > (nearest?.shared ?? 0)) nearest = { fingerprint: entry.fingerprint, shared };
+	}
+	if (!nearest) return null;
+
+	try {
+		const data = JSON.parse(
+			readFileSync(getCachedBundlePath(projectRoot, nearest.fingerprint), "utf-8"),
+		) as VocoderTranslationData;
+		return { fingerprint: nearest.fingerprint, data };
+	} catch {
+		return null;
+	}
+}
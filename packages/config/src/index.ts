@@ -23,6 +23,12 @@ export type AppIndustry =
  */
 export type Formality = "formal" | "informal" | "neutral";
 
+/**
+ * Hash behind content-based message keys. "fnv1a" is 32-bit (keys of up to
+ * 7 characters); "fnv1a-64" allows keys of up to 13.
+ */
+export type HashAlgorithm = "fnv1a" | "fnv1a-64";
+
 export interface VocoderConfig {
 	/** Glob patterns for files to extract strings from. */
 	include?: string[];
@@ -34,8 +40,10 @@ export interface VocoderConfig {
 	 */
 	targetBranches?: string[];
 	/**
-	 * Directory to write translated locale files after sync (optional).
-	 * If set, `vocoder sync` writes {locale}.json files to this path.
+	 * Directory for committed locale files (optional). If set, `vocoder sync`
+	 * and `vocoder translations` write hash-keyed {locale}.json files and a
+	 * _config.json here, and @vocoder/plugin builds from them without calling
+	 * the API — no `VOCODER_API_KEY` or network needed.
 	 */
 	localesPath?: string;
 	/**
@@ -51,6 +59,42 @@ export interface VocoderConfig {
 	 * Synced to App at extraction time.
 	 */
 	formality?: Formality;
+	/**
+	 * Fallback locales per locale, tried in order for keys the locale hasn't
+	 * translated yet — e.g. `{ "pt-BR": ["pt-PT"] }` shows pt-PT text instead of
+	 * source text. Merged into each locale's bundle at build time by @vocoder/plugin,
+	 * and also used to match a visitor's preferred locale.
+	 */
+	fallbacks?: Record<string, string[]>;
+	/**
+	 * Extra component names extracted like <T>, e.g. `["Trans"]` when a design
+	 * system re-exports T under another name. `T` is always recognised.
+	 */
+	tComponents?: string[];
+	/**
+	 * Extra function names extracted like t(), e.g. `["translate"]`.
+	 * `t` is always recognised.
+	 */
+	tFunctions?: string[];
+	/**
+	 * Extra modules that T and t are imported from, e.g. `["@acme/ui"]`.
+	 * @vocoder/react, @vocoder/vue and @vocoder/svelte are always recognised.
+	 */
+	importSources?: string[];
+	/**
+	 * Hash used for message keys. Switch to "fnv1a-64" (with a longer
+	 * `keyLength`) if extraction reports key collisions.
+	 * Changing it changes every key: `vocoder sync` sends each string's old key
+	 * and the build plugin re-keys existing bundles, so translations carry over.
+	 * @default "fnv1a"
+	 */
+	hashAlgorithm?: HashAlgorithm;
+	/**
+	 * Length of message keys in base-36 characters — at most 7 for "fnv1a",
+	 * 13 for "fnv1a-64".
+	 * @default 7
+	 */
+	keyLength?: number;
 }
 
 /** Type helper for vocoder.config.ts — provides autocomplete and type checking. */
@@ -76,6 +120,8 @@ export interface VocoderTranslationData {
 			currencyCode?: string;
 			ordinalForms?: { type: "suffix"; suffixes: { zero?: string; one?: string; two?: string; few?: string; many?: string; other: string } } | { type: "word"; words: Record<string, Record<number, string>> };
 		}>;
+		/** Copied from vocoder.config.ts by the build plugin. */
+		fallbacks?: Record<string, string[]>;
 	};
 	translations: Record<string, Record<string, string>>;
 	updatedAt: string | null;
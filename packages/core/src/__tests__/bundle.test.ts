@@ -0,0 +1,91 @@
+// @vitest-environment node
+import { resolve } from "node:path";
+import { build } from "esbuild";
+import type { Metafile, Plugin } from "esbuild";
+import { describe, expect, it } from "vitest";
+
+const PARSERS = ["intl-messageformat", "@formatjs/icu-messageformat-parser"];
+
+/**
+ * Resolve #icu-parser the way a build does: to src/parser.ts (package.json
+ * "imports", pointed at src), or with `precompile` to @vocoder/plugin's stub.
+ */
+function icuParserImport(precompile: boolean): Plugin {
+	return {
+		name: "icu-parser",
+		setup(build) {
+			build.onResolve({ filter: /^#icu-parser$/ }, () =>
+				precompile
+					? { path: "icu-parser", namespace: "vocoder" }
+					: { path: resolve(__dirname, "../parser.ts") },
+			);
+			build.onLoad({ filter: /.*/, namespace: "vocoder" }, () => ({
+				contents: "export const bundledParser = undefined;",
+			}));
+		},
+	};
+}
+
+/**
+ * Bundle an app that renders with createVocoder and formatICU, and list the
+ * source files whose code its entry chunk loads up front (static imports, not
+ * import()).
+ */
+async function eagerInputs(precompile: boolean): Promise<string[]> {
+	const result = await build({
+		stdin: {
+			contents: [
+				'import { createVocoder, formatICU } from "./src/index";',
+				"createVocoder().start();",
+				'console.log(formatICU("Hi {name}", { name: "Ana" }, "en"));',
+			].join("\n"),
+			resolveDir: resolve(__dirname, "../.."),
+		},
+		bundle: true,
+		splitting: true,
+		format: "esm",
+		platform: "browser",
+		outdir: "out",
+		write: false,
+		metafile: true,
+		minify: true,
+		define: { "process.env.NODE_ENV": '"production"' },
+		external: ["virtual:vocoder/*"],
+		plugins: [icuParserImport(precompile)],
+		logLevel: "silent",
+	});
+
+	const { outputs } = result.metafile as Metafile;
+	const entry = Object.keys(outputs).find((file) => outputs[file]!.entryPoint)!;
+	const seen = new Set<string>();
+	const inputs: string[] = [];
+	const visit = (file: string) => {
+		if (seen.has(file)) return;
+		seen.add(file);
+		for (const [input, { bytesInOutput }] of Object.entries(outputs[file]!.inputs)) {
+			if (bytesInOutput > 0) inputs.push(input);
+		}
+		for (const { path, kind, external } of outputs[file]!.imports) {
+			if (kind === "import-statement" && !external) visit(path);
+		}
+	};
+	visit(entry);
+	return inputs;
+}
+
+const fromPackage = (inputs: string[], name: string) =>
+	inputs.filter((input) => input.includes(`/node_modules/${name}/`));
+
+describe("bundle size", () => {
+	it("leaves the ICU parser out of a precompiled app's entry chunk", async () => {
+		const inputs = await eagerInputs(true);
+
+		for (const parser of PARSERS) expect(fromPackage(inputs, parser)).toEqual([]);
+	});
+
+	it("keeps the ICU parser in a default build's entry chunk", async () => {
+		const inputs = await eagerInputs(false);
+
+		expect(fromPackage(inputs, "intl-messageformat")).not.toEqual([]);
+	});
+});
@@ -0,0 +1,85 @@
+import { parse } from "@formatjs/icu-messageformat-parser";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	formatCompiledMessage,
+	getCompiledMessage,
+	registerCompiledMessages,
+} from "../utils/compiledMessage";
+import { formatICU, rewriteSelectordinalInICU } from "../utils/formatMessage";
+
+const compile = (text: string) => parse(text, { ignoreTag: true, captureLocation: false });
+
+describe("formatCompiledMessage", () => {
+	const cases: Array<[string, Record<string, unknown>, string]> = [
+		["Hello, {name}!", { name: "Ana" }, "fr"],
+		["{count, plural, =0 {No items} one {# item} other {# items}}", { count: 0 }, "en"],
+		["{count, plural, one {# article} other {# articles}}", { count: 1500 }, "fr"],
+		["{n, plural, offset:1 one {You and # other} other {You and # others}}", { n: 3 }, "en"],
+		["{rank, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}", { rank: 22 }, "en"],
+		["{gender, select, female {Elle} male {Il} other {Iel}} {verb}", { gender: "male", verb: "part" }, "fr"],
+		["{price, number, ::currency/EUR} ({share, number, percent})", { price: 12.5, share: 0.25 }, "de"],
+		["It''s {when, date, long}", { when: new Date(Date.UTC(2024, 0, 15, 12)) }, "en"],
+		["<b>{name}</b>", { name: "Ana" }, "en"],
+	];
+
+	it.each(cases)("formats %s like IntlMessageFormat", (text, values, locale) => {
+		expect(formatCompiledMessage(compile(text), values, locale)).toBe(
+			formatICU(text, values, locale),
+		);
+	});
+
+	it("throws on a missing value", () => {
+		expect(() => formatCompiledMessage(compile("Hi {name}"), {}, "en")).toThrow();
+	});
+});
+
+describe("formatICU with precompiled messages", () => {
+	it("returns plain text without formatting", () => {
+		expect(formatICU("l'application <b>", { unused: 1 }, "fr")).toBe("l'application <b>");
+	});
+
+	it("formats a registered message from its AST instead of parsing it", () => {
+		// The registered AST differs from the text, so the result shows which was used.
+		const text = "{count, plural, one {# fichier} other {# fichiers}}";
+		registerCompiledMessages({ [text]: compile("{count, plural, one {# dossier} other {# dossiers}}") });
+
+		expect(formatICU(text, { count: 2 }, "fr")).toBe("2 dossiers");
+	});
+});
+
+describe("rewriteSelectordinalInICU with precompiled messages", () => {
+	it("formats word ordinals without registering a message per rank", () => {
+		const text = "Your {year, selectordinal, other {#th}} anniversary";
+		registerCompiledMessages({ [text]: compile(text) });
+		const forms = { type: "word" as const, words: { masculine: { 1: "first", 2: "second" } } };
+
+		for (const [year, word] of [[1, "first"], [2, "second"]] as const) {
+			const printed = rewriteSelectordinalInICU(text, forms, { year });
+			expect(getCompiledMessage(printed)).toBeUndefined();
+			expect(formatICU(printed, { year }, "en")).toBe(`Your ${word} anniversary`);
+		}
+	});
+});
+
+describe("formatICU in a precompiled build", () => {
+	afterEach(() => {
+		vi.doUnmock("#icu-parser");
+		vi.resetModules();
+	});
+
+	it("loads the parser for a message the plugin didn't compile", async () => {
+		// What @vocoder/plugin's `precompile` option resolves #icu-parser to.
+		vi.doMock("#icu-parser", () => ({ bundledParser: undefined }));
+		vi.resetModules();
+		const { formatICU, onParserLoaded } = await import("../utils/formatMessage");
+		const loaded = new Promise<void>((resolve) => onParserLoaded(resolve));
+		const text = "{name} has {count, plural, one {# file} other {# files}}";
+
+		// Substitution only until the parser arrives, then the full message.
+		expect(formatICU(text, { name: "Ana", count: 2 }, "en")).toBe(
+			"Ana has {count, plural, one {# file} other {# files}}",
+		);
+		await loaded;
+		expect(formatICU(text, { name: "Ana", count: 2 }, "en")).toBe("Ana has 2 files");
+	});
+});
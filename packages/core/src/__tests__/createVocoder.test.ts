@@ -0,0 +1,208 @@
+import { describe, expect, it, vi } from "vitest";
+// The package entry, so the runtime globals scope and HMR modules call are installed.
+import { createVocoder, generateMessageHash, ordinal, t } from "../index";
+import type { VocoderHotUpdate, VocoderManifest } from "../runtime";
+
+const manifest: VocoderManifest = {
+	config: {
+		sourceLocale: "en",
+		targetLocales: ["fr"],
+		locales: {
+			en: { nativeName: "English" },
+			fr: { nativeName: "Francais" },
+		},
+	},
+	loaders: {
+		en: () => ({}),
+		fr: () => Promise.resolve({ default: { "1w2u0qz": "Bonjour" } }),
+	},
+};
+
+describe("createVocoder", () => {
+	it("loads the virtual manifest on start", async () => {
+		const vocoder = createVocoder();
+		vocoder.start();
+		await vocoder.ready;
+
+		const state = vocoder.getState();
+		expect(state.availableLocales).toEqual(["en", "es"]);
+		expect(state.locale).toBe("en");
+		expect(state.isReady).toBe(true);
+	});
+
+	it("setLocale notifies subscribers and persists the locale in the cookie", async () => {
+		const vocoder = createVocoder();
+		vocoder.start();
+		await vocoder.ready;
+
+		const listener = vi.fn();
+		const unsubscribe = vocoder.subscribe(listener);
+		await vocoder.setLocale("es-MX");
+		unsubscribe();
+
+		expect(listener).toHaveBeenCalled();
+		expect(vocoder.getState().locale).toBe("es");
+		expect(vocoder.t("Hello, {name}!", { name: "Ana" })).toBe("Hola, Ana!");
+		expect(vocoder.ordinal(1)).toBe("1.º");
+		expect(document.cookie).toContain("vocoder_locale=es");
+	});
+
+	it("applies dev-server hot updates to started instances", async () => {
+		const vocoder = createVocoder();
+		const stop = vocoder.start();
+		await vocoder.ready;
+		await vocoder.setLocale("es");
+		const built = vocoder.getState().translations.es!;
+
+		const hot = (globalThis as { __VOCODER_HMR__?: (update: VocoderHotUpdate) => void })
+			.__VOCODER_HMR__!;
+		const listener = vi.fn();
+		const unsubscribe = vocoder.subscribe(listener);
+		hot({ locale: "es", translations: { ...built, [generateMessageHash("New")]: "Nuevo" } });
+
+		expect(listener).toHaveBeenCalled();
+		expect(vocoder.t("New")).toBe("Nuevo");
+		expect(vocoder.t("Hello")).toBe("Hola");
+
+		unsubscribe();
+		hot({ locale: "es", translations: built });
+		stop();
+	});
+
+	it("merges split translation scopes into loaded locales", async () => {
+		const vocoder = createVocoder();
+		const stop = vocoder.start();
+		await vocoder.ready;
+		await vocoder.setLocale("es");
+
+		const scoped = { [generateMessageHash("Dashboard")]: "Panel" };
+		const scopes = (globalThis as { __VOCODER_SCOPES__?: unknown[] }).__VOCODER_SCOPES__!;
+		scopes.push({ id: "dashboard", loaders: { es: async () => ({ default: scoped }) } });
+
+		await vi.waitFor(() => expect(vocoder.t("Dashboard")).toBe("Panel"));
+		expect(vocoder.t("Hello")).toBe("Hola");
+		stop();
+	});
+
+	it("merges a scope whose loaders return modules as soon as it registers", async () => {
+		const vocoder = createVocoder();
+		const stop = vocoder.start();
+		await vocoder.ready;
+		await vocoder.setLocale("es");
+
+		const listener = vi.fn();
+		const unsubscribe = vocoder.subscribe(listener);
+		const scoped = { [generateMessageHash("Settings")]: "Ajustes" };
+		const scopes = (globalThis as { __VOCODER_SCOPES__?: unknown[] }).__VOCODER_SCOPES__!;
+		scopes.push({ id: "settings", loaders: { es: () => ({ default: scoped }) } });
+
+		expect(listener).toHaveBeenCalled();
+		expect(vocoder.t("Settings")).toBe("Ajustes");
+		unsubscribe();
+		stop();
+	});
+
+	it("loads a scope's strings for the active locale only, then for each locale switched to", async () => {
+		const vocoder = createVocoder();
+		const stop = vocoder.start();
+		await vocoder.ready;
+		await vocoder.setLocale("es");
+
+		const key = generateMessageHash("Profile");
+		const loaders = {
+			en: vi.fn(() => Promise.resolve({ default: { [key]: "Profile" } })),
+			es: vi.fn(() => Promise.resolve({ default: { [key]: "Perfil" } })),
+		};
+		const scopes = (globalThis as { __VOCODER_SCOPES__?: unknown[] }).__VOCODER_SCOPES__!;
+		scopes.push({ id: "profile", loaders });
+
+		await vi.waitFor(() => expect(vocoder.t("Profile")).toBe("Perfil"));
+		expect(loaders.en).not.toHaveBeenCalled();
+
+		await vocoder.setLocale("en");
+		expect(loaders.en).toHaveBeenCalledTimes(1);
+		stop();
+	});
+
+	it("returns the same state object until something changes", async () => {
+		const vocoder = createVocoder({ manifest });
+		const before = vocoder.getState();
+
+		expect(vocoder.getState()).toBe(before);
+		await vocoder.setLocale("fr");
+		expect(vocoder.getState()).not.toBe(before);
+	});
+
+	it("translates from an explicit manifest", async () => {
+		// A fresh manifest object — loaded locales are cached per manifest.
+		const vocoder = createVocoder({ manifest: { ...manifest } });
+
+		expect(vocoder.getState().translations).toEqual({ en: {} });
+		expect(vocoder.t("Hello")).toBe("Hello");
+
+		await vocoder.loadLocale("fr");
+		expect(vocoder.getState().locale).toBe("en");
+		expect(Object.keys(vocoder.getState().translations)).toEqual(["en", "fr"]);
+
+		await vocoder.setLocale("fr");
+		expect(vocoder.t("Hello")).toBe("Bonjour");
+		expect(vocoder.hasTranslation("Hello")).toBe(true);
+	});
+
+	it("exposes the keys a locale module filled from its fallback chain", async () => {
+		const vocoder = createVocoder({
+			manifest: {
+				...manifest,
+				loaders: {
+					...manifest.loaders,
+					fr: () => ({ default: { "1w2u0qz": "Bonjour" }, fallbackKeys: { "1w2u0qz": "fr-CA" } }),
+				},
+			},
+		});
+
+		expect(vocoder.getFallbackKeys("fr")).toEqual({});
+		await vocoder.setLocale("fr");
+		expect(vocoder.getFallbackKeys()).toEqual({ "1w2u0qz": "fr-CA" });
+		expect(vocoder.getFallbackKeys("en")).toEqual({});
+	});
+
+	it("backs the global t() and ordinal() exports", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		const vocoder = createVocoder();
+		vocoder.start();
+		await vocoder.ready;
+
+		expect(t("Hello, world!")).toBe("Hola, mundo!");
+		expect(ordinal(2)).toBe("2.º");
+	});
+
+	it("starts first-time visitors in their browser's preferred language", async () => {
+		const languages = vi
+			.spyOn(navigator, "languages", "get")
+			.mockReturnValue(["de-DE", "fr-CA", "en"]);
+		try {
+			const vocoder = createVocoder({ manifest: { ...manifest } });
+			vocoder.start();
+			await vocoder.ready;
+			expect(vocoder.getState().locale).toBe("fr");
+			expect(vocoder.t("Hello")).toBe("Bonjour");
+
+			document.cookie = "vocoder_locale=en; Path=/";
+			expect(createVocoder({ manifest }).getState().locale).toBe("en");
+		} finally {
+			languages.mockRestore();
+		}
+	});
+
+	it("keeps the source locale when detectLocale is false", async () => {
+		const languages = vi.spyOn(navigator, "languages", "get").mockReturnValue(["fr"]);
+		try {
+			const vocoder = createVocoder({ manifest, detectLocale: false });
+			vocoder.start();
+			await vocoder.ready;
+			expect(vocoder.getState().locale).toBe("en");
+		} finally {
+			languages.mockRestore();
+		}
+	});
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { generateMessageHash } from "../hash";
+
+describe("generateMessageHash", () => {
+	it("keeps the 7-character fnv1a keys by default", () => {
+		expect(generateMessageHash("Hello")).toBe("1w2u0qz");
+		expect(generateMessageHash("Hello", undefined, { algorithm: "fnv1a", keyLength: 7 })).toBe(
+			"1w2u0qz",
+		);
+		expect(generateMessageHash("Save", "verb")).not.toBe(generateMessageHash("Save"));
+	});
+
+	it("computes 64-bit FNV-1a for fnv1a-64", () => {
+		// FNV-1a 64 of "a" is 0xaf63dc4c8601ec8c
+		expect(generateMessageHash("a", undefined, { algorithm: "fnv1a-64", keyLength: 13 })).toBe(
+			"2o0ongoiv4rrg",
+		);
+	});
+
+	it("trims keys to keyLength, capped at the algorithm's maximum", () => {
+		const full = generateMessageHash("Hello", undefined, { algorithm: "fnv1a-64", keyLength: 13 });
+		expect(generateMessageHash("Hello", undefined, { algorithm: "fnv1a-64", keyLength: 10 })).toBe(
+			full.slice(-10),
+		);
+		expect(generateMessageHash("Hello", undefined, { algorithm: "fnv1a-64", keyLength: 20 })).toBe(
+			full,
+		);
+		expect(generateMessageHash("Hello", undefined, { keyLength: 12 })).toBe("1w2u0qz");
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { getBestMatchingLocale } from "../utils/localeMatch";
+import { localizePath, stripLocaleFromPath } from "../utils/localePath";
+import { negotiateLocale, parseAcceptLanguage } from "../utils/negotiate";
+
+describe("parseAcceptLanguage", () => {
+	it("orders tags by q-weight, keeping header order for ties", () => {
+		expect(parseAcceptLanguage("en;q=0.5, fr-CH, de;q=0.9, fr")).toEqual([
+			"fr-CH",
+			"fr",
+			"de",
+			"en",
+		]);
+	});
+
+	it("drops q=0 and the wildcard", () => {
+		expect(parseAcceptLanguage("es, *;q=0.5, pt;q=0")).toEqual(["es"]);
+		expect(parseAcceptLanguage(undefined)).toEqual([]);
+	});
+});
+
+describe("getBestMatchingLocale", () => {
+	it("matches exactly, ignoring case and underscores", () => {
+		expect(getBestMatchingLocale("pt-br", ["pt-PT", "pt-BR"], "en")).toBe("pt-BR");
+		expect(getBestMatchingLocale("zh_Hant", ["zh-Hant", "zh-Hans"], "en")).toBe("zh-Hant");
+	});
+
+	it("never crosses scripts", () => {
+		expect(getBestMatchingLocale("zh-TW", ["en", "zh-CN"], "en")).toBe("en");
+		expect(getBestMatchingLocale("zh-TW", ["zh-Hans", "zh-Hant"], "en")).toBe("zh-Hant");
+		expect(getBestMatchingLocale("sr-Latn", ["sr-Cyrl", "sr-Latn-RS"], "en")).toBe("sr-Latn-RS");
+		expect(getBestMatchingLocale("sr-Latn", ["sr"], "en")).toBe("en");
+	});
+
+	it("prefers the same region, then a region-neutral tag, then another region", () => {
+		expect(getBestMatchingLocale("en-US", ["en-GB", "en"], "fr")).toBe("en");
+		expect(getBestMatchingLocale("pt-PT", ["pt-BR", "pt"], "en")).toBe("pt");
+		expect(getBestMatchingLocale("pt-AO", ["es", "pt-BR"], "en")).toBe("pt-BR");
+		expect(getBestMatchingLocale("es-MX", ["en", "es"], "en")).toBe("es");
+	});
+
+	it("tries the configured fallback chain before the closest match", () => {
+		const fallbacks = { "pt-BR": ["pt-PT", "pt"] };
+
+		expect(getBestMatchingLocale("pt-BR", ["pt", "pt-PT"], "en", fallbacks)).toBe("pt-PT");
+		expect(getBestMatchingLocale("pt-BR", ["pt", "es"], "en", fallbacks)).toBe("pt");
+		expect(getBestMatchingLocale("pt-BR", ["en", "es"], "en", fallbacks)).toBe("en");
+	});
+
+	it("falls back on malformed tags", () => {
+		expect(getBestMatchingLocale("not a locale", ["en", "fr"], "en")).toBe("en");
+		expect(getBestMatchingLocale("", ["en", "fr"], "en")).toBe("en");
+	});
+});
+
+describe("negotiateLocale", () => {
+	it("returns the first preference with a supported match", () => {
+		expect(negotiateLocale(["de-DE", "es-MX", "en"], ["en", "es"], "en")).toBe("es");
+		expect(negotiateLocale(["ja"], ["en", "es"], "en")).toBe("en");
+	});
+});
+
+describe("locale paths", () => {
+	it("replaces, adds and strips the locale prefix", () => {
+		const locales = ["en", "fr"];
+
+		expect(localizePath("/en/pricing", "fr", locales)).toBe("/fr/pricing");
+		expect(localizePath("/", "fr", locales)).toBe("/fr");
+		expect(stripLocaleFromPath("/fr", locales)).toBe("/");
+		expect(stripLocaleFromPath("/french-fries", locales)).toBe("/french-fries");
+	});
+});
@@ -0,0 +1,85 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { createVocoder } from "../createVocoder";
+import { createTranslator, runWithLocale } from "../server";
+import { ordinal, t } from "../translate";
+import type { VocoderManifest } from "../runtime";
+
+const manifest: VocoderManifest = {
+	config: {
+		sourceLocale: "en",
+		targetLocales: ["de", "fr"],
+		locales: {
+			en: { nativeName: "English" },
+			de: { nativeName: "Deutsch", ordinalForms: { type: "suffix", suffixes: { other: "#." } } },
+			fr: { nativeName: "Francais", ordinalForms: { type: "suffix", suffixes: { one: "#er", other: "#e" } } },
+		},
+	},
+	loaders: {
+		en: () => ({}),
+		de: () => ({ default: { "1w2u0qz": "Hallo", "0yvn7bx": "Hallo, {name}!" } }),
+		fr: () => ({ default: { "1w2u0qz": "Bonjour", "0yvn7bx": "Bonjour, {name}!" } }),
+	},
+};
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe("createTranslator", () => {
+	it("resolves the best matching locale and loads it synchronously", () => {
+		const translator = createTranslator("fr-CA", { manifest });
+
+		expect(translator.locale).toBe("fr");
+		expect(translator.t("Hello, {name}!", { name: "Ana" })).toBe("Bonjour, Ana!");
+		expect(translator.ordinal(1)).toBe("1er");
+	});
+
+	it("returns source text when the locale has no translation", () => {
+		expect(createTranslator("en", { manifest }).t("Hello")).toBe("Hello");
+	});
+});
+
+describe("runWithLocale", () => {
+	it("scopes the global t() and ordinal() to each concurrent request", async () => {
+		const handle = (locale: string) =>
+			runWithLocale(
+				locale,
+				async () => {
+					await tick();
+					const greeting = t("Hello");
+					await tick();
+					return `${greeting} ${ordinal(2)}`;
+				},
+				{ manifest },
+			);
+
+		const results = await Promise.all([handle("fr"), handle("de"), handle("fr")]);
+
+		expect(results).toEqual(["Bonjour 2e", "Hallo 2.", "Bonjour 2e"]);
+	});
+
+	it("leaves t() on the global state outside a request", () => {
+		runWithLocale("de", () => t("Hello"), { manifest });
+
+		expect(t("Hello")).toBe("Hello");
+	});
+});
+
+describe("createVocoder on the server", () => {
+	it("negotiates first visits from the Accept-Language header", () => {
+		const vocoder = createVocoder({ manifest, acceptLanguage: "it, de-AT;q=0.9, fr;q=0.8" });
+
+		expect(vocoder.getState().locale).toBe("de");
+		expect(vocoder.t("Hello")).toBe("Hallo");
+		expect(vocoder.hydrationScript).toContain('"locale":"de"');
+	});
+
+	it("prefers the locale cookie, and ignores the header when detectLocale is false", () => {
+		expect(
+			createVocoder({ manifest, cookies: "vocoder_locale=fr", acceptLanguage: "de" }).getState()
+				.locale,
+		).toBe("fr");
+		expect(
+			createVocoder({ manifest, acceptLanguage: "de", detectLocale: false }).getState().locale,
+		).toBe("en");
+	});
+});
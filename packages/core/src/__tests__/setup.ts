@@ -0,0 +1,7 @@
+import { beforeEach } from "vitest";
+
+beforeEach(() => {
+	// Server tests run in the node environment
+	if (typeof document === "undefined") return;
+	document.cookie = "vocoder_locale=; Path=/; Max-Age=0";
+});
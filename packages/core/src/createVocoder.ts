@@ -0,0 +1,420 @@
+import { checkForUpdates, isRefreshAvailable } from "./api-runtime";
+import { generateMessageHash } from "./hash";
+import {
+	buildHydrationOnServer,
+	HYDRATION_ID,
+	readHydrationFromDom,
+	STORAGE_KEY,
+} from "./hydration";
+import { resolveMessage } from "./messages";
+import { isVocoderEnabled, PREVIEW_MODE, syncPreviewQueryParam } from "./preview";
+import { getManifestRuntime } from "./runtime";
+import {
+	_setGlobalLocale,
+	_setGlobalLocales,
+	_setGlobalTranslations,
+	_setSourceLocale,
+} from "./translate";
+import type {
+	LocalesMap,
+	TranslationsMap,
+	Vocoder,
+	VocoderOptions,
+	VocoderState,
+} from "./types";
+import { getCookie, setCookie } from "./utils/cookies";
+import { formatICU, onParserLoaded } from "./utils/formatMessage";
+import { getBestMatchingLocale } from "./utils/localeMatch";
+import { getLocaleFromPath, localizePath } from "./utils/localePath";
+import {
+	getBrowserLanguages,
+	negotiateLocale,
+	parseAcceptLanguage,
+} from "./utils/negotiate";
+import { formatOrdinal } from "./utils/ordinal";
+
+type CoreState = Pick<
+	VocoderState,
+	"locale" | "defaultLocale" | "locales" | "translations"
+> & { isInitialized: boolean };
+
+/**
+ * Create a Vocoder instance — the framework-agnostic engine behind every
+ * binding (@vocoder/react, @vocoder/vue, @vocoder/svelte). Holds the locale
+ * and its translations, and notifies subscribers whenever either changes.
+ *
+ * On the server, create one instance per request and pass the request
+ * cookies so SSR renders the visitor's locale. On the client, call `start()`
+ * once to load the manifest and the preferred locale.
+ *
+ * @example
+ * ```ts
+ * import { createVocoder } from '@vocoder/core';
+ *
+ * const vocoder = createVocoder();
+ * vocoder.subscribe(() => {
+ *   heading.textContent = vocoder.t('Welcome back, {name}!', { name });
+ * });
+ * vocoder.start();
+ * ```
+ */
+export function createVocoder(options: VocoderOptions = {}): Vocoder {
+	const {
+		cookies: cookieString,
+		applyDir = true,
+		localeFromPath = false,
+		detectLocale = true,
+	} = options;
+	const acceptLanguage = detectLocale ? options.acceptLanguage : undefined;
+	const runtime = getManifestRuntime(options.manifest);
+	const enabled = isVocoderEnabled(cookieString);
+	const isClient = typeof window !== "undefined";
+
+	// ── Hydration (computed once, never changes) ─────────────────────
+	// A snapshot passed in (e.g. from VocoderProviderServer) travels with the
+	// props, so there is nothing to embed or read back.
+	const hydration =
+		!enabled || options.snapshot
+			? null
+			: isClient
+				? readHydrationFromDom()
+				: buildHydrationOnServer(cookieString, runtime, acceptLanguage);
+	const hydrationData = enabled ? (options.snapshot ?? hydration?.data) : undefined;
+
+	// The visitor's explicit choice: the path prefix (localeFromPath), else the cookie.
+	function getStoredPreference(available: string[]): string | null {
+		if (localeFromPath && isClient) {
+			const fromPath = getLocaleFromPath(window.location.pathname, available);
+			if (fromPath) return fromPath;
+		}
+		return getCookie(STORAGE_KEY, cookieString);
+	}
+
+	// Explicit choice → browser preference → null (the caller falls back to the source locale).
+	function getPreferredLocale(available: string[]): string | null {
+		const stored = getStoredPreference(available);
+		if (stored || !detectLocale) return stored;
+
+		const languages = isClient ? getBrowserLanguages() : parseAcceptLanguage(acceptLanguage);
+		return negotiateLocale(languages, available, "", runtime.getConfig().fallbacks) || null;
+	}
+
+	// ── Initial state ────────────────────────────────────────────────
+	let core: CoreState;
+
+	if (hydrationData?.locale) {
+		core = {
+			locale: hydrationData.locale,
+			defaultLocale: hydrationData.defaultLocale,
+			locales: hydrationData.locales,
+			translations: { [hydrationData.locale]: hydrationData.translations },
+			isInitialized: false,
+		};
+	} else {
+		const defaultLocale =
+			runtime.getConfig().sourceLocale || options.defaultLocale || "en";
+		const locales: LocalesMap = runtime.getConfig().locales ?? {};
+		const translations: TranslationsMap = { ...runtime.getTranslations() };
+		const available = listAvailableLocales(locales, translations);
+		const locale =
+			available.length > 0
+				? getBestMatchingLocale(
+						getPreferredLocale(available) || defaultLocale,
+						available,
+						defaultLocale,
+						runtime.getConfig().fallbacks,
+					)
+				: defaultLocale;
+
+		if (!translations[locale]) {
+			const loaded = runtime.loadLocaleSync(locale);
+			if (loaded) translations[locale] = loaded;
+		}
+
+		core = { locale, defaultLocale, locales, translations, isInitialized: false };
+	}
+
+	let state = snapshot(core);
+	const listeners = new Set<() => void>();
+	syncGlobals();
+
+	function snapshot(next: CoreState): VocoderState {
+		return {
+			locale: next.locale,
+			defaultLocale: next.defaultLocale,
+			locales: next.locales,
+			translations: next.translations,
+			availableLocales: listAvailableLocales(next.locales, next.translations),
+			isReady:
+				Boolean(next.translations[next.locale]) &&
+				(next.isInitialized || Boolean(hydrationData)),
+			dir: (next.locales[next.locale]?.dir ?? "ltr") as "ltr" | "rtl",
+		};
+	}
+
+	// Keep the standalone t() / ordinal() exports reading this instance.
+	function syncGlobals(): void {
+		_setGlobalTranslations(core.translations);
+		_setGlobalLocale(core.locale);
+		_setGlobalLocales(core.locales);
+		_setSourceLocale(core.defaultLocale);
+	}
+
+	function update(patch: Partial<CoreState>): void {
+		core = { ...core, ...patch };
+		state = snapshot(core);
+		syncGlobals();
+		for (const listener of listeners) listener();
+	}
+
+	function addTranslations(locale: string, translations: Record<string, string>): void {
+		update({ translations: { ...core.translations, [locale]: translations } });
+	}
+
+	// ── Methods ──────────────────────────────────────────────────────
+	const getState: Vocoder["getState"] = () => state;
+
+	const subscribe: Vocoder["subscribe"] = (listener) => {
+		listeners.add(listener);
+		return () => {
+			listeners.delete(listener);
+		};
+	};
+
+	// t — options.id skips hash computation (used by <T> which has a pre-computed hash).
+	// msg() descriptors carry theirs.
+	const t: Vocoder["t"] = (message, values, tOptions) => {
+		const { text, hash } = resolveMessage(message, tOptions);
+		const translated = core.translations[core.locale]?.[hash] ?? text;
+		if (values && Object.keys(values).length > 0) {
+			return formatICU(translated, values, core.locale);
+		}
+		return translated;
+	};
+
+	const ordinal: Vocoder["ordinal"] = (value, gender) =>
+		formatOrdinal(value, core.locale, core.locales[core.locale]?.ordinalForms, gender);
+
+	// hasTranslation(key) — key is always a hash.
+	// For user-facing callers passing source text, compute hash first.
+	const hasTranslation: Vocoder["hasTranslation"] = (key) => {
+		const map = core.translations[core.locale];
+		if (!map) return false;
+		// Direct lookup (hash from T component) — fast path
+		if (Object.hasOwn(map, key)) return true;
+		// Source text from user code — compute hash and retry
+		return Object.hasOwn(map, generateMessageHash(key));
+	};
+
+	const getFallbackKeys: Vocoder["getFallbackKeys"] = (locale = core.locale) =>
+		runtime.getFallbackKeys(locale);
+
+	const getDisplayName: Vocoder["getDisplayName"] = (targetLocale, viewingLocale) => {
+		try {
+			const dn = new Intl.DisplayNames([viewingLocale ?? core.locale], {
+				type: "language",
+			});
+			return dn.of(targetLocale) ?? targetLocale;
+		} catch {
+			return targetLocale;
+		}
+	};
+
+	const loadLocale: Vocoder["loadLocale"] = async (locale) => {
+		// A runtime locale goes through the runtime again: it makes the locale the
+		// one split scopes load for and loads scopes registered since.
+		const loaded = runtime.getTranslations()[locale];
+		if (core.translations[locale] && !loaded) return;
+		const translations = await runtime.loadLocale(locale);
+		// Unchanged (no new scopes) — skip the extra render.
+		if (core.translations[locale] && translations === loaded) return;
+		addTranslations(locale, { ...core.translations[locale], ...translations });
+	};
+
+	const setLocale: Vocoder["setLocale"] = async (newLocale) => {
+		const best = getBestMatchingLocale(
+			newLocale,
+			state.availableLocales,
+			core.defaultLocale,
+			runtime.getConfig().fallbacks,
+		);
+
+		const persist = () =>
+			setCookie(STORAGE_KEY, best, {
+				maxAge: 365 * 24 * 60 * 60,
+				path: "/",
+				sameSite: "Lax",
+			});
+
+		// The URL owns the locale — navigate; the next page renders in it.
+		if (localeFromPath && isClient) {
+			persist();
+			const { pathname, search, hash } = window.location;
+			window.location.assign(
+				`${localizePath(pathname, best, state.availableLocales)}${search}${hash}`,
+			);
+			return;
+		}
+
+		try {
+			await loadLocale(best);
+		} catch (error) {
+			console.error(`Failed to load locale ${best}:`, error);
+		}
+
+		update({ locale: best });
+		persist();
+	};
+
+	// ── Async initialization (client-side) ───────────────────────────
+	async function initialize(): Promise<void> {
+		await runtime.initialize();
+
+		const cfg = runtime.getConfig();
+		const genTranslations = runtime.getTranslations();
+		const genLocales = cfg.locales ?? {};
+		const patch: Partial<CoreState> = {};
+
+		if (Object.keys(genTranslations).length > 0) {
+			patch.translations = { ...genTranslations, ...core.translations };
+		}
+		if (Object.keys(genLocales).length > 0) {
+			patch.locales = genLocales;
+		}
+		if (cfg.sourceLocale) {
+			patch.defaultLocale = cfg.sourceLocale;
+		}
+
+		const available = listAvailableLocales(
+			patch.locales ?? core.locales,
+			patch.translations ?? core.translations,
+		);
+
+		if (available.length > 0) {
+			const fallback = cfg.sourceLocale || available[0] || "en";
+			const bestLocale = getBestMatchingLocale(
+				getPreferredLocale(available) || fallback,
+				available,
+				fallback,
+				cfg.fallbacks,
+			);
+			const translations = patch.translations ?? core.translations;
+			if (!translations[bestLocale]) {
+				patch.translations = {
+					...translations,
+					[bestLocale]: await runtime.loadLocale(bestLocale),
+				};
+			}
+			patch.locale = bestLocale;
+		}
+
+		update({ ...patch, isInitialized: true });
+	}
+
+	let readyPromise: Promise<void> = Promise.resolve();
+	let started = false;
+
+	const start: Vocoder["start"] = () => {
+		if (!enabled || !isClient) return () => {};
+
+		// Sync ?vocoder=true|false query param to cookie then redirect
+		if (PREVIEW_MODE) syncPreviewQueryParam();
+
+		if (!started) {
+			started = true;
+			readyPromise = initialize();
+		}
+
+		const cleanups: Array<() => void> = [];
+
+		// Apply dir/lang to document.documentElement (opt-in)
+		if (applyDir && typeof document !== "undefined") {
+			const applyToDocument = () => {
+				document.documentElement.dir = state.dir;
+				document.documentElement.lang = state.locale;
+			};
+			applyToDocument();
+			cleanups.push(subscribe(applyToDocument));
+		}
+
+		// Dev server HMR — translations for new strings arrive without a reload.
+		if (runtime.onUpdate) {
+			cleanups.push(
+				runtime.onUpdate(() => {
+					const cfg = runtime.getConfig();
+					update({
+						translations: { ...core.translations, ...runtime.getTranslations() },
+						...(Object.keys(cfg.locales ?? {}).length > 0 ? { locales: cfg.locales } : {}),
+					});
+				}),
+			);
+		}
+
+		// Precompiled builds — messages that rendered before the lazily loaded
+		// ICU parser arrived re-render formatted.
+		cleanups.push(onParserLoaded(() => update({})));
+
+		// Background refresh — only when the current locale has no
+		// translations from the build (CDN is a fallback for build-time misses).
+		if (isRefreshAvailable) {
+			let checked = "";
+			let cancelPending = () => {};
+			const refresh = () => {
+				const { locale, isInitialized } = core;
+				const key = `${locale}|${isInitialized}`;
+				if (key === checked) return;
+				checked = key;
+
+				cancelPending();
+				if (!isInitialized || !locale) return;
+				const built = core.translations[locale];
+				if (built && Object.keys(built).length > 0) return;
+
+				let cancelled = false;
+				cancelPending = () => {
+					cancelled = true;
+				};
+				checkForUpdates(locale).then((updated) => {
+					if (cancelled || !updated) return;
+					addTranslations(locale, updated);
+				});
+			};
+			refresh();
+			cleanups.push(subscribe(refresh), () => cancelPending());
+		}
+
+		return () => {
+			for (const cleanup of cleanups) cleanup();
+		};
+	};
+
+	return {
+		getState,
+		subscribe,
+		t,
+		ordinal,
+		hasTranslation,
+		getFallbackKeys,
+		getDisplayName,
+		setLocale,
+		loadLocale,
+		get ready() {
+			return readyPromise;
+		},
+		start,
+		hydration,
+		hydrationScript:
+			isClient || !hydration
+				? ""
+				: `<script id="${HYDRATION_ID}" type="application/json">${hydration.raw}</script>`,
+	};
+}
+
+function listAvailableLocales(
+	locales: LocalesMap,
+	translations: TranslationsMap,
+): string[] {
+	return Object.keys(locales).length > 0
+		? Object.keys(locales)
+		: Object.keys(translations);
+}
@@ -0,0 +1,129 @@
+/**
+ * SSR hydration snapshot — the locale, its translations and the locales map
+ * serialized into a `<script id="__vocoder_hydration__">` tag on the server and
+ * read back on the client so the first client render matches the server HTML.
+ *
+ * Built by createVocoder() and rendered by every framework binding.
+ */
+
+import type { LocalesMap } from "./types";
+import { getCookie } from "./utils/cookies";
+import { getBestMatchingLocale } from "./utils/localeMatch";
+import { negotiateLocale, parseAcceptLanguage } from "./utils/negotiate";
+import { virtualManifestRuntime } from "./runtime";
+import type { ManifestRuntime, VocoderConfig } from "./runtime";
+
+export const STORAGE_KEY = "vocoder_locale";
+export const HYDRATION_ID = "__vocoder_hydration__";
+
+export type HydrationSnapshot = {
+	locale: string;
+	translations: Record<string, string>;
+	locales: LocalesMap;
+	defaultLocale: string;
+};
+
+function escapeJsonForHtml(value: string): string {
+	return value.replace(/</g, "\\u003c");
+}
+
+export function readHydrationFromDom(): {
+	raw: string;
+	data: HydrationSnapshot;
+} | null {
+	if (typeof document === "undefined") return null;
+	const el = document.getElementById(HYDRATION_ID);
+	const raw = el?.textContent || "";
+	if (!raw) return null;
+	try {
+		const data = JSON.parse(raw) as HydrationSnapshot;
+		if (!data || !data.locale || !data.translations) return null;
+		return { raw, data };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * The locale a server request renders: the cookie's choice, else the best
+ * Accept-Language match, else the source locale.
+ */
+function resolveServerLocale(
+	cookieString: string | undefined,
+	config: VocoderConfig,
+	acceptLanguage?: string,
+): { locale: string; fallback: string } {
+	const availableLocales = Object.keys(config.locales ?? {});
+	const fallback = config.sourceLocale || availableLocales[0] || "en";
+
+	const storedPreference = getCookie(STORAGE_KEY, cookieString);
+	const locale = storedPreference
+		? availableLocales.length > 0
+			? getBestMatchingLocale(storedPreference, availableLocales, fallback, config.fallbacks)
+			: storedPreference
+		: availableLocales.length > 0
+			? negotiateLocale(
+					parseAcceptLanguage(acceptLanguage),
+					availableLocales,
+					fallback,
+					config.fallbacks,
+				)
+			: fallback;
+
+	return { locale, fallback };
+}
+
+export function buildHydrationOnServer(
+	cookieString: string | undefined,
+	runtime: ManifestRuntime = virtualManifestRuntime,
+	acceptLanguage?: string,
+): { raw: string; data: HydrationSnapshot } | null {
+	if (typeof window !== "undefined") return null;
+
+	const config = runtime.getConfig();
+	const { locale: bestLocale, fallback } = resolveServerLocale(
+		cookieString,
+		config,
+		acceptLanguage,
+	);
+
+	const generated = runtime.getTranslations();
+	let translations = generated[bestLocale];
+	if (!translations) {
+		const loaded = runtime.loadLocaleSync(bestLocale);
+		if (loaded) translations = loaded;
+	}
+
+	const data: HydrationSnapshot = {
+		locale: bestLocale,
+		translations: translations || {},
+		locales: config.locales ?? {},
+		defaultLocale: fallback,
+	};
+
+	const raw = escapeJsonForHtml(JSON.stringify(data));
+	return { raw, data };
+}
+
+/**
+ * Async counterpart of buildHydrationOnServer for ESM servers (React Server
+ * Components, SvelteKit) where the manifest and locale loaders can't run
+ * synchronously. Pass the result to createVocoder's `snapshot` option.
+ */
+export async function loadHydrationSnapshot(
+	cookieString: string | undefined,
+	runtime: ManifestRuntime = virtualManifestRuntime,
+	acceptLanguage?: string,
+): Promise<HydrationSnapshot> {
+	await runtime.initialize();
+
+	const config = runtime.getConfig();
+	const { locale, fallback } = resolveServerLocale(cookieString, config, acceptLanguage);
+
+	return {
+		locale,
+		translations: await runtime.loadLocale(locale),
+		locales: config.locales ?? {},
+		defaultLocale: fallback,
+	};
+}
@@ -0,0 +1,76 @@
+// Framework-agnostic runtime (no UI framework imports).
+// createVocoder() is the engine every binding wraps; the lower-level helpers
+// are exported so bindings hash keys and format messages identically.
+
+import { installRuntimeGlobals } from "./runtime";
+
+// The package's one import-time side effect (package.json sideEffects).
+installRuntimeGlobals();
+
+export { createVocoder } from "./createVocoder";
+export { generateMessageHash } from "./hash";
+export type { HashAlgorithm, MessageHashOptions } from "./hash";
+export {
+	buildHydrationOnServer,
+	HYDRATION_ID,
+	loadHydrationSnapshot,
+	readHydrationFromDom,
+	STORAGE_KEY,
+} from "./hydration";
+export type { HydrationSnapshot } from "./hydration";
+export { checkForUpdates, isRefreshAvailable } from "./api-runtime";
+export { defineMessages, isMessageDescriptor, msg } from "./messages";
+export {
+	isPreviewEnabled,
+	isVocoderEnabled,
+	PREVIEW_MODE,
+	syncPreviewQueryParam,
+} from "./preview";
+export {
+	getConfig,
+	getFallbackKeys,
+	getLocales,
+	getTranslations,
+	initializeVocoder,
+	loadLocale,
+	loadLocaleSync,
+} from "./runtime";
+export type { VocoderConfig, VocoderManifest } from "./runtime";
+export { ordinal, t } from "./translate";
+export { createTranslator } from "./translator";
+export { getCookie, setCookie } from "./utils/cookies";
+export { formatICU, rewriteSelectordinalInICU } from "./utils/formatMessage";
+export { formatValue } from "./utils/formatValue";
+export { getBestMatchingLocale } from "./utils/localeMatch";
+export {
+	getLocaleFromPath,
+	localizePath,
+	stripLocaleFromPath,
+} from "./utils/localePath";
+export {
+	buildPluralICU,
+	buildSelectICU,
+	classifyProp,
+	DEFAULT_ORDINAL_ICU,
+} from "./utils/messageProps";
+export {
+	getBrowserLanguages,
+	negotiateLocale,
+	parseAcceptLanguage,
+} from "./utils/negotiate";
+export { formatOrdinal } from "./utils/ordinal";
+export type {
+	FormatMode,
+	LocaleFallbacks,
+	LocaleInfo,
+	LocalesMap,
+	MessageDescriptor,
+	OrdinalForms,
+	OrdinalSuffixes,
+	TOptions,
+	TranslationsMap,
+	Translator,
+	Vocoder,
+	VocoderOptions,
+	VocoderState,
+} from "./types";
@@ -0,0 +1,105 @@
+import { generateMessageHash } from "./hash";
+import type { MessageDescriptor, TOptions } from "./types";
+
+type MessageOptions = Pick<TOptions, "context" | "id" | "note" | "maxLength">;
+
+/**
+ * Declare a message without translating it. Returns a descriptor (source text
+ * plus its precomputed key) that `t()` and `<T message>` translate at render
+ * time — for strings defined at module scope, before translations are loaded.
+ *
+ * @example
+ * ```ts
+ * import { msg, t } from '@vocoder/react';
+ *
+ * const STATUS_LABELS = {
+ *   active: msg('Active'),
+ *   archived: msg('Archived', { context: 'project status' }),
+ * };
+ *
+ * // later, in a component or handler:
+ * t(STATUS_LABELS[project.status]);
+ * ```
+ */
+export function msg(message: string, options: MessageOptions = {}): MessageDescriptor {
+	const { context, id } = options;
+	return {
+		id: id ?? generateMessageHash(message, context),
+		message,
+		...(context ? { context } : {}),
+	};
+}
+
+/**
+ * Declare a group of messages at once — `msg()` for each entry. Entries are
+ * source text or `{ message, context?, id? }`.
+ *
+ * @example
+ * ```ts
+ * const labels = defineMessages({
+ *   save: 'Save',
+ *   close: { message: 'Close', context: 'dialog' },
+ * });
+ *
+ * <T message={labels.save} />
+ * ```
+ */
+export function defineMessages<K extends string>(
+	messages: Record<K, string | ({ message: string } & MessageOptions)>,
+): Record<K, MessageDescriptor> {
+	const descriptors = {} as Record<K, MessageDescriptor>;
+	for (const key of Object.keys(messages) as K[]) {
+		const entry = messages[key];
+		descriptors[key] =
+			typeof entry === "string" ? msg(entry) : msg(entry.message, entry);
+	}
+	return descriptors;
+}
+
+export function isMessageDescriptor(value: unknown): value is MessageDescriptor {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		typeof (value as MessageDescriptor).id === "string" &&
+		typeof (value as MessageDescriptor).message === "string"
+	);
+}
+
+/**
+ * Normalise the first argument of a t() implementation: source text and its
+ * lookup key, whether it was given as text plus options or as a descriptor.
+ * @internal
+ */
+export function resolveMessage(
+	message: string | MessageDescriptor,
+	options?: TOptions,
+): { text: string; hash: string } {
+	if (typeof message === "string") {
+		return { text: message, hash: options?.id ?? generateMessageHash(message, options?.context) };
+	}
+	return { text: message.message, hash: options?.id ?? message.id };
+}
+
+export function isTemplateStringsArray(value: unknown): value is TemplateStringsArray {
+	return Array.isArray(value) && "raw" in value;
+}
+
+/**
+ * The message of a tagged t`…` that reached the runtime as a tag call. The
+ * build plugin rewrites t`Hello ${name}` to t("Hello {name}", { name }) — the
+ * names only exist in source — so here every expression is positional:
+ * `Hello {0}` with `{ 0: name }`.
+ * @internal
+ */
+export function templateMessage(
+	strings: TemplateStringsArray,
+	expressions: unknown[],
+): { text: string; values: Record<string, unknown> } {
+	let text = strings[0] ?? "";
+	const values: Record<string, unknown> = {};
+	for (let i = 0; i < expressions.length; i++) {
+		values[i] = expressions[i];
+		text += `{${i}}${strings[i + 1] ?? ""}`;
+	}
+	return { text: text.trim(), values };
+}
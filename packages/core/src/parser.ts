@@ -0,0 +1,8 @@
+// Entry behind the package-private `#icu-parser` import (package.json
+// "imports"): formatICU's IntlMessageFormat path, loaded with the package.
+// @vocoder/plugin's `precompile` option resolves `#icu-parser` to a module
+// exporting undefined instead, so precompiled builds import ./utils/icuParser
+// on demand only.
+import * as icuParser from "./utils/icuParser";
+
+export const bundledParser: typeof icuParser | undefined = icuParser;
@@ -0,0 +1,488 @@
+/**
+ * Runtime loading for translation manifest and locale modules.
+ *
+ * Translations are injected as virtual modules by @vocoder/plugin at build
+ * time.  The plugin creates `virtual:vocoder/manifest` (config + per-locale
+ * dynamic-import loaders) and `virtual:vocoder/translations/<locale>` modules
+ * which the bundler code-splits automatically.  With the plugin's
+ * `splitTranslations` option, each source module also imports a
+ * `virtual:vocoder/scope/<id>` module whose per-locale dictionaries load
+ * alongside that module's chunk and merge into the loaded locale.
+ *
+ * If the unplugin is not installed the SDK starts with empty translations and
+ * falls back to rendering source text.
+ */
+
+import type { LocaleFallbacks, LocalesMap, TranslationsMap } from "./types";
+import { registerCompiledMessages } from "./utils/compiledMessage";
+import type { CompiledMessage } from "./utils/compiledMessage";
+import { getBestMatchingLocale } from "./utils/localeMatch";
+import { getBrowserLanguages, negotiateLocale } from "./utils/negotiate";
+
+export interface VocoderConfig {
+	sourceLocale: string;
+	targetLocales: string[];
+	locales: LocalesMap;
+	/** Ordered fallback locales per locale, used when matching a preferred locale. */
+	fallbacks?: LocaleFallbacks;
+}
+
+export interface VocoderManifest {
+	config: VocoderConfig;
+	loaders: Record<string, () => any>;
+}
+
+const emptyConfig: VocoderConfig = {
+	sourceLocale: "",
+	targetLocales: [],
+	locales: {},
+};
+
+let _config: VocoderConfig = emptyConfig;
+const _loadedTranslations: TranslationsMap = {};
+const _fallbackKeys: Record<string, Record<string, string>> = {};
+let _loaders: Record<string, () => any> = {};
+let _manifestLoaded = false;
+
+// Locale modules list the keys the plugin filled from a fallback locale and,
+// with its `precompile` option, the parsed ICU of their messages.
+function recordFallbackKeys(locale: string, mod: any): void {
+	if (mod?.default && mod.fallbackKeys) _fallbackKeys[locale] = mod.fallbackKeys;
+	if (mod?.default) registerCompiledMessages(mod.compiled);
+}
+
+function applyManifest(mod: any): void {
+	const manifest = (mod?.default ?? mod) as VocoderManifest;
+	if (manifest?.config) _config = manifest.config;
+	if (manifest?.loaders) _loaders = manifest.loaders;
+	_manifestLoaded = true;
+}
+
+// Server: load manifest synchronously at module init via CJS require.
+try {
+	if (typeof window === "undefined" && typeof require !== "undefined") {
+		applyManifest(require("virtual:vocoder/manifest"));
+	}
+} catch {
+	// Unplugin not installed — translations will be empty until loaded.
+}
+
+// Client: load manifest asynchronously via ESM import.
+let _manifestLoadPromise: Promise<void> | null = null;
+
+async function loadManifest(): Promise<void> {
+	if (_manifestLoaded) return;
+	if (_manifestLoadPromise) return _manifestLoadPromise;
+
+	_manifestLoadPromise = import("virtual:vocoder/manifest")
+		.then(applyManifest)
+		.catch(() => {})
+		.finally(() => {
+			_manifestLoadPromise = null;
+		});
+
+	return _manifestLoadPromise;
+}
+
+// Dev server: @vocoder/plugin's virtual modules accept HMR and, when re-run
+// with new translations (source strings changed and were synced), pass them
+// here. Instances subscribed through virtualManifestRuntime.onUpdate re-render.
+export interface VocoderHotUpdate {
+	manifest?: VocoderManifest;
+	locale?: string;
+	translations?: Record<string, string>;
+	fallbackKeys?: Record<string, string>;
+	compiled?: Record<string, CompiledMessage>;
+	/** Set when the translations are a split scope's, not the whole locale module's. */
+	scope?: string;
+}
+
+const _updateListeners = new Set<() => void>();
+
+function notifyUpdate(): void {
+	for (const listener of _updateListeners) listener();
+}
+
+function applyHotUpdate(update: VocoderHotUpdate): void {
+	if (update.manifest) applyManifest(update.manifest);
+	registerCompiledMessages(update.compiled);
+	if (update.locale && update.translations) {
+		if (update.scope) {
+			applyScopeTranslations(update.scope, update.locale, update);
+		} else {
+			_loadedTranslations[update.locale] = {
+				...update.translations,
+				...scopedTranslations(update.locale),
+			};
+			_fallbackKeys[update.locale] = update.fallbackKeys ?? {};
+		}
+	}
+	notifyUpdate();
+}
+
+
+// Split translations: a scope module registers per-locale loaders for the keys
+// its source module uses. A scope loads for the active locale (the one
+// loadLocale() was last called with) when it registers and, from then on, for
+// each locale loadLocale() loads. Browser only — on the server the plugin emits
+// whole locale modules.
+interface TranslationScope {
+	id: string;
+	loaders: Record<string, () => any>;
+}
+
+const _scopes = new Map<string, TranslationScope>();
+// Scope id → locale → that scope's translations, kept so a hot-updated locale
+// module doesn't drop the scoped keys merged into it.
+const _scopeTranslations = new Map<string, TranslationsMap>();
+
+function applyScopeTranslations(
+	id: string,
+	locale: string,
+	mod: { translations?: Record<string, string>; fallbackKeys?: Record<string, string> },
+): void {
+	const translations = mod.translations ?? {};
+	const byLocale = _scopeTranslations.get(id) ?? {};
+	byLocale[locale] = translations;
+	_scopeTranslations.set(id, byLocale);
+	_loadedTranslations[locale] = { ..._loadedTranslations[locale], ...translations };
+	if (mod.fallbackKeys) {
+		_fallbackKeys[locale] = { ..._fallbackKeys[locale], ...mod.fallbackKeys };
+	}
+}
+
+function scopedTranslations(locale: string): Record<string, string> {
+	const merged: Record<string, string> = {};
+	for (const byLocale of _scopeTranslations.values()) {
+		Object.assign(merged, byLocale[locale]);
+	}
+	return merged;
+}
+
+/** Load a scope's translations for `locale` — synchronously when its loader returns the module itself. */
+function loadScope(scope: TranslationScope, locale: string): Promise<void> | void {
+	const loader = scope.loaders[locale];
+	if (!loader || _scopeTranslations.get(scope.id)?.[locale]) return;
+
+	const apply = (mod: any) => {
+		applyScopeTranslations(scope.id, locale, {
+			translations: mod?.default ?? mod,
+			fallbackKeys: mod?.default ? mod.fallbackKeys : undefined,
+		});
+		if (mod?.default) registerCompiledMessages(mod.compiled);
+	};
+	const fail = (error: unknown) => {
+		console.error(`[vocoder] Failed to load translations for locale: ${locale}`, error);
+	};
+	try {
+		const mod = loader();
+		if (typeof mod?.then !== "function") return apply(mod);
+		return Promise.resolve(mod).then(apply, fail);
+	} catch (error) {
+		fail(error);
+	}
+}
+
+function loadScopes(locale: string): Promise<void[]> {
+	return Promise.all([..._scopes.values()].map((scope) => loadScope(scope, locale)));
+}
+
+// The locale scopes load for as they register.
+let _activeLocale = "";
+
+function registerScope(scope: TranslationScope): void {
+	_scopes.set(scope.id, scope);
+	if (typeof window === "undefined" || !_activeLocale) return;
+
+	const pending = loadScope(scope, _activeLocale);
+	if (pending) void pending.then(notifyUpdate);
+	else notifyUpdate();
+}
+
+/**
+ * Install the globals @vocoder/plugin's virtual modules call into:
+ * `__VOCODER_HMR__` (dev hot updates) and `__VOCODER_SCOPES__` (split
+ * translation scopes). Called once by the package entry — the only module
+ * package.json lists under sideEffects.
+ */
+export function installRuntimeGlobals(): void {
+	if (typeof globalThis === "undefined") return;
+	const g = globalThis as {
+		__VOCODER_HMR__?: (update: VocoderHotUpdate) => void;
+		__VOCODER_SCOPES__?: TranslationScope[];
+	};
+
+	// Browsers without a `process` shim (Vite dev) install the hook too — only the
+	// plugin's dev-mode HMR footers call it.
+	if (typeof process === "undefined" || process.env.NODE_ENV !== "production") {
+		g.__VOCODER_HMR__ = applyHotUpdate;
+	}
+
+	// Scope modules push onto __VOCODER_SCOPES__ as their chunks run, which can be
+	// before the runtime installs — register what's queued, then every push.
+	const queue = g.__VOCODER_SCOPES__ ?? [];
+	g.__VOCODER_SCOPES__ = queue;
+	for (const scope of queue.splice(0)) registerScope(scope);
+	queue.push = (...scopes: TranslationScope[]) => {
+		for (const scope of scopes) registerScope(scope);
+		return queue.length;
+	};
+}
+
+function onUpdate(listener: () => void): () => void {
+	_updateListeners.add(listener);
+	return () => {
+		_updateListeners.delete(listener);
+	};
+}
+
+// Server: eagerly load the initial locale at module init.
+if (typeof window === "undefined" && _manifestLoaded) {
+	const initialLocale = getInitialLocale();
+	if (initialLocale && _loaders[initialLocale]) {
+		try {
+			const mod = _loaders[initialLocale]!();
+			const translations = (mod as any)?.default ?? mod;
+			if (translations && typeof translations === "object") {
+				_loadedTranslations[initialLocale] = translations;
+				recordFallbackKeys(initialLocale, mod);
+			}
+		} catch {
+			// Keep empty translations for this locale.
+		}
+	}
+}
+
+function getInitialLocale(): string {
+	if (!_config.sourceLocale) return "";
+
+	const available = Object.keys(_config.locales);
+	const match = (preferred: string | null | undefined) =>
+		preferred ? getBestMatchingLocale(preferred, available, "", _config.fallbacks) : "";
+
+	if (typeof document !== "undefined") {
+		const cookieMatch = document.cookie.match(/vocoder_locale=([^;]+)/);
+		const cookieLocale = match(cookieMatch?.[1]);
+		if (cookieLocale) return cookieLocale;
+	}
+
+	if (typeof window !== "undefined" && window.localStorage) {
+		try {
+			const storageLocale = match(localStorage.getItem("vocoder_locale"));
+			if (storageLocale) return storageLocale;
+		} catch {
+			// Ignore blocked storage access.
+		}
+	}
+
+	const browserLocale = negotiateLocale(
+		getBrowserLanguages(),
+		available,
+		"",
+		_config.fallbacks,
+	);
+	if (browserLocale) return browserLocale;
+
+	return _config.sourceLocale;
+}
+
+/** Initialize manifest and initial locale on the client. */
+export async function initializeVocoder(): Promise<void> {
+	await loadManifest();
+	if (!_config.sourceLocale) return;
+
+	const initialLocale = getInitialLocale();
+	if (initialLocale) await loadLocale(initialLocale);
+}
+
+export function getConfig(): VocoderConfig {
+	return _config;
+}
+
+export function getTranslations(): TranslationsMap {
+	return _loadedTranslations;
+}
+
+export function getLocales(): LocalesMap {
+	return _config.locales;
+}
+
+/**
+ * Keys of a loaded locale that were filled from its fallback chain at build
+ * time (hash → the locale that supplied it), for QA. Empty when the locale
+ * isn't loaded yet or has no `fallbacks` configured.
+ */
+export function getFallbackKeys(locale: string): Record<string, string> {
+	return _fallbackKeys[locale] ?? {};
+}
+
+/** Load locale translations via manifest loader. */
+export async function loadLocale(
+	locale: string,
+): Promise<Record<string, string>> {
+	const isClient = typeof window !== "undefined";
+	if (isClient) _activeLocale = locale;
+	if (_loadedTranslations[locale]) {
+		// Scopes registered since the locale last loaded.
+		if (isClient) await loadScopes(locale);
+		return _loadedTranslations[locale]!;
+	}
+
+	if (!_manifestLoaded) {
+		await loadManifest();
+	}
+
+	const loader = _loaders[locale];
+	if (loader) {
+		try {
+			const mod = await Promise.resolve(loader());
+			const translations = mod?.default ?? mod;
+			_loadedTranslations[locale] = translations || {};
+			recordFallbackKeys(locale, mod);
+			if (isClient) await loadScopes(locale);
+			return _loadedTranslations[locale]!;
+		} catch (error) {
+			console.error(`[vocoder] Failed to load translations for locale: ${locale}`, error);
+		}
+	} else if (process.env.NODE_ENV === "development" && _manifestLoaded) {
+		console.warn(
+			`[vocoder] No loader for locale "${locale}" — not in build manifest. Check your target locales config and rebuild.`,
+		);
+	}
+
+	return {};
+}
+
+/** Load a locale synchronously on the server via CJS loader. */
+export function loadLocaleSync(locale: string): Record<string, string> | null {
+	if (typeof window !== "undefined") return null;
+	if (_loadedTranslations[locale]) return _loadedTranslations[locale]!;
+	if (!_manifestLoaded) return null;
+
+	const loader = _loaders[locale];
+	if (!loader) return null;
+
+	try {
+		const mod = loader();
+		if ((mod as any)?.then) return null; // Async loader, can't use sync
+		const translations = (mod as any)?.default ?? mod;
+		if (translations && typeof translations === "object") {
+			_loadedTranslations[locale] = translations;
+			recordFallbackKeys(locale, mod);
+			return _loadedTranslations[locale]!;
+		}
+	} catch {
+		return null;
+	}
+
+	return null;
+}
+
+/**
+ * Where a createVocoder() instance reads its config and translations from —
+ * the plugin's virtual manifest (the module-level state above) or a manifest
+ * passed explicitly.
+ */
+export interface ManifestRuntime {
+	initialize: () => Promise<void>;
+	getConfig: () => VocoderConfig;
+	getTranslations: () => TranslationsMap;
+	loadLocale: (locale: string) => Promise<Record<string, string>>;
+	loadLocaleSync: (locale: string) => Record<string, string> | null;
+	/** Keys of a loaded locale filled from its fallback chain at build time. */
+	getFallbackKeys: (locale: string) => Record<string, string>;
+	/**
+	 * Call `listener` when config or translations change after loading — a dev
+	 * server hot update, or a split scope's translations arriving with its chunk.
+	 */
+	onUpdate?: (listener: () => void) => () => void;
+}
+
+/** The plugin's `virtual:vocoder/manifest`, shared by every instance that doesn't pass one. */
+export const virtualManifestRuntime: ManifestRuntime = {
+	initialize: initializeVocoder,
+	getConfig,
+	getTranslations,
+	loadLocale,
+	loadLocaleSync,
+	getFallbackKeys,
+	onUpdate,
+};
+
+/**
+ * A runtime bound to an explicit manifest (no virtual modules involved).
+ * Loaders may return the translations directly or a module promise; synchronous
+ * loaders are usable during the first render on both server and client.
+ */
+export function createManifestRuntime(manifest: VocoderManifest): ManifestRuntime {
+	const loaded: TranslationsMap = {};
+	const fallbackKeys: Record<string, Record<string, string>> = {};
+
+	// Same module shape as the virtual locale modules: fallbackKeys and compiled
+	// ride along with the default export.
+	const record = (locale: string, mod: any) => {
+		if (!mod?.default) return;
+		if (mod.fallbackKeys) fallbackKeys[locale] = mod.fallbackKeys;
+		registerCompiledMessages(mod.compiled);
+	};
+
+	return {
+		initialize: async () => {},
+		getConfig: () => manifest.config,
+		getTranslations: () => loaded,
+		getFallbackKeys: (locale) => fallbackKeys[locale] ?? {},
+
+		async loadLocale(locale) {
+			if (loaded[locale]) return loaded[locale]!;
+
+			const loader = manifest.loaders[locale];
+			if (!loader) return {};
+			try {
+				const mod = await Promise.resolve(loader());
+				loaded[locale] = mod?.default ?? mod ?? {};
+				record(locale, mod);
+				return loaded[locale]!;
+			} catch (error) {
+				console.error(`[vocoder] Failed to load translations for locale: ${locale}`, error);
+				return {};
+			}
+		},
+
+		loadLocaleSync(locale) {
+			if (loaded[locale]) return loaded[locale]!;
+
+			const loader = manifest.loaders[locale];
+			if (!loader) return null;
+			try {
+				const mod = loader();
+				if (mod?.then) return null; // Async loader, can't use sync
+				const translations = mod?.default ?? mod;
+				if (translations && typeof translations === "object") {
+					loaded[locale] = translations;
+					record(locale, mod);
+					return loaded[locale]!;
+				}
+			} catch {
+				return null;
+			}
+			return null;
+		},
+	};
+}
+
+const manifestRuntimes = new WeakMap<VocoderManifest, ManifestRuntime>();
+
+/**
+ * The runtime for a manifest, or the virtual manifest when none is given.
+ * One runtime per manifest object, so instances and translators share loaded locales.
+ */
+export function getManifestRuntime(manifest?: VocoderManifest): ManifestRuntime {
+	if (!manifest) return virtualManifestRuntime;
+
+	let runtime = manifestRuntimes.get(manifest);
+	if (!runtime) {
+		runtime = createManifestRuntime(manifest);
+		manifestRuntimes.set(manifest, runtime);
+	}
+	return runtime;
+}
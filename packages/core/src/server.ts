@@ -0,0 +1,113 @@
+// Server-only entry — imports node:async_hooks, so keep it out of client bundles:
+//   import { runWithLocale } from '@vocoder/core/server';
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { loadHydrationSnapshot } from "./hydration";
+import { getManifestRuntime } from "./runtime";
+import type { VocoderManifest } from "./runtime";
+import { _setTranslatorScope } from "./translate";
+import { createTranslator } from "./translator";
+import type { Translator } from "./types";
+
+const requestTranslator = new AsyncLocalStorage<Translator>();
+
+_setTranslatorScope(() => requestTranslator.getStore());
+
+/**
+ * Run `fn` with `locale` as the locale of the global `t()` and `ordinal()`
+ * exports — including across awaits — without affecting other requests
+ * handled concurrently.
+ *
+ * @example
+ * ```ts
+ * import { t } from '@vocoder/core';
+ * import { runWithLocale } from '@vocoder/core/server';
+ *
+ * app.use((req, res, next) => runWithLocale(req.acceptsLanguages()[0] ?? 'en', next));
+ *
+ * app.get('/welcome', (req, res) => res.send(t('Welcome back!')));
+ * ```
+ */
+export function runWithLocale<R>(
+	locale: string,
+	fn: () => R,
+	options: { manifest?: VocoderManifest } = {},
+): R {
+	return requestTranslator.run(createTranslator(locale, options), fn);
+}
+
+/** The translator of the enclosing runWithLocale() call, if any. */
+export function getRequestTranslator(): Translator | undefined {
+	return requestTranslator.getStore();
+}
+
+export interface RequestLocaleOptions {
+	/**
+	 * The request's Cookie header, or anything that stringifies to one
+	 * (Next.js `await cookies()`).
+	 */
+	cookies?: string | { toString(): string };
+	/**
+	 * The request headers — Next.js `await headers()`, a Fetch `Headers` or a
+	 * Node `IncomingHttpHeaders` object. Visitors without a locale cookie get
+	 * their best Accept-Language match; cookies are read from here when
+	 * `cookies` is omitted.
+	 */
+	headers?:
+		| { get(name: string): string | null }
+		| Record<string, string | string[] | undefined>;
+	/** Defaults to the plugin's `virtual:vocoder/manifest`. */
+	manifest?: VocoderManifest;
+}
+
+/** Read a header from a Fetch-style or plain-object headers value. */
+function readHeader(
+	headers: RequestLocaleOptions["headers"],
+	name: string,
+): string | undefined {
+	if (!headers) return undefined;
+	if (typeof headers.get === "function") {
+		return (headers as { get(name: string): string | null }).get(name) ?? undefined;
+	}
+	const value = (headers as Record<string, string | string[] | undefined>)[name];
+	return Array.isArray(value) ? value.join("; ") : value;
+}
+
+/** The Accept-Language header of a request, if `headers` were passed. */
+export function getRequestAcceptLanguage(options: RequestLocaleOptions): string | undefined {
+	return readHeader(options.headers, "accept-language");
+}
+
+/** The Cookie header of a request, from `cookies` or `headers`. */
+export function getRequestCookies(options: RequestLocaleOptions): string | undefined {
+	if (options.cookies !== undefined) return String(options.cookies);
+	return readHeader(options.headers, "cookie");
+}
+
+/**
+ * Resolve the request's locale and load its translations — for code that
+ * can't use a provider: React Server Components, `generateMetadata`, route
+ * handlers. Works with async (ESM) loaders.
+ *
+ * @example
+ * ```ts
+ * import { cookies } from 'next/headers';
+ * import { getTranslator } from '@vocoder/react/server';
+ *
+ * export async function generateMetadata() {
+ *   const { t } = await getTranslator({ cookies: await cookies() });
+ *   return { title: t('Pricing') };
+ * }
+ * ```
+ */
+export async function getTranslator(options: RequestLocaleOptions = {}): Promise<Translator> {
+	const snapshot = await loadHydrationSnapshot(
+		getRequestCookies(options),
+		getManifestRuntime(options.manifest),
+		getRequestAcceptLanguage(options),
+	);
+	return createTranslator(snapshot.locale, { manifest: options.manifest });
+}
+
+export { createTranslator } from "./translator";
+export type { Translator } from "./types";
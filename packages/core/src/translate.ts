@@ -0,0 +1,174 @@
+import { isTemplateStringsArray, resolveMessage, templateMessage } from "./messages";
+import type { LocalesMap, MessageDescriptor, TOptions, Translator } from "./types";
+import { formatICU } from "./utils/formatMessage";
+import { formatOrdinal } from "./utils/ordinal";
+
+/**
+ * Global translation state
+ * This is synced by createVocoder() (which every VocoderProvider uses) and can be used anywhere
+ */
+let globalTranslations: Record<string, Record<string, string>> = {};
+let globalLocale: string = "en";
+let globalSourceLocale: string = "";
+let globalLocales: LocalesMap = {};
+
+/**
+ * Set global translations (called by createVocoder)
+ * @internal
+ */
+export function _setGlobalTranslations(
+	translations: Record<string, Record<string, string>>,
+): void {
+	globalTranslations = translations;
+}
+
+/**
+ * Set global locale (called by createVocoder)
+ * @internal
+ */
+export function _setGlobalLocale(locale: string): void {
+	globalLocale = locale;
+}
+
+/**
+ * Set source locale (called by createVocoder)
+ * @internal
+ */
+export function _setSourceLocale(locale: string): void {
+	globalSourceLocale = locale;
+}
+
+/**
+ * Set global locales map (called by createVocoder)
+ * @internal
+ */
+export function _setGlobalLocales(locales: LocalesMap): void {
+	globalLocales = locales;
+}
+
+/**
+ * The translator of the current server request, if any. Installed by
+ * `@vocoder/core/server` (AsyncLocalStorage); takes precedence over the
+ * global state so concurrent requests each see their own locale.
+ */
+let getScopedTranslator: () => Translator | undefined = () => undefined;
+
+/**
+ * Set the request-scope lookup (called by @vocoder/core/server)
+ * @internal
+ */
+export function _setTranslatorScope(getter: () => Translator | undefined): void {
+	getScopedTranslator = getter;
+}
+
+/**
+ * Format a number as a locale-aware ordinal outside React components.
+ * Uses ordinalForms from the manifest config. Falls back to String(value) when data is unavailable.
+ *
+ * @example
+ * ```tsx
+ * import { ordinal } from '@vocoder/react';
+ * const label = ordinal(1); // "1st" in en, "1.º" in es, "第1" in ja
+ * ```
+ */
+export function ordinal(value: number, gender?: string): string {
+	const scoped = getScopedTranslator();
+	if (scoped) return scoped.ordinal(value, gender);
+	return formatOrdinal(value, globalLocale, globalLocales[globalLocale]?.ordinalForms, gender);
+}
+
+/**
+ * Translate text using global translations
+ * Can be used outside React components (utilities, services, etc.)
+ *
+ * Supports:
+ * - Simple variable interpolation: `t('Hello {name}', { name: 'John' })`
+ * - ICU MessageFormat: `t('{count, plural, one {# item} other {# items}}', { count: 5 })`
+ *
+ * @param message - Source text to translate, or a descriptor from msg() / defineMessages()
+ * @param values - Optional values for variable interpolation
+ * @returns Translated text with interpolated variables
+ *
+ * @example Simple variables
+ * ```tsx
+ * import { t } from '@vocoder/react';
+ *
+ * const message = t('Hello, world!');
+ * const greeting = t('Hello, {name}!', { name: 'John' });
+ * ```
+ *
+ * @example ICU MessageFormat (pluralization)
+ * ```tsx
+ * const items = t('{count, plural, =0 {No items} one {# item} other {# items}}', { count: 5 });
+ * // "5 items"
+ *
+ * const items = t('{count, plural, =0 {No items} one {# item} other {# items}}', { count: 1 });
+ * // "1 item"
+ * ```
+ *
+ * @example Tagged template
+ * ```tsx
+ * const summary = t`Hello ${name}, you have ${cart.size} items`;
+ * // extracted as "Hello {name}, you have {0} items"; the build plugin
+ * // rewrites it to t("Hello {name}, you have {0} items", { name, 0: cart.size })
+ * ```
+ *
+ * @example Module-scope messages
+ * ```tsx
+ * const LABELS = { save: msg('Save') }; // declared before translations load
+ * const label = t(LABELS.save);         // translated when called
+ * ```
+ *
+ * @remarks
+ * - This function uses global state synced by VocoderProvider
+ * - Make sure VocoderProvider is mounted before using this function
+ * - On a server handling several locales, wrap each request in `runWithLocale()`
+ *   from `@vocoder/core/server` so calls resolve to that request's locale
+ * - For reactive translations in components, use the `<T>` component or `useVocoder()` hook
+ * - Rich text with components is only supported in `<T>` component, not in `t()` function
+ */
+export function t(strings: TemplateStringsArray, ...expressions: unknown[]): string;
+export function t(
+	message: string | MessageDescriptor,
+	values?: Record<string, any>,
+	options?: TOptions,
+): string;
+export function t(
+	message: string | MessageDescriptor | TemplateStringsArray,
+	...args: any[]
+): string {
+	if (isTemplateStringsArray(message)) {
+		const { text, values } = templateMessage(message, args);
+		return t(text, values);
+	}
+	const [values, options] = args as [Record<string, any>?, TOptions?];
+
+	const scoped = getScopedTranslator();
+	if (scoped) return scoped.t(message, values, options);
+
+	const { text, hash } = resolveMessage(message, options);
+	const localeTranslations = globalTranslations[globalLocale];
+	const hasTranslation =
+		!!localeTranslations && Object.prototype.hasOwnProperty.call(localeTranslations, hash);
+
+	if (
+		!hasTranslation &&
+		process.env.NODE_ENV === "development" &&
+		globalSourceLocale &&
+		globalLocale !== globalSourceLocale
+	) {
+		console.warn(
+			`[vocoder] Missing translation for locale "${globalLocale}": "${text.length > 60 ? `${text.slice(0, 60)}…` : text}"`,
+		);
+	}
+
+	// Untranslated: format the source text, as createVocoder().t does.
+	const translated = hasTranslation ? localeTranslations![hash]! : text;
+
+	if (values && Object.keys(values).length > 0) {
+		// Use IntlMessageFormat for all cases (simple interpolation, ICU, etc.)
+		return formatICU(translated, values, globalLocale);
+	}
+
+	return translated;
+}
@@ -0,0 +1,58 @@
+import { resolveMessage } from "./messages";
+import { getManifestRuntime } from "./runtime";
+import type { VocoderManifest } from "./runtime";
+import type { Translator } from "./types";
+import { getBestMatchingLocale } from "./utils/localeMatch";
+import { formatICU } from "./utils/formatMessage";
+import { formatOrdinal } from "./utils/ordinal";
+
+/**
+ * Create a translator bound to one locale. Unlike the global `t()`, it never
+ * changes locale, so it is safe to share across concurrent server requests.
+ *
+ * The locale is matched against the manifest (`fr-CA` → `fr`) and its
+ * translations are read synchronously via the manifest loaders — on the
+ * server, the plugin's CJS loaders; anywhere, an explicit manifest with
+ * synchronous loaders. Source text is returned when they are unavailable.
+ *
+ * @example
+ * ```ts
+ * import { createTranslator } from '@vocoder/core';
+ *
+ * const { t } = createTranslator(user.locale);
+ * await sendEmail({ subject: t('Your order has shipped') });
+ * ```
+ */
+export function createTranslator(
+	locale: string,
+	options: { manifest?: VocoderManifest } = {},
+): Translator {
+	const runtime = getManifestRuntime(options.manifest);
+	const config = runtime.getConfig();
+	const available = Object.keys(config.locales ?? {});
+	const resolved =
+		available.length > 0
+			? getBestMatchingLocale(
+					locale,
+					available,
+					config.sourceLocale || locale,
+					config.fallbacks,
+				)
+			: locale;
+	const translations =
+		runtime.getTranslations()[resolved] ?? runtime.loadLocaleSync(resolved) ?? {};
+	const ordinalForms = config.locales?.[resolved]?.ordinalForms;
+
+	return {
+		locale: resolved,
+		t(message, values, tOptions) {
+			const { text, hash } = resolveMessage(message, tOptions);
+			const translated = translations[hash] ?? text;
+			if (values && Object.keys(values).length > 0) {
+				return formatICU(translated, values, resolved);
+			}
+			return translated;
+		},
+		ordinal: (value, gender) => formatOrdinal(value, resolved, ordinalForms, gender),
+	};
+}
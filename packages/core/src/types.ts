@@ -0,0 +1,210 @@
+import type { HydrationSnapshot } from "./hydration";
+import type { VocoderManifest } from "./runtime";
+
+export interface TranslationsMap {
+	[locale: string]: {
+		[key: string]: string;
+	};
+}
+
+export interface OrdinalSuffixes {
+	zero?: string;
+	one?: string;
+	two?: string;
+	few?: string;
+	many?: string;
+	other: string;
+}
+
+/**
+ * Discriminated union for locale ordinal data in the translation bundle.
+ *
+ * - `suffix`: Ordinals formed by number + suffix (e.g. "1st", "1er", "1.").
+ *   The `#` placeholder is replaced with the rank at runtime.
+ * - `word`: Ordinals are full words (Arabic, Hebrew). Gender-keyed maps from rank → word.
+ *   Ranks not present in the map fall back to String(value).
+ */
+export type OrdinalForms =
+	| { type: "suffix"; suffixes: OrdinalSuffixes }
+	| { type: "word"; words: Record<string, Record<number, string>> };
+
+export interface LocaleInfo {
+	nativeName: string; // "Español", "简体中文"
+	dir?: "rtl"; // Only for RTL locales
+	currencyCode?: string; // ISO 4217: "USD", "EUR", "GBP", etc.
+	ordinalForms?: OrdinalForms;
+}
+
+export interface LocalesMap {
+	[localeCode: string]: LocaleInfo;
+}
+
+/**
+ * Ordered fallback locales per locale, tried before closest-match and the
+ * source locale, e.g. `{ "pt-BR": ["pt-PT", "pt"] }`.
+ */
+export interface LocaleFallbacks {
+	[localeCode: string]: string[];
+}
+
+export interface TOptions {
+	/** Context string for disambiguation (same text, different meaning). Must match the context used in <T context="..."> */
+	context?: string;
+	/** Formality level for translation */
+	formality?: "formal" | "informal" | "auto";
+	/** Stable translation key. When provided, used as lookup key instead of hashing the message text. */
+	id?: string;
+	/** Note for translators, sent with the string by `vocoder sync`. Not used at runtime. */
+	note?: string;
+	/** Maximum length of the translation in characters, sent by `vocoder sync`. Not used at runtime. */
+	maxLength?: number;
+}
+
+/**
+ * A message declared with msg() / defineMessages() — translated lazily by
+ * `t(descriptor)` or `<T message={descriptor}>`.
+ */
+export interface MessageDescriptor {
+	/** Lookup key: the explicit id, or the content hash of message + context. */
+	id: string;
+	/** Source text (ICU MessageFormat). */
+	message: string;
+	context?: string;
+}
+
+export type FormatMode =
+	| "number"
+	| "integer"
+	| "percent"
+	| "compact"
+	| "currency"
+	| "date"
+	| "time"
+	| "datetime";
+
+export interface VocoderOptions {
+	/**
+	 * Config and per-locale loaders to translate with. Defaults to the
+	 * `virtual:vocoder/manifest` module generated by @vocoder/plugin.
+	 *
+	 * @example
+	 * createVocoder({
+	 *   manifest: {
+	 *     config: { sourceLocale: 'en', targetLocales: ['fr'], locales: { en: { nativeName: 'English' }, fr: { nativeName: 'Français' } } },
+	 *     loaders: { en: () => ({}), fr: () => import('./locales/fr.json') },
+	 *   },
+	 * });
+	 */
+	manifest?: VocoderManifest;
+	/**
+	 * Locale and translations already resolved on the server (see
+	 * loadHydrationSnapshot). Used as-is instead of building a snapshot from
+	 * the cookies or reading the embedded `__vocoder_hydration__` script.
+	 */
+	snapshot?: HydrationSnapshot;
+	/**
+	 * Locale to fall back to until the manifest is loaded.
+	 * The manifest's `sourceLocale` takes precedence once available.
+	 */
+	defaultLocale?: string;
+	/**
+	 * Cookie string for server-side rendering (optional).
+	 * Pass the request's Cookie header to enable SSR locale detection.
+	 */
+	cookies?: string;
+	/**
+	 * The request's Accept-Language header for server-side rendering (optional).
+	 * First-time visitors without a locale cookie get their best match.
+	 */
+	acceptLanguage?: string;
+	/**
+	 * Serve visitors without a locale cookie their preferred language —
+	 * `acceptLanguage` on the server, `navigator.languages` in the browser.
+	 * Set to false to always start them on the source locale.
+	 * @default true
+	 */
+	detectLocale?: boolean;
+	/**
+	 * Automatically apply `dir` and `lang` attributes to `document.documentElement`
+	 * when the locale changes. Enables RTL layout for Arabic, Hebrew, etc.
+	 * @default true
+	 */
+	applyDir?: boolean;
+	/**
+	 * The first path segment carries the locale (`/fr/pricing`), as with
+	 * createVocoderMiddleware's `prefix` strategy. On the client the path
+	 * locale wins over the cookie, and setLocale navigates to the new
+	 * locale's path instead of only writing the cookie.
+	 * @default false
+	 */
+	localeFromPath?: boolean;
+}
+
+/** An immutable snapshot of a Vocoder instance — replaced, never mutated, on every change. */
+export interface VocoderState {
+	locale: string;
+	defaultLocale: string;
+	locales: LocalesMap;
+	translations: TranslationsMap;
+	availableLocales: string[];
+	/** True when initial translations are ready for render */
+	isReady: boolean;
+	/** Text direction for the current locale. 'rtl' for Arabic, Hebrew, etc. 'ltr' for all others. */
+	dir: "ltr" | "rtl";
+}
+
+export interface Vocoder {
+	/** The current state. Returns the same object until something changes. */
+	getState: () => VocoderState;
+	/** Call `listener` after every state change. Returns an unsubscribe function. */
+	subscribe: (listener: () => void) => () => void;
+	/** Translate source text, a msg() descriptor, or a pre-computed `options.id` for the current locale. */
+	t: (
+		text: string | MessageDescriptor,
+		values?: Record<string, unknown>,
+		options?: TOptions,
+	) => string;
+	/** Format an ordinal for the current locale — "1st" in en, "1.º" in es, "الأول" in ar. */
+	ordinal: (value: number, gender?: string) => string;
+	hasTranslation: (text: string) => boolean;
+	/**
+	 * Keys of a loaded locale (default: the current one) that the build filled
+	 * from its `fallbacks` chain — hash → the locale that supplied it. For QA.
+	 */
+	getFallbackKeys: (locale?: string) => Record<string, string>;
+	getDisplayName: (targetLocale: string, viewingLocale?: string) => string;
+	/** Switch locale, loading its translations first. Persists the choice in the locale cookie. */
+	setLocale: (locale: string) => Promise<void>;
+	/** Load a locale's translations without switching to it (e.g. to preload on hover). */
+	loadLocale: (locale: string) => Promise<void>;
+	/** Resolves once the manifest and the initial locale are loaded on the client. */
+	ready: Promise<void>;
+	/**
+	 * Client only — load the manifest and the preferred locale, then keep
+	 * `<html dir lang>` and background refresh in sync. Returns a stop function.
+	 */
+	start: () => () => void;
+	/**
+	 * The SSR hydration snapshot — built from the cookies on the server, read
+	 * from the page on the client. Null when Vocoder is disabled or there is none.
+	 */
+	hydration: { raw: string; data: HydrationSnapshot } | null;
+	/**
+	 * Server only — the `<script id="__vocoder_hydration__">` tag to embed in the
+	 * rendered HTML so the client starts with the server's locale and translations.
+	 * Empty on the client.
+	 */
+	hydrationScript: string;
+}
+
+/** A fixed-locale translator — see createTranslator(). */
+export interface Translator {
+	/** The locale translations resolve to — the best match for the requested one. */
+	locale: string;
+	t: (
+		text: string | MessageDescriptor,
+		values?: Record<string, unknown>,
+		options?: TOptions,
+	) => string;
+	ordinal: (value: number, gender?: string) => string;
+}
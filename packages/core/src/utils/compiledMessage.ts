@@ -0,0 +1,178 @@
+import type {
+	MessageFormatElement,
+	NumberSkeleton,
+	PluralOrSelectOption,
+} from "@formatjs/icu-messageformat-parser";
+
+/**
+ * Precompiled ICU messages.
+ *
+ * With `precompile: true`, @vocoder/plugin parses each ICU translation at
+ * build time and ships the AST next to the string in the locale module
+ * (`export const compiled`, keyed by message text). formatICU formats those
+ * ASTs here instead of parsing with IntlMessageFormat, so a precompiled build
+ * never needs the parser at runtime.
+ *
+ * Mirrors IntlMessageFormat's formatToParts (ignoreTag, default formats) so
+ * both paths produce the same output.
+ */
+
+export type CompiledMessage = MessageFormatElement[];
+
+/**
+ * @formatjs/icu-messageformat-parser's TYPE enum, inlined so that working with
+ * ASTs doesn't import the parser. Tags aren't produced here — messages are
+ * parsed with ignoreTag, as formatICU does.
+ */
+export const ELEMENT_TYPE = {
+	literal: 0,
+	argument: 1,
+	number: 2,
+	date: 3,
+	time: 4,
+	select: 5,
+	plural: 6,
+	pound: 7,
+	tag: 8,
+} as const;
+
+// IntlMessageFormat.formats — named styles like {n, number, percent}.
+const NUMBER_STYLES: Record<string, Intl.NumberFormatOptions> = {
+	integer: { maximumFractionDigits: 0 },
+	currency: { style: "currency" },
+	percent: { style: "percent" },
+};
+const DATE_STYLES: Record<string, Intl.DateTimeFormatOptions> = {
+	short: { month: "numeric", day: "numeric", year: "2-digit" },
+	medium: { month: "short", day: "numeric", year: "numeric" },
+	long: { month: "long", day: "numeric", year: "numeric" },
+	full: { weekday: "long", month: "long", day: "numeric", year: "numeric" },
+};
+const TIME_STYLES: Record<string, Intl.DateTimeFormatOptions> = {
+	short: { hour: "numeric", minute: "numeric" },
+	medium: { hour: "numeric", minute: "numeric", second: "numeric" },
+	long: { hour: "numeric", minute: "numeric", second: "numeric", timeZoneName: "short" },
+	full: { hour: "numeric", minute: "numeric", second: "numeric", timeZoneName: "short" },
+};
+
+const compiledMessages = new Map<string, CompiledMessage>();
+
+/** Record the `compiled` export of a locale module (message text → AST). */
+export function registerCompiledMessages(
+	compiled: Record<string, CompiledMessage> | undefined,
+): void {
+	if (!compiled) return;
+	for (const [text, ast] of Object.entries(compiled)) {
+		compiledMessages.set(text, ast);
+	}
+}
+
+export function getCompiledMessage(text: string): CompiledMessage | undefined {
+	return compiledMessages.get(text);
+}
+
+const formatterCache = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat | Intl.PluralRules>();
+
+function cached<T extends Intl.NumberFormat | Intl.DateTimeFormat | Intl.PluralRules>(
+	kind: string,
+	locale: string,
+	options: object | undefined,
+	create: () => T,
+): T {
+	const key = `${kind}:${locale}:${options ? JSON.stringify(options) : ""}`;
+	let formatter = formatterCache.get(key);
+	if (!formatter) {
+		formatter = create();
+		formatterCache.set(key, formatter);
+	}
+	return formatter as T;
+}
+
+const numberFormat = (locale: string, options?: Intl.NumberFormatOptions) =>
+	cached("number", locale, options, () => new Intl.NumberFormat(locale, options));
+const dateTimeFormat = (locale: string, options?: Intl.DateTimeFormatOptions) =>
+	cached("dateTime", locale, options, () => new Intl.DateTimeFormat(locale, options));
+const pluralRules = (locale: string, type: Intl.PluralRuleType) =>
+	cached("plural", locale, { type }, () => new Intl.PluralRules(locale, { type }));
+
+function pickOption(
+	options: Record<string, PluralOrSelectOption>,
+	key: string,
+): PluralOrSelectOption | undefined {
+	return Object.hasOwn(options, key) ? options[key] : undefined;
+}
+
+/**
+ * Format a precompiled message. Throws like IntlMessageFormat does on a missing
+ * value or select/plural option — formatICU catches and returns the raw text.
+ */
+export function formatCompiledMessage(
+	elements: CompiledMessage,
+	values: Record<string, unknown>,
+	locale: string,
+	pluralValue?: number,
+): string {
+	let out = "";
+	for (const el of elements) {
+		if (el.type === ELEMENT_TYPE.literal) {
+			out += el.value;
+			continue;
+		}
+		if (el.type === ELEMENT_TYPE.pound) {
+			if (typeof pluralValue === "number") out += numberFormat(locale).format(pluralValue);
+			continue;
+		}
+
+		const name = el.value;
+		if (!(values && name in values)) {
+			throw new Error(`The intl string context variable "${name}" was not provided`);
+		}
+		const value = values[name];
+
+		switch (el.type) {
+			case ELEMENT_TYPE.argument:
+				out += value || typeof value === "number" ? String(value) : "";
+				break;
+			case ELEMENT_TYPE.number: {
+				const style: NumberSkeleton["parsedOptions"] | undefined =
+					typeof el.style === "string" ? NUMBER_STYLES[el.style] : el.style?.parsedOptions;
+				const scaled = style?.scale ? Number(value) * style.scale : Number(value);
+				// Skeleton options are ES2023 NumberFormat options (useGrouping: "auto", ...).
+				out += numberFormat(locale, style as Intl.NumberFormatOptions | undefined).format(scaled);
+				break;
+			}
+			case ELEMENT_TYPE.date:
+				out += dateTimeFormat(
+					locale,
+					typeof el.style === "string" ? DATE_STYLES[el.style] : el.style?.parsedOptions,
+				).format(value as Date | number);
+				break;
+			case ELEMENT_TYPE.time:
+				out += dateTimeFormat(
+					locale,
+					typeof el.style === "string"
+						? TIME_STYLES[el.style]
+						: (el.style?.parsedOptions ?? TIME_STYLES.medium),
+				).format(value as Date | number);
+				break;
+			case ELEMENT_TYPE.select: {
+				const option = pickOption(el.options, String(value)) ?? el.options.other;
+				if (!option) throw new Error(`Invalid value "${value}" for select "${name}"`);
+				out += formatCompiledMessage(option.value, values, locale);
+				break;
+			}
+			case ELEMENT_TYPE.plural: {
+				const count = Number(value) - (el.offset || 0);
+				let option = pickOption(el.options, `=${value}`);
+				if (!option) {
+					const rule = pluralRules(locale, el.pluralType ?? "cardinal").select(count);
+					option = pickOption(el.options, rule) ?? el.options.other;
+				}
+				if (!option) throw new Error(`Invalid value "${value}" for plural "${name}"`);
+				out += formatCompiledMessage(option.value, values, locale, count);
+				break;
+			}
+		}
+	}
+	return out;
+}
@@ -76,31 +76,3 @@ export function setCookie(
 
 	document.cookie = cookieString;
 }
-
-/**
- * Find the best matching locale from available options.
- * Handles language codes and regional variants (e.g., 'en-US' -> 'en').
- */
-export function getBestMatchingLocale(
-	preferredLocale: string,
-	supportedLocales: string[],
-	fallback: string,
-): string {
-	if (supportedLocales.includes(preferredLocale)) {
-		return preferredLocale;
-	}
-
-	const languageCode = preferredLocale.split("-")[0];
-	if (languageCode && supportedLocales.includes(languageCode)) {
-		return languageCode;
-	}
-
-	const similarLocale = supportedLocales.find((locale: string) =>
-		locale.startsWith(`${languageCode}-`),
-	);
-	if (similarLocale) {
-		return similarLocale;
-	}
-
-	return fallback;
-}
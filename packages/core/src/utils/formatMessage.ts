@@ -1,38 +1,91 @@
-import IntlMessageFormat from "intl-messageformat";
-import {
-	isPluralElement,
-	isSelectElement,
-	isTagElement,
-	parse,
-	TYPE,
-} from "@formatjs/icu-messageformat-parser";
 import type {
 	LiteralElement,
 	MessageFormatElement,
 	PluralElement,
+	SelectElement,
+	TagElement,
 } from "@formatjs/icu-messageformat-parser";
 import type { OrdinalForms } from "../types";
+import {
+	ELEMENT_TYPE as TYPE,
+	formatCompiledMessage,
+	getCompiledMessage,
+} from "./compiledMessage";
+import type { CompiledMessage } from "./compiledMessage";
+import type * as icuParser from "./icuParser";
+// undefined when @vocoder/plugin's `precompile` option resolves the import:
+// build-time translations arrive precompiled, so the bundle leaves out
+// IntlMessageFormat and the parser. Messages the plugin didn't see import them
+// on demand instead (loadParser).
+import { bundledParser } from "#icu-parser";
+
+// No braces and no '' escape: IntlMessageFormat (ignoreTag) would return the
+// text unchanged. @vocoder/plugin uses the same test to skip precompiling.
+const ICU_SYNTAX = /[{}]|''/;
 
 // ---------------------------------------------------------------------------
-// IntlMessageFormat cache — keyed by "locale:text"
+// Precompiled builds: a message the plugin didn't see (fetched from the CDN
+// after the build, or built at runtime) imports icuParser on first use, into
+// its own chunk. Until that resolves the message gets plain {name}
+// substitution; onParserLoaded listeners re-render once it has.
 // ---------------------------------------------------------------------------
 
-const imfCache = new Map<string, IntlMessageFormat>();
+let parser: typeof icuParser | undefined = bundledParser;
+let parserLoading = false;
+const parserListeners = new Set<() => void>();
+
+/** Subscribe to the lazily imported parser arriving (precompiled builds only). */
+export function onParserLoaded(listener: () => void): () => void {
+	parserListeners.add(listener);
+	return () => {
+		parserListeners.delete(listener);
+	};
+}
+
+function loadParser(): void {
+	if (parserLoading) return;
+	parserLoading = true;
+	void import("./icuParser").then(
+		(mod) => {
+			parser = mod;
+			for (const listener of parserListeners) listener();
+		},
+		(error: unknown) => {
+			parserLoading = false;
+			if (process.env.NODE_ENV !== "production") {
+				console.error("[vocoder] Failed to load the ICU parser:", error);
+			}
+		},
+	);
+}
+
+function formatUncompiled(text: string, values: Record<string, unknown>): string {
+	return text
+		.replace(/\{\s*([\w.]+)\s*\}/g, (match, name: string) =>
+			name in values ? String(values[name] ?? "") : match,
+		)
+		.replace(/''/g, "'");
+}
+
+// Rewritten selectordinal ASTs (rewriteSelectordinalInICU), keyed by the
+// printed ICU formatICU receives. Word ordinals print one message per rank,
+// so only the most recent are kept.
+const REWRITTEN_LIMIT = 100;
+const rewrittenMessages = new Map<string, CompiledMessage>();
 
-function getIMF(text: string, locale: string): IntlMessageFormat {
-	const key = `${locale}:${text}`;
-	let msg = imfCache.get(key);
-	if (!msg) {
-		// ignoreTag: true — component placeholders (<c0>, <c1>) are handled
-		// by formatElements, not by IMF. IMF handles only ICU primitives.
-		msg = new IntlMessageFormat(text, locale, undefined, { ignoreTag: true });
-		imfCache.set(key, msg);
+function cacheRewritten(text: string, ast: CompiledMessage): void {
+	rewrittenMessages.delete(text);
+	rewrittenMessages.set(text, ast);
+	if (rewrittenMessages.size > REWRITTEN_LIMIT) {
+		const oldest = rewrittenMessages.keys().next();
+		if (!oldest.done) rewrittenMessages.delete(oldest.value);
 	}
-	return msg;
 }
 
 /**
  * Format an ICU MessageFormat string with the given values and locale.
+ * Plain text is returned as is; messages @vocoder/plugin precompiled are
+ * formatted from their AST without parsing.
  * Returns the raw `text` unchanged if parsing or formatting throws — the
  * caller always gets a string, never an exception.
  */
@@ -41,9 +94,16 @@ export function formatICU(
 	values: Record<string, unknown>,
 	locale: string = "en",
 ): string {
+	if (!ICU_SYNTAX.test(text)) return text;
+
 	try {
-		const result = getIMF(text, locale.toLowerCase()).format(values);
-		return typeof result === "string" ? result : (result as unknown[]).join("");
+		const compiled = getCompiledMessage(text) ?? rewrittenMessages.get(text);
+		if (compiled) return formatCompiledMessage(compiled, values, locale.toLowerCase());
+		if (!parser) {
+			loadParser();
+			return formatUncompiled(text, values);
+		}
+		return parser.formatWithParser(text, values, locale.toLowerCase());
 	} catch (error) {
 		if (process.env.NODE_ENV !== "production") {
 			console.error(
@@ -155,6 +215,12 @@ function printElement(el: MessageFormatElement): string {
 	}
 }
 
+const isPluralElement = (el: MessageFormatElement): el is PluralElement =>
+	el.type === TYPE.plural;
+const isSelectElement = (el: MessageFormatElement): el is SelectElement =>
+	el.type === TYPE.select;
+const isTagElement = (el: MessageFormatElement): el is TagElement => el.type === TYPE.tag;
+
 function rewriteElements(
 	elements: MessageFormatElement[],
 	forms: OrdinalForms,
@@ -275,9 +341,18 @@ export function rewriteSelectordinalInICU(
 	if (!icu.includes("selectordinal")) return icu;
 
 	try {
-		const ast = parse(icu, { captureLocation: false });
+		const ast = getCompiledMessage(icu) ?? parser?.parseMessage(icu);
+		if (!ast) {
+			// Parser still loading — formatICU substitutes until it arrives.
+			loadParser();
+			return icu;
+		}
+		// Cache the rewritten AST under the printed string so formatICU
+		// formats it without parsing.
 		const rewritten = rewriteElements(ast, ordinalForms, values);
-		return printICU(rewritten);
+		const printed = printICU(rewritten);
+		cacheRewritten(printed, rewritten);
+		return printed;
 	} catch {
 		// Malformed stored translation — let formatICU handle it (it also catches)
 		return icu;
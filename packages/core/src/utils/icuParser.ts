@@ -0,0 +1,41 @@
+import IntlMessageFormat from "intl-messageformat";
+import { parse } from "@formatjs/icu-messageformat-parser";
+import type { CompiledMessage } from "./compiledMessage";
+
+/**
+ * The parsing half of formatICU: messages with no precompiled AST.
+ *
+ * Default builds import this module statically. Builds with @vocoder/plugin's
+ * `precompile` option import it only when a message the plugin didn't compile
+ * renders, so IntlMessageFormat and the ICU parser stay out of their bundles.
+ */
+
+// IntlMessageFormat cache — keyed by "locale:text"
+const imfCache = new Map<string, IntlMessageFormat>();
+
+function getIMF(text: string, locale: string): IntlMessageFormat {
+	const key = `${locale}:${text}`;
+	let msg = imfCache.get(key);
+	if (!msg) {
+		// ignoreTag: true — component placeholders (<c0>, <c1>) are handled
+		// by formatElements, not by IMF. IMF handles only ICU primitives.
+		msg = new IntlMessageFormat(text, locale, undefined, { ignoreTag: true });
+		imfCache.set(key, msg);
+	}
+	return msg;
+}
+
+/** Format with IntlMessageFormat. Throws on a malformed message or missing value. */
+export function formatWithParser(
+	text: string,
+	values: Record<string, unknown>,
+	locale: string,
+): string {
+	const result = getIMF(text, locale).format(values);
+	return typeof result === "string" ? result : (result as unknown[]).join("");
+}
+
+/** Parse a message the way @vocoder/plugin precompiles it (ignoreTag). */
+export function parseMessage(text: string): CompiledMessage {
+	return parse(text, { ignoreTag: true, captureLocation: false });
+}
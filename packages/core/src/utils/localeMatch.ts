@@ -0,0 +1,114 @@
+/**
+ * BCP 47 locale matching — pick the supported locale closest to a preferred one.
+ *
+ * Tags are compared after likely-subtag maximisation (`Intl.Locale#maximize`),
+ * so `zh-TW` is Traditional Chinese (`zh-Hant-TW`) and never matches `zh-CN`,
+ * and `sr-Latn` never matches `sr-Cyrl`.
+ */
+
+import type { LocaleFallbacks } from "../types";
+
+interface ParsedLocale {
+	language: string;
+	script: string;
+	region: string;
+	/** The tag as written names a region (`pt-PT`) rather than relying on likely subtags (`pt`). */
+	hasRegion: boolean;
+}
+
+function parseLocale(tag: string): ParsedLocale | null {
+	try {
+		const locale = new Intl.Locale(tag);
+		const maximized = locale.maximize();
+		return {
+			language: maximized.language,
+			script: maximized.script ?? "",
+			region: maximized.region ?? "",
+			hasRegion: Boolean(locale.region),
+		};
+	} catch {
+		// Not a well-formed tag — compare the language subtag only.
+		const language = tag.split(/[-_]/)[0]?.toLowerCase();
+		return language ? { language, script: "", region: "", hasRegion: false } : null;
+	}
+}
+
+function canonicalize(tag: string): string {
+	try {
+		return Intl.getCanonicalLocales(tag)[0] ?? tag;
+	} catch {
+		return tag;
+	}
+}
+
+/** The supported locale written as `tag`, ignoring case and `_` separators. */
+function findExact(tag: string, supportedLocales: string[]): string | undefined {
+	const canonical = canonicalize(tag.replace(/_/g, "-"));
+	return supportedLocales.find(
+		(locale) => locale === tag || canonicalize(locale) === canonical,
+	);
+}
+
+/**
+ * How far `candidate` is from `preferred`: 0 for the same maximised locale
+ * (`en-US` ↔ `en`), 1 for a region-neutral parent (`pt-PT` → `pt`), 2 for a
+ * sibling region (`pt-PT` → `pt-BR`). Null when language or script differ.
+ */
+function distance(preferred: ParsedLocale, candidate: ParsedLocale): number | null {
+	if (preferred.language !== candidate.language) return null;
+	if (preferred.script && candidate.script && preferred.script !== candidate.script) {
+		return null;
+	}
+	if (preferred.region === candidate.region) return 0;
+	return candidate.hasRegion ? 2 : 1;
+}
+
+/**
+ * Find the best matching locale from available options.
+ *
+ * 1. An exact match (`pt-br` matches `pt-BR`).
+ * 2. The configured fallback chain for the preferred locale, in order
+ *    (`{ "pt-BR": ["pt-PT"] }`).
+ * 3. The closest locale with the same language and script, preferring the
+ *    same region, then a region-neutral tag, then another region.
+ *
+ * Returns `fallback` (usually the source locale) when nothing matches.
+ */
+export function getBestMatchingLocale(
+	preferredLocale: string,
+	supportedLocales: string[],
+	fallback: string,
+	fallbacks?: LocaleFallbacks,
+): string {
+	const exact = findExact(preferredLocale, supportedLocales);
+	if (exact) return exact;
+
+	const chain = fallbacks && lookupChain(preferredLocale, fallbacks);
+	for (const tag of chain ?? []) {
+		const match = findExact(tag, supportedLocales);
+		if (match) return match;
+	}
+
+	const preferred = parseLocale(preferredLocale);
+	if (!preferred) return fallback;
+
+	let best: string | undefined;
+	let bestDistance = Number.POSITIVE_INFINITY;
+	for (const locale of supportedLocales) {
+		const candidate = parseLocale(locale);
+		if (!candidate) continue;
+		const d = distance(preferred, candidate);
+		if (d !== null && d < bestDistance) {
+			best = locale;
+			bestDistance = d;
+		}
+	}
+
+	return best ?? fallback;
+}
+
+function lookupChain(tag: string, fallbacks: LocaleFallbacks): string[] | undefined {
+	if (fallbacks[tag]) return fallbacks[tag];
+	const key = findExact(tag, Object.keys(fallbacks));
+	return key ? fallbacks[key] : undefined;
+}
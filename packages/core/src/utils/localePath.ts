@@ -0,0 +1,33 @@
+/**
+ * Locale path prefixes (`/fr/pricing`) — shared by createVocoderMiddleware's
+ * `prefix` strategy and createVocoder's `localeFromPath` option.
+ */
+
+/** The locale in the first path segment, or null when it isn't a supported locale. */
+export function getLocaleFromPath(
+	pathname: string,
+	supportedLocales: string[],
+): string | null {
+	const segment = pathname.split("/")[1] ?? "";
+	return (
+		supportedLocales.find((locale) => locale.toLowerCase() === segment.toLowerCase()) ??
+		null
+	);
+}
+
+/** Remove a supported locale prefix: `/fr/pricing` → `/pricing`, `/fr` → `/`. */
+export function stripLocaleFromPath(pathname: string, supportedLocales: string[]): string {
+	const locale = getLocaleFromPath(pathname, supportedLocales);
+	if (!locale) return pathname;
+	return pathname.slice(locale.length + 1) || "/";
+}
+
+/** Replace (or add) the locale prefix: `/de/pricing` → `/fr/pricing`. */
+export function localizePath(
+	pathname: string,
+	locale: string,
+	supportedLocales: string[],
+): string {
+	const rest = stripLocaleFromPath(pathname, supportedLocales);
+	return rest === "/" ? `/${locale}` : `/${locale}${rest}`;
+}
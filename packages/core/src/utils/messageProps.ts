@@ -0,0 +1,76 @@
+/**
+ * Prop-driven ICU builders for <T> plural/select/ordinal modes.
+ * Framework-agnostic — shared by the React, Vue and Svelte T components.
+ */
+
+// CLDR plural categories that unambiguously indicate plural mode.
+// "other" is excluded because it doubles as the fallback in select mode.
+const PLURAL_CLDR = new Set(["zero", "one", "two", "few", "many"]);
+// Full set used in ICU builders where mode is already resolved.
+const ALL_CLDR = new Set(["zero", "one", "two", "few", "many", "other"]);
+
+/**
+ * Classify a rest prop key for plural/select mode detection.
+ * Spread props are NEVER used as interpolation values — use the `values` prop instead.
+ *
+ * - "zero","one","two","few","many" or _N (digits) → plural category / exact match
+ * - "other" → shared fallback (plural or select depending on context)
+ * - _word (letters after underscore) → select case
+ * - anything else → ignored (not used as interpolation — avoids collisions with reserved names)
+ */
+export function classifyProp(key: string): "plural" | "select" | "other" | "ignore" {
+	if (PLURAL_CLDR.has(key) || /^_\d+$/.test(key)) return "plural";
+	if (key === "other") return "other";
+	if (/^_[a-zA-Z]/.test(key)) return "select";
+	return "ignore";
+}
+
+// Must stay byte-for-byte identical to DEFAULT_ORDINAL_ICU in @vocoder/extractor/src/index.ts.
+// Locale-neutral: no source-language ordinal suffixes. The actual ordinal form is
+// resolved via ordinalForms (Tier 1). Tier 2 evaluates `other {#}` to String(rank).
+export const DEFAULT_ORDINAL_ICU = "{count, selectordinal, other {#}}";
+
+/**
+ * Build an ICU plural string from plural props.
+ * Exact matches (_0 → =0) come before CLDR categories.
+ * Internal variable is always "count" for consistent lookup keys.
+ * Must stay byte-for-byte identical to buildPluralICU in @vocoder/extractor/src/index.ts.
+ */
+export function buildPluralICU(props: Record<string, string>): string {
+	const exact: string[] = [];
+	const cldr: string[] = [];
+
+	for (const [key, text] of Object.entries(props)) {
+		const exactMatch = key.match(/^_(\d+)$/);
+		if (exactMatch) {
+			exact.push(`=${exactMatch[1]} {${text}}`);
+		} else if (ALL_CLDR.has(key)) {
+			cldr.push(`${key} {${text}}`);
+		}
+	}
+
+	return `{count, plural, ${[...exact, ...cldr].join(" ")}}`;
+}
+
+/**
+ * Build an ICU select string from select props.
+ * Internal variable is always "value" for consistent lookup keys.
+ * Must stay byte-for-byte identical to buildSelectICU in @vocoder/extractor/src/index.ts.
+ */
+export function buildSelectICU(props: Record<string, string>): string {
+	const cases: string[] = [];
+	let hasOther = false;
+
+	for (const [key, text] of Object.entries(props)) {
+		if (key === "other") {
+			hasOther = true;
+			cases.push(`other {${text}}`);
+		} else {
+			const wordCase = key.match(/^_([a-zA-Z].*)$/);
+			if (wordCase) cases.push(`${wordCase[1]} {${text}}`);
+		}
+	}
+
+	if (!hasOther) cases.push("other {other}");
+	return `{value, select, ${cases.join(" ")}}`;
+}
@@ -0,0 +1,56 @@
+/**
+ * Locale negotiation from a visitor's language preferences —
+ * the Accept-Language header on the server, navigator.languages in the browser.
+ */
+
+import type { LocaleFallbacks } from "../types";
+import { getBestMatchingLocale } from "./localeMatch";
+
+/**
+ * Parse an Accept-Language header into language tags, most preferred first.
+ * Tags with `q=0` and the `*` wildcard are dropped.
+ *
+ * @example parseAcceptLanguage("fr-CH, fr;q=0.9, en;q=0.8") // ["fr-CH", "fr", "en"]
+ */
+export function parseAcceptLanguage(header: string | null | undefined): string[] {
+	if (!header) return [];
+
+	return header
+		.split(",")
+		.map((part, index) => {
+			const [tag = "", ...params] = part.trim().split(";");
+			const q = params
+				.map((param) => param.trim())
+				.find((param) => param.startsWith("q="));
+			const quality = q ? Number.parseFloat(q.slice(2)) : 1;
+			return { tag: tag.trim(), quality: Number.isNaN(quality) ? 0 : quality, index };
+		})
+		.filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+		.sort((a, b) => b.quality - a.quality || a.index - b.index)
+		.map(({ tag }) => tag);
+}
+
+/**
+ * The first supported locale matching the visitor's preferences, in order
+ * of preference (each matched with getBestMatchingLocale). Returns
+ * `fallback` when none match.
+ */
+export function negotiateLocale(
+	preferred: readonly string[],
+	supportedLocales: string[],
+	fallback: string,
+	fallbacks?: LocaleFallbacks,
+): string {
+	for (const tag of preferred) {
+		const match = getBestMatchingLocale(tag, supportedLocales, "", fallbacks);
+		if (match) return match;
+	}
+	return fallback;
+}
+
+/** The browser's language preferences, most preferred first. Empty on the server. */
+export function getBrowserLanguages(): readonly string[] {
+	if (typeof navigator === "undefined") return [];
+	if (navigator.languages?.length) return navigator.languages;
+	return navigator.language ? [navigator.language] : [];
+}
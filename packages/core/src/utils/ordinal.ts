@@ -0,0 +1,35 @@
+import type { OrdinalForms } from "../types";
+
+/**
+ * Format a number as a locale-aware ordinal from the locale's ordinalForms.
+ *
+ * - suffix forms: CLDR ordinal category via Intl.PluralRules, `#` replaced with the value
+ * - word forms (ar, he): gender-keyed rank → word map, falling back to masculine
+ *
+ * Returns String(value) when forms are missing or the rank is not covered.
+ */
+export function formatOrdinal(
+	value: number,
+	locale: string,
+	forms: OrdinalForms | undefined,
+	gender?: string,
+): string {
+	if (!forms) return String(value);
+
+	if (forms.type === "suffix") {
+		const pr = new Intl.PluralRules(locale, { type: "ordinal" });
+		const category = pr.select(value) as keyof typeof forms.suffixes;
+		const pattern = forms.suffixes[category] ?? forms.suffixes.other;
+		if (!pattern) return String(value);
+		return pattern.replace("#", String(value));
+	}
+
+	if (forms.type === "word") {
+		const genderKey = gender ?? "masculine";
+		const genderMap = forms.words[genderKey] ?? forms.words.masculine ?? Object.values(forms.words)[0];
+		const word = genderMap?.[value];
+		if (word) return word;
+	}
+
+	return String(value);
+}
@@ -0,0 +1,38 @@
+// Keys are FNV-1a 32-bit hashes of the source text (generateMessageHash).
+// Same keys as the @vocoder/react and @vocoder/vue fixtures.
+const translations = {
+	en: {
+		"1w2u0qz": "Hello",
+		"1twzd04": "Hello, world!",
+		"0yvn7bx": "Hello, {name}!",
+		"0bt5k53": "{count, plural, one {# item} other {# items}}",
+		"1uanpsy": "{value, select, male {his} female {her} other {their}}",
+		"1fb9e3q": "Click <0>here</0> for help",
+	},
+	es: {
+		"1w2u0qz": "Hola",
+		"1twzd04": "Hola, mundo!",
+		"0yvn7bx": "Hola, {name}!",
+		"0bt5k53": "{count, plural, one {# articulo} other {# articulos}}",
+		"1uanpsy": "{value, select, male {su} female {su} other {su}}",
+		"1fb9e3q": "Haz clic <0>aqui</0> para obtener ayuda",
+	},
+} as const;
+
+export const config = {
+	sourceLocale: "en",
+	targetLocales: ["es"],
+	locales: {
+		en: { nativeName: "English", currencyCode: "USD",
+			ordinalForms: { type: "suffix" as const, suffixes: { one: "#st", two: "#nd", few: "#rd", other: "#th" } } },
+		es: { nativeName: "Espanol", currencyCode: "EUR",
+			ordinalForms: { type: "suffix" as const, suffixes: { other: "#.º" } } },
+	},
+};
+
+export const loaders = {
+	en: () => Promise.resolve({ default: translations.en }),
+	es: () => Promise.resolve({ default: translations.es }),
+};
+
+export default { config, loaders };
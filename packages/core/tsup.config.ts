@@ -0,0 +1,22 @@
+import { defineConfig } from "tsup";
+
+// No 'use client' banner — nothing here touches a UI framework, so the
+// same build runs in RSC, Node and the browser. `server` is Node-only
+// (AsyncLocalStorage) and must never be imported from client code.
+// Splitting (also for CJS) keeps one copy of the global t() state shared by both entries.
+// The index entry installs globalThis.__VOCODER_HMR__ / __VOCODER_SCOPES__ on import, so
+// package.json lists it under sideEffects; the shared chunks stay tree-shakable.
+// `parser` is the target of the package-private #icu-parser import (kept
+// external so @vocoder/plugin can swap it out for precompiled builds).
+export default defineConfig({
+	entry: { index: "src/index.ts", server: "src/server.ts", parser: "src/parser.ts" },
+	format: ["esm", "cjs"],
+	dts: true,
+	clean: true,
+	sourcemap: true,
+	target: "es2017",
+	platform: "neutral",
+	treeshake: true,
+	splitting: true,
+	external: ["intl-messageformat", "node:async_hooks", "#icu-parser", /^virtual:/],
+});
@@ -0,0 +1,54 @@
+/**
+ * Conditionals between string literals inside a <T> body or template literal,
+ * turned into an ICU select on the test so both branches are one message:
+ *   {isAdmin ? "an admin" : "a member"} → {0, select, true {an admin} other {a member}}
+ *   {isNew && "New"}                    → {0, select, true {New} other {}}
+ *
+ * Shared by the JSX, Vue and Svelte extractors. Nodes are Babel or ESTree
+ * (Svelte) expressions — only the node types both produce are read.
+ */
+
+/**
+ * The two branches of a conditional as literal text, or null when it can't be a
+ * message — non-literal branches, `||`, `??`.
+ */
+export function conditionalBranches(node: any): { test: any; whenTrue: string; otherwise: string } | null {
+	if (node.type === "ConditionalExpression") {
+		const whenTrue = literalBranch(node.consequent);
+		const otherwise = literalBranch(node.alternate);
+		if (whenTrue === null || otherwise === null) return null;
+		return { test: node.test, whenTrue, otherwise };
+	}
+	if (node.type === "LogicalExpression" && node.operator === "&&") {
+		const whenTrue = literalBranch(node.right);
+		if (whenTrue === null) return null;
+		return { test: node.left, whenTrue, otherwise: "" };
+	}
+	return null;
+}
+
+/** `{key, select, true {…} other {…}}` with both branches escaped as ICU literal text. */
+export function booleanSelect(key: number, whenTrue: string, otherwise: string): string {
+	return `{${key}, select, true {${escapeICULiteral(whenTrue)}} other {${escapeICULiteral(otherwise)}}}`;
+}
+
+/**
+ * Quote text so ICU reads it literally: `'` → `''`, `{` / `}` → `'{'` / `'}'`.
+ * Branch strings are plain values in source, unlike the surrounding message text.
+ */
+export function escapeICULiteral(text: string): string {
+	return text.replace(/'/g, "''").replace(/[{}]/g, "'$&'");
+}
+
+/** Text of a select branch: a string, an expression-free template, or null (renders nothing). */
+function literalBranch(node: any): string | null {
+	if (node.type === "StringLiteral") return node.value;
+	if (node.type === "Literal" && (typeof node.value === "string" || node.value === null)) {
+		return node.value ?? "";
+	}
+	if (node.type === "TemplateLiteral" && node.expressions.length === 0) {
+		return node.quasis[0].value.cooked ?? node.quasis[0].value.raw;
+	}
+	if (node.type === "NullLiteral") return "";
+	return null;
+}
@@ -97,6 +97,23 @@ function parseConfigFromSource(code: string): VocoderConfig | null {
 	return config;
 }
 
+type StringArrayKey =
+	| "include"
+	| "exclude"
+	| "targetBranches"
+	| "tComponents"
+	| "tFunctions"
+	| "importSources";
+
+const STRING_ARRAY_KEYS: ReadonlySet<string> = new Set<StringArrayKey>([
+	"include",
+	"exclude",
+	"targetBranches",
+	"tComponents",
+	"tFunctions",
+	"importSources",
+]);
+
 function extractFromObject(obj: any): VocoderConfig {
 	const config: VocoderConfig = {};
 
@@ -104,14 +121,12 @@ function extractFromObject(obj: any): VocoderConfig {
 		if (prop.type !== "ObjectProperty") continue;
 		const key: string = prop.key.name ?? prop.key.value;
 
-		if (key === "include" || key === "exclude" || key === "targetBranches") {
+		if (STRING_ARRAY_KEYS.has(key)) {
 			if (prop.value.type !== "ArrayExpression") continue;
 			const values = prop.value.elements
 				.filter((el: any) => el?.type === "StringLiteral")
 				.map((el: any) => el.value as string);
-			if (key === "include") config.include = values;
-			if (key === "exclude") config.exclude = values;
-			if (key === "targetBranches") config.targetBranches = values;
+			config[key as StringArrayKey] = values;
 		}
 
 		if (key === "localesPath" && prop.value.type === "StringLiteral") {
@@ -125,6 +140,27 @@ function extractFromObject(obj: any): VocoderConfig {
 		if (key === "formality" && prop.value.type === "StringLiteral") {
 			config.formality = prop.value.value as VocoderConfig["formality"];
 		}
+
+		if (key === "hashAlgorithm" && prop.value.type === "StringLiteral") {
+			config.hashAlgorithm = prop.value.value as VocoderConfig["hashAlgorithm"];
+		}
+
+		if (key === "keyLength" && prop.value.type === "NumericLiteral") {
+			config.keyLength = prop.value.value as number;
+		}
+
+		if (key === "fallbacks" && prop.value.type === "ObjectExpression") {
+			const fallbacks: Record<string, string[]> = {};
+			for (const entry of prop.value.properties) {
+				if (entry.type !== "ObjectProperty") continue;
+				if (entry.value.type !== "ArrayExpression") continue;
+				const locale: string = entry.key.name ?? entry.key.value;
+				fallbacks[locale] = entry.value.elements
+					.filter((el: any) => el?.type === "StringLiteral")
+					.map((el: any) => el.value as string);
+			}
+			config.fallbacks = fallbacks;
+		}
 	}
 
 	return config;
@@ -0,0 +1,129 @@
+/**
+ * Structured diagnostics for problems hit while extracting or transforming a
+ * file — returned alongside the result instead of logged, so the build plugin,
+ * CLI and MCP server can each surface them in their own output.
+ */
+
+export type ExtractionDiagnosticCode =
+	| "parse-error"
+	| "read-error"
+	| "conditional-in-t"
+	| "nested-t"
+	| "unsupported-in-t"
+	| "key-collision";
+
+export interface ExtractionDiagnostic {
+	code: ExtractionDiagnosticCode;
+	severity: "error" | "warning";
+	file: string;
+	/** 1-based line. */
+	line: number;
+	/** 1-based column. */
+	column: number;
+	message: string;
+	/** How to rewrite the source so it extracts. */
+	suggestion?: string;
+}
+
+/** Why a <T> body couldn't be turned into a message — set by the extract contexts on bail. */
+export type BailCode = "conditional-in-t" | "nested-t" | "unsupported-in-t";
+
+/** A <T> body the extractor gave up on. `tag` is the local name of the T component. */
+export function bailDiagnostic(
+	code: BailCode,
+	file: string,
+	line: number,
+	column: number,
+	tag = "T",
+): ExtractionDiagnostic {
+	const base = { code, severity: "warning" as const, file, line, column };
+	switch (code) {
+		case "conditional-in-t":
+			return {
+				...base,
+				message: `Conditional/logical expression in <${tag}> — the message can't be extracted`,
+				suggestion: `Move the condition outside: {cond ? <${tag}>A</${tag}> : <${tag}>B</${tag}>}, or use plural/select props`,
+			};
+		case "nested-t":
+			return {
+				...base,
+				message: `Nested <${tag}> — the outer <${tag}> can't be extracted`,
+				suggestion: `Wrap the surrounding text in its own <${tag}> beside the inner one`,
+			};
+		case "unsupported-in-t":
+			return {
+				...base,
+				message: `Unsupported expression in <${tag}> — the message can't be extracted`,
+				suggestion: `Keep <${tag}> bodies to text, {name} placeholders and elements; move logic outside`,
+			};
+	}
+}
+
+/**
+ * Two different messages extracted with the same key — `first` is where the key
+ * was first seen, the diagnostic points at `second`.
+ */
+export function keyCollisionDiagnostic(
+	key: string,
+	first: { text: string; context?: string; file: string; line: number },
+	second: { text: string; context?: string; file: string; line: number; column: number },
+): ExtractionDiagnostic {
+	const describe = (message: { text: string; context?: string }) =>
+		message.context
+			? `${JSON.stringify(message.text)} (context ${JSON.stringify(message.context)})`
+			: JSON.stringify(message.text);
+	return {
+		code: "key-collision",
+		severity: "error",
+		file: second.file,
+		line: second.line,
+		column: second.column,
+		message: `Key "${key}" is also used for ${describe(first)} at ${first.file}:${first.line} — ${describe(second)} would show its translation`,
+		suggestion:
+			'Give one of them an explicit id, or set hashAlgorithm: "fnv1a-64" and a longer keyLength in vocoder.config.ts',
+	};
+}
+
+/** A file that failed to parse. Reads the position Babel, Vue and Svelte attach to their errors. */
+export function parseErrorDiagnostic(file: string, error: unknown): ExtractionDiagnostic {
+	const err = error as {
+		loc?: { line: number; column: number; start?: { line: number; column: number } };
+		start?: { line: number; column: number };
+	};
+	// Babel: loc { line, column (0-based) }; Vue: loc.start { line, column (1-based) };
+	// Svelte: start { line, column (0-based) }.
+	const position = err?.loc?.start
+		? { line: err.loc.start.line, column: err.loc.start.column }
+		: err?.loc
+			? { line: err.loc.line, column: err.loc.column + 1 }
+			: err?.start
+				? { line: err.start.line, column: err.start.column + 1 }
+				: { line: 1, column: 1 };
+
+	return {
+		code: "parse-error",
+		severity: "error",
+		file,
+		...position,
+		message: `Failed to parse: ${error instanceof Error ? error.message : String(error)}`,
+	};
+}
+
+/** 1-based line and column of a character offset. */
+export function positionAt(content: string, offset: number): { line: number; column: number } {
+	const before = content.slice(0, offset);
+	return {
+		line: before.split("\n").length,
+		column: offset - before.lastIndexOf("\n"),
+	};
+}
+
+/**
+ * One-line rendering shared by the CLI and the build plugin:
+ *   src/Cart.tsx:12:5 warning conditional-in-t Conditional/logical expression in <T> — … (fix: …)
+ */
+export function formatExtractionDiagnostic(diagnostic: ExtractionDiagnostic): string {
+	const { file, line, column, severity, code, message, suggestion } = diagnostic;
+	const fix = suggestion ? ` (fix: ${suggestion})` : "";
+	return `${file}:${line}:${column} ${severity} ${code} ${message}${fix}`;
+}
@@ -1,21 +1,86 @@
 /**
- * FNV-1a 32-bit hash for generating stable message IDs from source text.
+ * FNV-1a hash for generating stable message IDs from source text.
  *
  * Works identically in Node.js and browsers (no platform APIs).
  * Used by the extractor (build time) and React runtime (browser) so both
  * always produce the same key for the same source text.
  *
- * Output: 7 base-36 chars (~2.2 billion values).
- * Collision probability ≈ 0.002% for 10K strings (birthday problem).
+ * Default output: 7 base-36 chars of a 32-bit hash (~2.2 billion values).
+ * Collision probability ≈ 0.002% for 10K strings (birthday problem) — the
+ * extractor reports collisions, and `hashAlgorithm: "fnv1a-64"` with a longer
+ * `keyLength` (up to 13 chars) makes them vanishingly rare.
  * Add `context` to disambiguate identical strings with different meanings.
  *
  * Separator \x04 (ASCII EOT) matches Lingui's convention.
  */
-export function generateMessageHash(text: string, context?: string): string {
+
+import type { HashAlgorithm } from "@vocoder/config";
+
+export interface MessageHashOptions {
+	/** @default "fnv1a" */
+	algorithm?: HashAlgorithm;
+	/** Key length in base-36 characters — at most 7 for fnv1a, 13 for fnv1a-64. @default 7 */
+	keyLength?: number;
+}
+
+/** Whether `options` produce the original 7-character fnv1a keys. */
+export function isDefaultHash(options: MessageHashOptions): boolean {
+	return (options.algorithm ?? "fnv1a") === "fnv1a" && (options.keyLength ?? 7) >= 7;
+}
+
+const MAX_KEY_LENGTH: Record<HashAlgorithm, number> = { fnv1a: 7, "fnv1a-64": 13 };
+
+export function generateMessageHash(
+	text: string,
+	context?: string,
+	options: MessageHashOptions = {},
+): string {
 	const input = context ? `${text}\x04${context}` : text;
+	const algorithm = options.algorithm ?? "fnv1a";
+	const maxLength = MAX_KEY_LENGTH[algorithm];
+	const keyLength = Math.min(options.keyLength ?? 7, maxLength);
+	const hash = algorithm === "fnv1a-64" ? fnv1a64(input) : fnv1a32(input);
+	return hash.padStart(maxLength, "0").slice(-keyLength);
+}
+
+function fnv1a32(input: string): string {
 	let h = 2166136261 >>> 0;
 	for (let i = 0; i < input.length; i++) {
 		h = Math.imul(h ^ input.charCodeAt(i), 16777619) >>> 0;
 	}
-	return h.toString(36).padStart(7, "0");
+	return h.toString(36);
+}
+
+// 64-bit FNV-1a on four 16-bit limbs (low to high) — no BigInt, so it runs on ES2017 targets.
+// Prime 0x100000001b3 = 0x1b3 + 2^40: the 2^40 term shifts by two limbs and 8 bits.
+function fnv1a64(input: string): string {
+	let h0 = 0x2325;
+	let h1 = 0x8422;
+	let h2 = 0x9ce4;
+	let h3 = 0xcbf2;
+	for (let i = 0; i < input.length; i++) {
+		h0 ^= input.charCodeAt(i);
+		const t0 = h0 * 0x1b3;
+		const t1 = h1 * 0x1b3 + (t0 >>> 16);
+		const t2 = h2 * 0x1b3 + (h0 << 8) + (t1 >>> 16);
+		const t3 = h3 * 0x1b3 + (h1 << 8) + (t2 >>> 16);
+		h0 = t0 & 0xffff;
+		h1 = t1 & 0xffff;
+		h2 = t2 & 0xffff;
+		h3 = t3 & 0xffff;
+	}
+
+	// Base 36 by long division, most significant limb first; 13 digits cover 2^64.
+	const limbs = [h3, h2, h1, h0];
+	let digits = "";
+	for (let d = 0; d < 13; d++) {
+		let remainder = 0;
+		for (let i = 0; i < limbs.length; i++) {
+			const current = remainder * 0x10000 + limbs[i]!;
+			limbs[i] = Math.floor(current / 36);
+			remainder = current % 36;
+		}
+		digits = remainder.toString(36) + digits;
+	}
+	return digits;
 }
@@ -1,13 +1,58 @@
 import { readFileSync } from "node:fs";
-import { relative as pathRelative } from "node:path";
+import { basename, extname, relative as pathRelative } from "node:path";
 import { parse } from "@babel/parser";
 import babelTraverse from "@babel/traverse";
 import { glob } from "glob";
-import { generateMessageHash } from "./hash";
+import {
+	type BailCode,
+	bailDiagnostic,
+	type ExtractionDiagnostic,
+	keyCollisionDiagnostic,
+	parseErrorDiagnostic,
+	positionAt,
+} from "./diagnostics";
+import { booleanSelect, conditionalBranches } from "./conditional";
+import type { VocoderConfig } from "./config";
+import { generateMessageHash, isDefaultHash, type MessageHashOptions } from "./hash";
+import {
+	detectUiRole,
+	elementNameToUiRole,
+	isNonUiElement,
+	propNameToUiRole,
+} from "./uiRole";
+import {
+	extractSvelteMarkupText,
+	getSvelteOpeningTagEnd,
+	getSvelteProps,
+	getSvelteNumberAttribute,
+	getSvelteStringAttribute,
+	parseSvelteComponent,
+	type SvelteExtractContext,
+	svelteElementToComponentSlot,
+	walkSvelteElements,
+	walkSvelteExpressions,
+} from "./svelte";
+import {
+	extractVueTemplateText,
+	getVueOpeningTagEnd,
+	getVueProps,
+	getVueNumberAttribute,
+	getVueStringAttribute,
+	parseVueSFC,
+	VUE_NODE,
+	type VueExtractContext,
+	walkVueElements,
+} from "./vue";
+import { HAS_LETTER, jsxElementName, textRuns } from "./wrap";
 
 export { generateMessageHash } from "./hash";
+export type { MessageHashOptions } from "./hash";
+export { formatExtractionDiagnostic, parseErrorDiagnostic } from "./diagnostics";
+export type { ExtractionDiagnostic, ExtractionDiagnosticCode } from "./diagnostics";
 export { loadVocoderConfig, parseVocoderConfig } from "./config";
 export type { VocoderConfig } from "./config";
+export { wrapHardcodedStrings } from "./wrap";
+export type { WrappedString, WrapResult } from "./wrap";
 
 // Handle default export difference between ESM and CommonJS
 const traverse = (babelTraverse as any).default || babelTraverse;
@@ -18,20 +63,124 @@ const PLURAL_CLDR = new Set(["zero", "one", "two", "few", "many"]);
 // Full set used only by buildPluralICU/buildSelectICU where mode is already known.
 const ALL_CLDR = new Set(["zero", "one", "two", "few", "many", "other"]);
 
+// Runtime packages whose T component and t function are recognised by the extractor.
+const VOCODER_IMPORT_SOURCES = new Set([
+	"@vocoder/react",
+	"@vocoder/vue",
+	"@vocoder/svelte",
+]);
+
+/**
+ * Extraction options from vocoder.config.ts: extra component and function
+ * names extracted like T / t, and extra modules they're imported from.
+ */
+export type ExtractorOptions = Pick<
+	VocoderConfig,
+	"tComponents" | "tFunctions" | "importSources" | "hashAlgorithm" | "keyLength"
+>;
+
+/** ExtractorOptions merged with the built-in names, plus how message keys are hashed. */
+interface Recognizers {
+	importSources: Set<string>;
+	tComponents: Set<string>;
+	tFunctions: Set<string>;
+	hash: MessageHashOptions;
+}
+
+function resolveRecognizers(options: ExtractorOptions = {}): Recognizers {
+	return {
+		importSources: new Set([
+			...VOCODER_IMPORT_SOURCES,
+			...(options.importSources ?? []),
+		]),
+		tComponents: new Set(["T", ...(options.tComponents ?? [])]),
+		tFunctions: new Set(["t", ...(options.tFunctions ?? [])]),
+		hash: { algorithm: options.hashAlgorithm, keyLength: options.keyLength },
+	};
+}
+
+const DEFAULT_RECOGNIZERS = resolveRecognizers();
+
+// Lazy message declarations — their arguments are extracted like t() text.
+type DescriptorFunction = "msg" | "defineMessages";
+const DESCRIPTOR_FUNCTIONS: ReadonlySet<string> = new Set<DescriptorFunction>([
+	"msg",
+	"defineMessages",
+]);
+
 export interface ExtractedString {
 	key: string;
 	text: string;
 	file: string;
 	line: number;
+	/** 1-based column. */
+	column: number;
+	/** Enclosing component or function — see StringOccurrence. */
+	componentName?: string;
 	context?: string;
 	formality?: "formal" | "informal" | "neutral" | "auto";
 	/** Detected UI role from JSX parent element or prop. e.g. "button_label", "heading", "input_placeholder" */
 	uiRole?: string;
+	/** Note for translators — the note/description prop, t()'s `note` option, or a `// vocoder:` comment on the line above. */
+	note?: string;
+	/** Upper bound on the translation's length in characters, from the maxLength prop or option. */
+	maxLength?: number;
+	/**
+	 * The key this string had under the default 7-character fnv1a hash, when
+	 * vocoder.config.ts sets another hashAlgorithm / keyLength — lets existing
+	 * translations move to the new key. Absent for explicit ids.
+	 */
+	legacyKey?: string;
+	/**
+	 * Every place the string is used, in file order — set by extractFromProject,
+	 * which keeps one entry per key. The first occurrence is the entry's own
+	 * file/line/column.
+	 */
+	occurrences?: StringOccurrence[];
+}
+
+/** One usage of an extracted string. */
+export interface StringOccurrence {
+	file: string;
+	line: number;
+	/** 1-based column. */
+	column: number;
+	/**
+	 * The component or function the string is used in — `Checkout`,
+	 * `useCartLabels`. Vue and Svelte templates report the component file
+	 * name. Absent at module scope.
+	 */
+	componentName?: string;
+}
+
+export interface ExtractionResult {
+	strings: ExtractedString[];
+	/** Parse failures, <T> bodies that couldn't be extracted and key collisions. */
+	diagnostics: ExtractionDiagnostic[];
 }
 
 export interface TransformResult {
 	code: string;
 	changed: boolean;
+	/** <T> elements left untransformed, and parse failures. */
+	diagnostics: ExtractionDiagnostic[];
+}
+
+/** Rules reported by lintContent — also the names accepted by ignore comments. */
+export type LintRule =
+	| "hardcoded-string"
+	| "untranslatable-t"
+	| "dynamic-t"
+	| "parse-error";
+
+export interface LintDiagnostic {
+	file: string;
+	/** 1-based line. */
+	line: number;
+	/** 1-based column. */
+	column: number;
+	rule: LintRule;
+	message: string;
 }
 
 /**
@@ -45,7 +194,7 @@ export interface TransformResult {
  *             formatICU evaluates it to String(rank), same as Tier 3)
  *   Tier 3 — String(rank) fallback
  *
- * Must stay byte-for-byte identical to DEFAULT_ORDINAL_ICU in @vocoder/react/src/T.tsx.
+ * Must stay byte-for-byte identical to DEFAULT_ORDINAL_ICU in @vocoder/react/src/utils/messageProps.ts.
  */
 export const DEFAULT_ORDINAL_ICU = "{count, selectordinal, other {#}}";
 
@@ -53,7 +202,7 @@ export const DEFAULT_ORDINAL_ICU = "{count, selectordinal, other {#}}";
  * Build a plural or ordinal ICU string from plural prop key/value pairs.
  * Exact matches (_0, _1) come before CLDR categories (one, other, etc.).
  * Internal variable name is always "count" for consistent lookup keys.
- * Must stay byte-for-byte identical to buildPluralICU in @vocoder/react/src/T.tsx.
+ * Must stay byte-for-byte identical to buildPluralICU in @vocoder/react/src/utils/messageProps.ts.
  */
 export function buildPluralICU(props: Record<string, string>, ordinal = false): string {
 	const type = ordinal ? "selectordinal" : "plural";
@@ -75,7 +224,7 @@ export function buildPluralICU(props: Record<string, string>, ordinal = false):
 /**
  * Build a select ICU string from select prop key/value pairs.
  * Internal variable name is always "value" for consistent lookup keys.
- * Must stay byte-for-byte identical to buildSelectICU in @vocoder/react/src/T.tsx.
+ * Must stay byte-for-byte identical to buildSelectICU in @vocoder/react/src/utils/messageProps.ts.
  */
 export function buildSelectICU(props: Record<string, string>): string {
 	const cases: string[] = [];
@@ -106,16 +255,20 @@ export function buildSelectICU(props: Record<string, string>): string {
  * namedVars         — all simple identifier names found (e.g. `{count}` → "count").
  * complexExprs      — source positions of complex expressions mapped to their positional key.
  *                     Used by transformMsgProps to reconstruct the values prop verbatim from source.
+ *                     `select` marks the test of a conditional, passed through Boolean().
  * bail              — set to true when an unsupported expression is detected (nested <T>,
  *                     conditional/logical inside template literal). Caller must abort extraction.
+ * bailCode/bailNode — why and where extraction bailed; reported as a diagnostic.
  * tComponentNames   — names the T component is imported as; used to detect nested <T> elements.
  */
 interface ExtractContext {
 	elementCount: number;
 	complexCount: number;
 	namedVars: Set<string>;
-	complexExprs: Array<{ key: number; start: number; end: number }>;
+	complexExprs: Array<{ key: number; start: number; end: number; select?: boolean }>;
 	bail: boolean;
+	bailCode?: BailCode;
+	bailNode?: any;
 	tComponentNames: Set<string>;
 }
 
@@ -127,7 +280,8 @@ interface ExtractContext {
  * - {42} / {3.14}            → inlined as literal string (not a placeholder)
  * - {true} / {false} / {null}→ skipped (render nothing meaningful)
  * - {user.name} / {call()}   → positional arg `{0}` (added to ctx.complexExprs)
- * - {a ? b : c} / {a && b}   → sets ctx.bail = true (caller must abort — use plural/select instead)
+ * - {a ? 'x' : 'y'} / {a && 'x'} → select arg `{0, select, true {x} other {y}}` on Boolean(a)
+ * - other {a ? b : c} / {a && b} / {a || b} → sets ctx.bail = true (caller must abort)
  * - "string literal"         → inline literal value
  * - `template ${count}`      → quasis as-is; Identifier expressions named, others positional
  * - <JSXElement>text</JSXElement> → `<N>text</N>` (numeric tag; preprocessor normalises to
@@ -157,39 +311,14 @@ function extractTextContentFromNodes(
 			} else if (expr.type === "BooleanLiteral" || expr.type === "NullLiteral") {
 				// skip — not translation content
 			} else if (expr.type === "TemplateLiteral") {
-				for (let i = 0; i < expr.quasis.length; i++) {
-					text += expr.quasis[i].value.raw;
-					if (i < expr.expressions.length) {
-						const e = expr.expressions[i];
-						if (e.type === "Identifier") {
-							ctx.namedVars.add(e.name);
-							text += `{${e.name}}`;
-						} else if (e.type === "NumericLiteral") {
-							text += String(e.value);
-						} else if (e.type === "BooleanLiteral" || e.type === "NullLiteral") {
-							// skip
-						} else if (
-							e.type === "ConditionalExpression" ||
-							e.type === "LogicalExpression"
-						) {
-							// Conditional inside template literal — untranslatable.
-							ctx.bail = true;
-							return text;
-						} else {
-							// Complex expression inside template literal — positional placeholder.
-							const key = ctx.complexCount++;
-							ctx.complexExprs.push({ key, start: e.start, end: e.end });
-							text += `{${key}}`;
-						}
-					}
-				}
+				text += templateLiteralText(expr, ctx);
+				if (ctx.bail) return text;
 			} else if (
 				expr.type === "ConditionalExpression" ||
 				expr.type === "LogicalExpression"
 			) {
-				// Untranslatable — a conditional produces different strings depending on runtime state.
-				ctx.bail = true;
-				return text;
+				text += conditionalText(expr, ctx);
+				if (ctx.bail) return text;
 			} else {
 				// Complex expression (MemberExpression, CallExpression, etc.) — positional placeholder.
 				// Catalog stays stable if the expression is renamed or refactored.
@@ -198,13 +327,12 @@ function extractTextContentFromNodes(
 				text += `{${key}}`;
 			}
 		} else if (child.type === "JSXElement") {
-			const childTagName =
-				child.openingElement.name.type === "JSXIdentifier"
-					? child.openingElement.name.name
-					: null;
+			const childTagName = memberName(child.openingElement.name);
 			if (childTagName && ctx.tComponentNames.has(childTagName)) {
 				// Nested T — outer T bails; inner T is extracted independently by the traversal.
 				ctx.bail = true;
+				ctx.bailCode = "nested-t";
+				ctx.bailNode = child;
 				return text;
 			}
 			const idx = ctx.elementCount++;
@@ -221,6 +349,145 @@ function extractTextContentFromNodes(
 	return text;
 }
 
+/**
+ * A conditional between string literals as a select arg on its test (see
+ * conditional.ts). The test is recorded in ctx.complexExprs with `select` so the
+ * values prop passes Boolean(test). Any other conditional sets ctx.bail.
+ */
+function conditionalText(node: any, ctx: ExtractContext): string {
+	const branches = conditionalBranches(node);
+	if (!branches) {
+		ctx.bail = true;
+		ctx.bailCode = "conditional-in-t";
+		ctx.bailNode = node;
+		return "";
+	}
+
+	const { test, whenTrue, otherwise } = branches;
+	const key = ctx.complexCount++;
+	ctx.complexExprs.push({ key, start: test.start, end: test.end, select: true });
+	return booleanSelect(key, whenTrue, otherwise);
+}
+
+/**
+ * Entries of the values object for a message extracted into `ctx`: named
+ * shorthand (`count`), positional args copied from `code` (`0: user.name`),
+ * select tests coerced (`1: Boolean(isAdmin)`).
+ */
+function valuesEntries(ctx: ExtractContext, code: string): string[] {
+	return [
+		...ctx.namedVars,
+		...ctx.complexExprs.map(({ key, start, end, select }) => {
+			const source = code.slice(start, end);
+			return `${key}: ${select ? `Boolean(${source})` : source}`;
+		}),
+	];
+}
+
+/**
+ * ICU text of a template literal — quasis as-is, Identifier expressions as named
+ * args, numbers inlined, string conditionals as select args (see conditionalText),
+ * other expressions positional `{0}`. `quasi` picks the source text of the quasis (template literals in
+ * JSX) or their string value (tagged t`…`, matching what the tag receives).
+ */
+function templateLiteralText(
+	node: any,
+	ctx: ExtractContext,
+	quasi: "raw" | "cooked" = "raw",
+): string {
+	let text = "";
+	for (let i = 0; i < node.quasis.length; i++) {
+		const value = node.quasis[i].value;
+		text += quasi === "cooked" ? (value.cooked ?? value.raw) : value.raw;
+		if (i < node.expressions.length) {
+			const e = node.expressions[i];
+			if (e.type === "Identifier") {
+				ctx.namedVars.add(e.name);
+				text += `{${e.name}}`;
+			} else if (e.type === "NumericLiteral") {
+				text += String(e.value);
+			} else if (e.type === "BooleanLiteral" || e.type === "NullLiteral") {
+				// skip
+			} else if (e.type === "ConditionalExpression" || e.type === "LogicalExpression") {
+				text += conditionalText(e, ctx);
+				if (ctx.bail) return text;
+			} else {
+				// Complex expression inside template literal — positional placeholder.
+				const key = ctx.complexCount++;
+				ctx.complexExprs.push({ key, start: e.start, end: e.end });
+				text += `{${key}}`;
+			}
+		}
+	}
+	return text;
+}
+
+/**
+ * The message of a tagged t`…`: "Hello {name}, you have {0} items" plus the
+ * named and positional args (ctx.namedVars / ctx.complexExprs) that fill it.
+ */
+function taggedTemplateMessage(node: any): { text: string; ctx: ExtractContext } {
+	const ctx: ExtractContext = {
+		elementCount: 0,
+		complexCount: 0,
+		namedVars: new Set(),
+		complexExprs: [],
+		bail: false,
+		tComponentNames: new Set(),
+	};
+	return { text: templateLiteralText(node.quasi, ctx, "cooked"), ctx };
+}
+
+/**
+ * t`Hello ${name}, you have ${cart.size} items` → t("Hello {name}, you have {0} items", { name, 0: cart.size })
+ * — the call the extractor hashes, so lookups match without a runtime template parser.
+ * Null when the template can't become a message. `code` is the source `node` offsets index.
+ */
+function taggedTemplateCall(node: any, code: string): string | null {
+	const { text, ctx } = taggedTemplateMessage(node);
+	if (ctx.bail) return null;
+
+	const valuesParts = valuesEntries(ctx, code);
+	const values = valuesParts.length > 0 ? `, { ${valuesParts.join(", ")} }` : "";
+	return `${code.slice(node.tag.start, node.tag.end)}(${JSON.stringify(text.trim())}${values})`;
+}
+
+/**
+ * taggedTemplateCall rewrites for the <script> blocks of a Vue or Svelte
+ * component, positioned in the whole file. `tFunctionNames` are the t functions
+ * the blocks import or take from useVocoder().
+ */
+function scriptTaggedTemplateRewrites(
+	scripts: Array<{ content: string; offset: number }>,
+	tFunctionNames: Set<string>,
+): Array<{ position: number; end: number; text: string }> {
+	const rewrites: Array<{ position: number; end: number; text: string }> = [];
+	if (tFunctionNames.size === 0) return rewrites;
+
+	for (const script of scripts) {
+		let ast: any;
+		try {
+			ast = parse(script.content, { sourceType: "module", plugins: ["jsx", "typescript"] });
+		} catch {
+			continue; // reported by the extract pass
+		}
+		traverse(ast, {
+			TaggedTemplateExpression(path: any) {
+				const tagName = memberName(path.node.tag);
+				if (!tagName || !tFunctionNames.has(tagName)) return;
+				const text = taggedTemplateCall(path.node, script.content);
+				if (text === null) return;
+				rewrites.push({
+					position: script.offset + path.node.start,
+					end: script.offset + path.node.end,
+					text,
+				});
+			},
+		});
+	}
+	return rewrites;
+}
+
 /**
  * Transform JSX source files to inject `message` props on <T> components
  * that have dynamic identifier children but no explicit message/msg prop.
@@ -237,19 +504,31 @@ function extractTextContentFromNodes(
  * - Elements that already have message or msg prop
  * - Elements in plural/select mode (one/other/_0/_male props)
  * - Elements with no JSX expression identifier children (static text, ICU strings, ternaries)
- * - Files that don't import T from @vocoder/react
+ * - Files that don't import T from @vocoder/react (or an `importSources` module)
+ *
+ * Tagged t`…` templates are rewritten to the equivalent t("…", { … }) call.
  *
- * Future framework expansion:
- * - Vue (.vue): add transformVueT() branch — needs @vue/compiler-sfc parser,
- *   converts {{ count }} template syntax to {count} placeholders
- * - Svelte (.svelte): add transformSvelteT() branch — svelte uses {count} natively,
- *   needs svelte/compiler parser for SFC structure
+ * Other frameworks:
+ * - Vue (.vue): see transformVueT() — converts {{ count }} template syntax to {count} placeholders
+ * - Svelte (.svelte): see transformSvelteT() — svelte uses {count} natively
  * - Solid (.jsx/.tsx): same Babel parser, different import source (@vocoder/solid)
  * All frameworks share the same lookup-key convention (message prop + values object)
  * so extraction and runtime are identical regardless of framework.
+ *
+ * Elements that can't be transformed, and parse failures, come back as
+ * `diagnostics` labelled with `filename`. `options` adds the component names
+ * and import sources configured in vocoder.config.ts.
  */
-export function transformMsgProps(code: string): TransformResult {
-	if (!code.includes("@vocoder/react")) return { code, changed: false };
+export function transformMsgProps(
+	code: string,
+	filename = "",
+	options: ExtractorOptions = {},
+): TransformResult {
+	const diagnostics: ExtractionDiagnostic[] = [];
+	const recognizers = resolveRecognizers(options);
+	if (![...recognizers.importSources].some((source) => code.includes(source))) {
+		return { code, changed: false, diagnostics };
+	}
 
 	let ast: any;
 	try {
@@ -257,40 +536,50 @@ export function transformMsgProps(code: string): TransformResult {
 			sourceType: "module",
 			plugins: ["jsx", "typescript"],
 		});
-	} catch {
-		return { code, changed: false };
+	} catch (error) {
+		diagnostics.push(parseErrorDiagnostic(filename, error));
+		return { code, changed: false, diagnostics };
 	}
 
-	const tComponentNames = new Set<string>();
-
-	traverse(ast, {
-		ImportDeclaration(path: any) {
-			if (path.node.source.value !== "@vocoder/react") return;
-			for (const spec of path.node.specifiers) {
-				if (
-					spec.type === "ImportSpecifier" &&
-					spec.imported.type === "Identifier" &&
-					spec.imported.name === "T"
-				) {
-					tComponentNames.add(spec.local.name);
-				}
-			}
-		},
-	});
+	const bindings: VocoderBindings = {
+		vocoderImports: new Map(),
+		tFunctionNames: new Set(),
+		descriptorFunctions: new Map(),
+	};
+	for (const node of ast.program.body) {
+		if (node.type === "ImportDeclaration") collectImportBindings(node, recognizers, bindings);
+	}
+	const tComponentNames = new Set(bindings.vocoderImports.keys());
 
-	if (tComponentNames.size === 0) return { code, changed: false };
+	if (tComponentNames.size === 0 && bindings.tFunctionNames.size === 0) {
+		return { code, changed: false, diagnostics };
+	}
 
+	/** `text` inserted at `position`, replacing up to `end` when set. */
 	interface Insertion {
 		position: number;
+		end?: number;
 		text: string;
 	}
 	const insertions: Insertion[] = [];
 
 	traverse(ast, {
+		VariableDeclarator(path: any) {
+			collectUseVocoderBindings(path.node, recognizers, bindings);
+		},
+
+		// t`…` → the t("…", { … }) call the extractor hashes (taggedTemplateCall).
+		TaggedTemplateExpression(path: any) {
+			const tagName = memberName(path.node.tag);
+			if (!tagName || !bindings.tFunctionNames.has(tagName)) return;
+
+			const text = taggedTemplateCall(path.node, code);
+			if (text !== null) insertions.push({ position: path.node.start, end: path.node.end, text });
+		},
+
 		JSXElement(path: any) {
 			const opening = path.node.openingElement;
-			const tagName =
-				opening.name.type === "JSXIdentifier" ? opening.name.name : null;
+			const tagName = memberName(opening.name);
 			if (!tagName || !tComponentNames.has(tagName)) return;
 
 			// Skip if already has message prop
@@ -308,21 +597,6 @@ export function transformMsgProps(code: string): TransformResult {
 			});
 			if (hasPluralSelectProps) return;
 
-			// Bail early on conditional/logical direct children — untranslatable as a unit.
-			const hasBailingExpr = path.node.children.some(
-				(child: any) =>
-					child.type === "JSXExpressionContainer" &&
-					(child.expression.type === "ConditionalExpression" ||
-						child.expression.type === "LogicalExpression"),
-			);
-			if (hasBailingExpr) {
-				const line = path.node.loc?.start.line ?? "?";
-				console.warn(
-					`[vocoder] Conditional/logical expression in <T> at line ${line} — extract outside: {cond ? <T>A</T> : <T>B</T>}`,
-				);
-				return;
-			}
-
 			// Collect top-level JSX element positions for the components prop.
 			// Only top-level children are included — nested elements inside a parent
 			// JSX element are bundled inside the parent's rendered output.
@@ -353,10 +627,7 @@ export function transformMsgProps(code: string): TransformResult {
 			};
 			const template = extractTextContentFromNodes(path.node.children, ctx).trim();
 			if (ctx.bail) {
-				const line = path.node.loc?.start.line ?? "?";
-				console.warn(
-					`[vocoder] Unsupported expression in <T> at line ${line} — could not extract template.`,
-				);
+				diagnostics.push(jsxBailDiagnostic(filename, path.node, ctx, tagName));
 				return;
 			}
 			if (!template) return;
@@ -365,18 +636,13 @@ export function transformMsgProps(code: string): TransformResult {
 			if (ctx.namedVars.size === 0 && jsxElements.length === 0 && ctx.complexExprs.length === 0) return;
 
 			const escaped = template.replace(/"/g, "&quot;");
-			const hash = generateMessageHash(template);
+			const hash = generateMessageHash(template, undefined, recognizers.hash);
 
 			// Build insertion text: id, message, optional values, optional components
 			let insertText = ` id="${hash}" message="${escaped}"`;
 
 			// Named vars use shorthand { count, name }; complex exprs use positional { 0: user.name }.
-			const valuesParts: string[] = [
-				...[...ctx.namedVars],
-				...ctx.complexExprs.map(
-					({ key, start, end }) => `${key}: ${code.slice(start, end)}`,
-				),
-			];
+			const valuesParts = valuesEntries(ctx, code);
 			if (valuesParts.length > 0) {
 				insertText += ` values={{ ${valuesParts.join(", ")} }}`;
 			}
@@ -399,16 +665,493 @@ export function transformMsgProps(code: string): TransformResult {
 		},
 	});
 
-	if (insertions.length === 0) return { code, changed: false };
+	if (insertions.length === 0) return { code, changed: false, diagnostics };
 
 	// Apply in reverse order so earlier positions aren't shifted
 	insertions.sort((a, b) => b.position - a.position);
 	let result = code;
-	for (const { position, text } of insertions) {
-		result = result.slice(0, position) + text + result.slice(position);
+	for (const { position, end = position, text } of insertions) {
+		result = result.slice(0, position) + text + result.slice(end);
 	}
 
-	return { code: result, changed: true };
+	return { code: result, changed: true, diagnostics };
+}
+
+/** Diagnostic for a JSX <T> whose body bailed — at the offending child, else the element. */
+function jsxBailDiagnostic(
+	filename: string,
+	element: any,
+	ctx: ExtractContext,
+	tagName: string,
+): ExtractionDiagnostic {
+	const { line, column } = (ctx.bailNode ?? element).loc.start;
+	return bailDiagnostic(
+		ctx.bailCode ?? "unsupported-in-t",
+		filename,
+		line,
+		column + 1,
+		tagName,
+	);
+}
+
+/**
+ * Transform Vue single-file components to inject `id`, `message` and `:values`
+ * on template <T> elements — the Vue counterpart of transformMsgProps:
+ *   <T>You have {{ count }} items</T>
+ * becomes
+ *   <T id="…" message="You have {count} items" :values="{ count }">You have {{ count }} items</T>
+ *
+ * Unlike JSX, static-only bodies are annotated too — Vue slot content is a render
+ * function, so the runtime cannot recover the source text the way extractText does.
+ *
+ * Skips the same elements as transformMsgProps (message prop, plural/select mode,
+ * conditional/unsupported expressions). `T` is recognised without an import because
+ * createVocoder registers it globally; aliases imported from @vocoder/vue are also recognised.
+ * Skipped elements and parse failures are returned as `diagnostics`.
+ */
+export function transformVueT(
+	code: string,
+	filename = "",
+	options: ExtractorOptions = {},
+): TransformResult {
+	const diagnostics: ExtractionDiagnostic[] = [];
+	let sfc: ReturnType<typeof parseVueSFC>;
+	try {
+		sfc = parseVueSFC(code, filename || "component.vue");
+	} catch (error) {
+		diagnostics.push(parseErrorDiagnostic(filename, error));
+		return { code, changed: false, diagnostics };
+	}
+
+	const recognizers = resolveRecognizers(options);
+	const { vocoderImports, tFunctionNames } = collectVueScriptBindings(
+		"component.vue",
+		sfc.scripts,
+		recognizers,
+	);
+	const tComponentNames = new Set(vocoderImports.keys());
+
+	const insertions: Array<{ position: number; end?: number; text: string }> =
+		scriptTaggedTemplateRewrites(sfc.scripts, tFunctionNames);
+
+	walkVueElements(sfc.template ?? { children: [] }, (el) => {
+		if (!tComponentNames.has(el.tag)) return;
+
+		const props = getVueProps(el);
+		if (props.some((prop) => prop.name === "message")) return;
+		if (pluralSelectICUFromProps(props)) return;
+
+		const ctx: VueExtractContext = {
+			elementCount: 0,
+			complexCount: 0,
+			namedVars: new Set(),
+			complexExprs: [],
+			bail: false,
+			tComponentNames,
+		};
+		const template = extractVueTemplateText(el.children, ctx).trim();
+		if (ctx.bail) {
+			diagnostics.push(vueBailDiagnostic(filename, el, ctx));
+			return;
+		}
+		if (!template) return;
+
+		const position = getVueOpeningTagEnd(code, el);
+		if (position === -1 || code[position - 1] === "/") return;
+
+		const escapeAttr = (value: string) =>
+			value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+		const id = getVueStringAttribute(el, "id")?.trim();
+		const context = getVueStringAttribute(el, "context");
+
+		let insertText = "";
+		if (!id) insertText += ` id="${generateMessageHash(template, context, recognizers.hash)}"`;
+		insertText += ` message="${escapeAttr(template)}"`;
+
+		const valuesParts: string[] = [
+			...ctx.namedVars,
+			...ctx.complexExprs.map(({ key, source }) => `${key}: ${source}`),
+		];
+		if (valuesParts.length > 0) {
+			insertText += ` :values="${escapeAttr(`{ ${valuesParts.join(", ")} }`)}"`;
+		}
+
+		insertions.push({ position, text: insertText });
+	});
+
+	if (insertions.length === 0) return { code, changed: false, diagnostics };
+
+	insertions.sort((a, b) => b.position - a.position);
+	let result = code;
+	for (const { position, end = position, text } of insertions) {
+		result = result.slice(0, position) + text + result.slice(end);
+	}
+
+	return { code: result, changed: true, diagnostics };
+}
+
+/** Vue counterpart of jsxBailDiagnostic — template locations are already 1-based. */
+function vueBailDiagnostic(
+	filename: string,
+	el: any,
+	ctx: VueExtractContext,
+): ExtractionDiagnostic {
+	const { line, column } = (ctx.bailNode ?? el).loc.start;
+	return bailDiagnostic(ctx.bailCode ?? "unsupported-in-t", filename, line, column, el.tag);
+}
+
+/**
+ * Transform Svelte components to inject `id`, `message`, `values` and `components`
+ * on markup <T> elements — the Svelte counterpart of transformMsgProps:
+ *   <T>You have {count} <b>new</b> items</T>
+ * becomes
+ *   <T id="…" message={"You have {count} <0>new</0> items"} values={{ count }} components={[["b"]]}>…</T>
+ *
+ * Like Vue, static-only bodies are annotated too — the runtime cannot read the
+ * text of a children snippet. `message` is emitted as a JS string expression
+ * because `{` inside a quoted Svelte attribute starts an expression. Elements in
+ * the body become `components` entries (tag or component plus props) so the
+ * runtime can rebuild them around the translated inner text.
+ *
+ * Skips the same elements as transformMsgProps (message prop, plural/select mode,
+ * conditional/unsupported expressions). Only `T` imported from @vocoder/svelte (or a
+ * configured component / import source in `options`) is recognised.
+ * Skipped elements and parse failures are returned as `diagnostics`.
+ */
+export function transformSvelteT(
+	code: string,
+	filename = "",
+	options: ExtractorOptions = {},
+): TransformResult {
+	const diagnostics: ExtractionDiagnostic[] = [];
+	const recognizers = resolveRecognizers(options);
+	if (![...recognizers.importSources].some((source) => code.includes(source))) {
+		return { code, changed: false, diagnostics };
+	}
+
+	let component: ReturnType<typeof parseSvelteComponent>;
+	try {
+		component = parseSvelteComponent(code, filename || "component.svelte");
+	} catch (error) {
+		diagnostics.push(parseErrorDiagnostic(filename, error));
+		return { code, changed: false, diagnostics };
+	}
+
+	const { vocoderImports, tFunctionNames } = collectSvelteScriptBindings(
+		"component.svelte",
+		component.scripts,
+		recognizers,
+	);
+	const tComponentNames = new Set(vocoderImports.keys());
+	if (tComponentNames.size === 0 && tFunctionNames.size === 0) {
+		return { code, changed: false, diagnostics };
+	}
+
+	const insertions: Array<{ position: number; end?: number; text: string }> =
+		scriptTaggedTemplateRewrites(component.scripts, tFunctionNames);
+
+	walkSvelteElements(component.fragment, (el) => {
+		if (el.type !== "Component" || !tComponentNames.has(el.name)) return;
+
+		const props = getSvelteProps(el);
+		if (props.some((prop) => prop.name === "message")) return;
+		if (pluralSelectICUFromProps(props)) return;
+
+		const ctx: SvelteExtractContext = {
+			code,
+			elementCount: 0,
+			complexCount: 0,
+			namedVars: new Set(),
+			complexExprs: [],
+			elements: [],
+			bail: false,
+			tComponentNames,
+		};
+		const template = extractSvelteMarkupText(el.fragment.nodes, ctx).trim();
+		if (ctx.bail) {
+			diagnostics.push(svelteBailDiagnostic(filename, code, el, ctx));
+			return;
+		}
+		if (!template) return;
+
+		const position = getSvelteOpeningTagEnd(code, el);
+		if (position === -1 || code[position - 1] === "/") return;
+
+		const id = getSvelteStringAttribute(el, "id")?.trim();
+		const context = getSvelteStringAttribute(el, "context");
+
+		let insertText = "";
+		if (!id) insertText += ` id="${generateMessageHash(template, context, recognizers.hash)}"`;
+		insertText += ` message={${JSON.stringify(template)}}`;
+
+		const valuesParts: string[] = [
+			...ctx.namedVars,
+			...ctx.complexExprs.map(({ key, source }) => `${key}: ${source}`),
+		];
+		if (valuesParts.length > 0) {
+			insertText += ` values={{ ${valuesParts.join(", ")} }}`;
+		}
+
+		if (ctx.elements.length > 0 && !props.some((prop) => prop.name === "components")) {
+			const slots = ctx.elements.map((child) => svelteElementToComponentSlot(code, child));
+			insertText += ` components={[${slots.join(", ")}]}`;
+		}
+
+		insertions.push({ position, text: insertText });
+	});
+
+	if (insertions.length === 0) return { code, changed: false, diagnostics };
+
+	insertions.sort((a, b) => b.position - a.position);
+	let result = code;
+	for (const { position, end = position, text } of insertions) {
+		result = result.slice(0, position) + text + result.slice(end);
+	}
+
+	return { code: result, changed: true, diagnostics };
+}
+
+/** Svelte counterpart of jsxBailDiagnostic — Svelte nodes carry offsets only. */
+function svelteBailDiagnostic(
+	filename: string,
+	content: string,
+	el: any,
+	ctx: SvelteExtractContext,
+): ExtractionDiagnostic {
+	const { line, column } = positionAt(content, (ctx.bailNode ?? el).start);
+	return bailDiagnostic(ctx.bailCode ?? "unsupported-in-t", filename, line, column, el.name);
+}
+
+/**
+ * Report translation problems in a JS/TS module — the checks behind `vocoder lint`:
+ *
+ * - hardcoded-string  — JSX text or a user-facing prop (placeholder, alt, title,
+ *                       aria-label) outside <T> / t(); the strings `vocoder wrap` would wrap
+ * - untranslatable-t  — a <T> body the extractor can't turn into a message
+ *                       (conditional/logical expression, nested <T>)
+ * - dynamic-t         — t() or msg() called with a variable or an interpolated template
+ *                       literal (either branch of a conditional argument counts), or a
+ *                       tagged t`…` with a non-literal conditional inside, so no source
+ *                       text can be extracted
+ * - parse-error       — the file doesn't parse
+ *
+ * Suppress with a comment on the line before — a line or block comment, so
+ * JSX children can use an expression container comment:
+ *   // vocoder-ignore-next-line
+ *   // vocoder-ignore-next-line dynamic-t, hardcoded-string
+ * A `vocoder-ignore-file` comment anywhere in the file skips it entirely
+ * (or, followed by rule names, just those rules).
+ *
+ * Pure function like extractFromContent, and takes the same `options`. Vue and
+ * Svelte components aren't linted yet — returns [] for them.
+ */
+export function lintContent(
+	filename: string,
+	code: string,
+	options: ExtractorOptions = {},
+): LintDiagnostic[] {
+	if (filename.endsWith(".vue") || filename.endsWith(".svelte")) return [];
+
+	let ast: any;
+	try {
+		ast = parse(code, {
+			sourceType: "module",
+			plugins: ["jsx", "typescript"],
+		});
+	} catch (error) {
+		const { line, column, message } = parseErrorDiagnostic(filename, error);
+		return [{ file: filename, line, column, rule: "parse-error", message }];
+	}
+
+	const ignores = collectIgnoreComments(ast.comments ?? []);
+	const diagnostics: LintDiagnostic[] = [];
+	const report = (rule: LintRule, offset: number, message: string) => {
+		const { line, column } = positionAt(code, offset);
+		if (isIgnored(ignores, line, rule)) return;
+		diagnostics.push({ file: filename, line, column, rule, message });
+	};
+
+	const recognizers = resolveRecognizers(options);
+	const bindings: VocoderBindings = {
+		vocoderImports: new Map(),
+		tFunctionNames: new Set(),
+		descriptorFunctions: new Map(),
+	};
+	const { vocoderImports, tFunctionNames, descriptorFunctions } = bindings;
+
+	const isDescriptorCall = (node: any) =>
+		node?.type === "CallExpression" && descriptorFunctions.has(memberName(node.callee) ?? "");
+
+	// t(labels.save) where labels is declared in this file with msg() / defineMessages(),
+	// directly or as an object / array of msg() calls.
+	const isDescriptorReference = (path: any, node: any) => {
+		let root = node;
+		while (root.type === "MemberExpression") root = root.object;
+		if (root.type !== "Identifier") return false;
+
+		const declarator = path.scope.getBinding(root.name)?.path.node;
+		const init = declarator?.type === "VariableDeclarator" ? declarator.init : null;
+		if (isDescriptorCall(init)) return true;
+		const entries =
+			init?.type === "ObjectExpression"
+				? init.properties.map((prop: any) => prop.value)
+				: init?.type === "ArrayExpression"
+					? init.elements
+					: [];
+		return entries.length > 0 && entries.every(isDescriptorCall);
+	};
+
+	const isInsideT = (path: any) =>
+		Boolean(
+			path.findParent(
+				(parent: any) =>
+					parent.isJSXElement() &&
+					vocoderImports.has(memberName(parent.node.openingElement.name) ?? ""),
+			),
+		);
+
+	const lintChildren = (path: any, elementName: string | null) => {
+		if (elementName && isNonUiElement(elementName)) return;
+		if (isInsideT(path)) return;
+
+		for (const run of textRuns(path.node.children)) {
+			const first = run[0];
+			const last = run[run.length - 1];
+			const source = code.slice(first.start, last.end);
+			const start = first.start + (source.length - source.trimStart().length);
+			const text = source.trim().replace(/\s+/g, " ");
+			report("hardcoded-string", start, `Hard-coded string "${text}" — wrap it in <T>`);
+		}
+	};
+
+	traverse(ast, {
+		ImportDeclaration(path: any) {
+			collectImportBindings(path.node, recognizers, bindings);
+		},
+
+		VariableDeclarator(path: any) {
+			collectUseVocoderBindings(path.node, recognizers, bindings);
+		},
+
+		CallExpression(path: any) {
+			const calleeName = memberName(path.node.callee);
+			if (!calleeName) return;
+			if (!tFunctionNames.has(calleeName) && descriptorFunctions.get(calleeName) !== "msg") {
+				return;
+			}
+
+			const firstArg = path.node.arguments[0];
+			if (!firstArg) return;
+
+			for (const arg of messageBranches(firstArg)) {
+				if (arg.type === "StringLiteral") continue;
+				if (arg.type === "TemplateLiteral" && arg.expressions.length === 0) continue;
+				if (isDescriptorReference(path, arg)) continue;
+
+				report(
+					"dynamic-t",
+					arg.start,
+					arg.type === "TemplateLiteral"
+						? `Interpolated template literal in ${calleeName}() — use placeholders: ${calleeName}("Hello {name}", { name })`
+						: `Dynamic argument to ${calleeName}() — only string literals can be extracted for translation`,
+				);
+			}
+		},
+
+		TaggedTemplateExpression(path: any) {
+			const tagName = memberName(path.node.tag);
+			if (!tagName || !tFunctionNames.has(tagName)) return;
+
+			const { ctx } = taggedTemplateMessage(path.node);
+			if (!ctx.bail) return;
+			report(
+				"dynamic-t",
+				ctx.bailNode.start,
+				`Conditional/logical expression in ${tagName}\`…\` — the message can't be extracted; translate each branch separately`,
+			);
+		},
+
+		JSXElement(path: any) {
+			const opening = path.node.openingElement;
+			const tagName = memberName(opening.name);
+
+			if (!tagName || !vocoderImports.has(tagName)) {
+				lintChildren(path, jsxElementName(path.node));
+				return;
+			}
+
+			// Same conditions as _extractFromScript: message and plural/select props skip the body.
+			if (getStringAttribute(opening.attributes, "message")) return;
+			if (extractPluralSelectICU(opening.attributes)) return;
+
+			const ctx: ExtractContext = {
+				elementCount: 0,
+				complexCount: 0,
+				namedVars: new Set(),
+				complexExprs: [],
+				bail: false,
+				tComponentNames: new Set(vocoderImports.keys()),
+			};
+			extractTextContentFromNodes(path.node.children, ctx);
+			if (!ctx.bail) return;
+
+			const { message, suggestion } = jsxBailDiagnostic(filename, path.node, ctx, tagName);
+			report(
+				"untranslatable-t",
+				(ctx.bailNode ?? path.node).start,
+				`${message} — ${suggestion}`,
+			);
+		},
+
+		JSXFragment(path: any) {
+			lintChildren(path, null);
+		},
+
+		JSXAttribute(path: any) {
+			const { name, value } = path.node;
+			if (value?.type !== "StringLiteral" || !HAS_LETTER.test(value.value)) return;
+
+			const propName: string =
+				name.type === "JSXNamespacedName"
+					? `${name.namespace.name}-${name.name.name}`
+					: name.name;
+			if (propNameToUiRole(propName) === "unknown" || isInsideT(path)) return;
+
+			report(
+				"hardcoded-string",
+				value.start,
+				`Hard-coded ${propName} "${value.value}" — wrap it in t()`,
+			);
+		},
+	});
+
+	return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Rules suppressed per line by `vocoder-ignore-next-line` comments; line 0 holds
+ * `vocoder-ignore-file`. An empty list suppresses every rule.
+ */
+function collectIgnoreComments(comments: any[]): Map<number, string[]> {
+	const ignores = new Map<number, string[]>();
+	for (const comment of comments) {
+		const match = /^vocoder-ignore-(next-line|file)\b(.*)$/.exec(comment.value.trim());
+		if (!match) continue;
+		const line = match[1] === "file" ? 0 : comment.loc.end.line + 1;
+		const rules = match[2]!.split(/[\s,]+/).filter(Boolean);
+		const existing = ignores.get(line);
+		if (existing?.length === 0) continue;
+		ignores.set(line, rules.length === 0 ? [] : [...(existing ?? []), ...rules]);
+	}
+	return ignores;
+}
+
+function isIgnored(ignores: Map<number, string[]>, line: number, rule: LintRule): boolean {
+	return [0, line].some((key) => {
+		const rules = ignores.get(key);
+		return rules !== undefined && (rules.length === 0 || rules.includes(rule));
+	});
 }
 
 /**
@@ -418,319 +1161,437 @@ export function transformMsgProps(code: string): TransformResult {
  *
  * Handles:
  *   - <T message="…"> JSX components (and ICU plural/select/ordinal props)
- *   - t(text, values, options) function calls (options at argument[2])
+ *   - t(text, values, options) function calls (options at argument[2]); each
+ *     branch of a `cond ? "A" : "B"` text argument is its own message
  *   - useVocoder() destructured t function
+ *   - msg(text, options) and defineMessages({ key: text | { message, context, id } })
+ *   - Vue single-file components (.vue) — template <T> and script/template t() calls
+ *   - Svelte components (.svelte) — markup <T> and script/markup t() / $t() calls
  * Keys are content-hash based (generateMessageHash) — stable across files and machines.
+ * Parse failures and <T> bodies that can't be extracted come back as `diagnostics`.
  */
 export function extractFromContent(
 	filename: string,
 	content: string,
-): ExtractedString[] {
-	return _extractFromContent(filename, content);
+	options: ExtractorOptions = {},
+): ExtractionResult {
+	return _extractFromContent(filename, content, resolveRecognizers(options));
+}
+
+/**
+ * Files matching the include globs (absolute paths, sorted), skipping
+ * node_modules and build output plus any exclude globs.
+ */
+export async function findSourceFiles(
+	pattern: string | string[],
+	projectRoot: string = process.cwd(),
+	excludePattern?: string | string[],
+): Promise<string[]> {
+	const includePatterns = Array.isArray(pattern) ? pattern : [pattern];
+
+	const defaultIgnore = [
+		"**/node_modules/**",
+		"**/.next/**",
+		"**/dist/**",
+		"**/build/**",
+	];
+
+	const ignorePatterns = excludePattern
+		? [
+				...defaultIgnore,
+				...(Array.isArray(excludePattern)
+					? excludePattern
+					: [excludePattern]),
+			]
+		: defaultIgnore;
+
+	const allFiles = new Set<string>();
+
+	for (const includePattern of includePatterns) {
+		const files = await glob(includePattern, {
+			cwd: projectRoot,
+			absolute: true,
+			ignore: ignorePatterns,
+		});
+
+		for (const file of files) allFiles.add(file);
+	}
+
+	return Array.from(allFiles).sort();
 }
 
 export class StringExtractor {
+	private readonly recognizers: Recognizers;
+
+	constructor(options: ExtractorOptions = {}) {
+		this.recognizers = resolveRecognizers(options);
+	}
+
 	async extractFromProject(
 		pattern: string | string[],
 		projectRoot: string = process.cwd(),
 		excludePattern?: string | string[],
-	): Promise<ExtractedString[]> {
-		const includePatterns = Array.isArray(pattern) ? pattern : [pattern];
-
-		const defaultIgnore = [
-			"**/node_modules/**",
-			"**/.next/**",
-			"**/dist/**",
-			"**/build/**",
-		];
-
-		const ignorePatterns = excludePattern
-			? [
-					...defaultIgnore,
-					...(Array.isArray(excludePattern)
-						? excludePattern
-						: [excludePattern]),
-				]
-			: defaultIgnore;
-
-		const allFiles = new Set<string>();
-
-		for (const includePattern of includePatterns) {
-			const files = await glob(includePattern, {
-				cwd: projectRoot,
-				absolute: true,
-				ignore: ignorePatterns,
-			});
-
-			for (const file of files) allFiles.add(file);
-		}
+	): Promise<ExtractionResult> {
+		const sortedFiles = await findSourceFiles(pattern, projectRoot, excludePattern);
 
 		const allStrings: ExtractedString[] = [];
-		const sortedFiles = Array.from(allFiles).sort();
+		const diagnostics: ExtractionDiagnostic[] = [];
 
 		for (const file of sortedFiles) {
+			const relPath = pathRelative(projectRoot, file).split("\\").join("/");
+			let code: string;
 			try {
-				const code = readFileSync(file, "utf-8");
-				const relPath = pathRelative(projectRoot, file).split("\\").join("/");
-				const strings = _extractFromContent(relPath, code);
-				allStrings.push(...strings);
+				code = readFileSync(file, "utf-8");
 			} catch (error) {
-				console.warn(`Warning: Failed to extract from ${file}:`, error);
+				diagnostics.push({
+					code: "read-error",
+					severity: "error",
+					file: relPath,
+					line: 1,
+					column: 1,
+					message: `Failed to read: ${error instanceof Error ? error.message : String(error)}`,
+				});
+				continue;
 			}
+			const result = _extractFromContent(relPath, code, this.recognizers);
+			allStrings.push(...result.strings);
+			diagnostics.push(...result.diagnostics);
 		}
 
-		return deduplicateStrings(allStrings);
+		const deduped = deduplicateStrings(allStrings);
+		return { strings: deduped.strings, diagnostics: [...diagnostics, ...deduped.diagnostics] };
 	}
 }
 
 // ---------------------------------------------------------------------------
-// uiRole detection
+// Module-level implementation — shared by extractFromContent() and StringExtractor
 // ---------------------------------------------------------------------------
 
+function _extractFromContent(
+	filePath: string,
+	content: string,
+	recognizers: Recognizers = DEFAULT_RECOGNIZERS,
+): ExtractionResult {
+	if (filePath.endsWith(".vue")) return _extractFromVue(filePath, content, recognizers);
+	if (filePath.endsWith(".svelte")) {
+		return _extractFromSvelte(filePath, content, recognizers);
+	}
+	const { strings, diagnostics } = _extractFromScript(
+		filePath,
+		content,
+		1,
+		undefined,
+		recognizers,
+	);
+	return { strings, diagnostics };
+}
+
 /**
- * Map a JSX prop name to a uiRole enum value.
- * Called when <T> (or t()) is used as the value of a JSX attribute.
+ * Bindings that identify Vocoder calls in a module: local names of the T
+ * component and of the t function (imported or destructured from useVocoder()).
+ * Member forms are keyed by their dotted name — `V.T`, `V.t`, `i18n.t`.
  */
-function propNameToUiRole(propName: string): string {
-	switch (propName) {
-		case "placeholder": return "input_placeholder";
-		case "aria-label":
-		case "aria-description":
-		case "label": return "input_label";
-		case "alt": return "image_alt";
-		case "title": return "tooltip";
-		default: return "unknown";
-	}
+interface VocoderBindings {
+	vocoderImports: Map<string, string>;
+	tFunctionNames: Set<string>;
+	/** Local names of msg() and defineMessages(), mapped to which one they are. */
+	descriptorFunctions: Map<string, DescriptorFunction>;
 }
 
 /**
- * Map a native HTML element or custom component name to a uiRole.
- * Handles native elements exactly, and falls back to name heuristics for
- * custom components.
+ * Record the bindings an import declaration introduces:
+ *   import { T, t as tr } from "@vocoder/react"  → T, tr
+ *   import * as V from "@vocoder/react"          → V.T, V.t, V.msg, V.defineMessages
+ *   import { msg } from "@vocoder/react"         → msg
+ *   import { i18n } from "@acme/ui"              → i18n.t  (any other import from a source)
  */
-function elementNameToUiRole(name: string): string {
-	if (!name) return "unknown";
-	switch (name.toLowerCase()) {
-		case "button": return "button_label";
-		case "h1": case "h2": case "h3": case "h4": case "h5": case "h6": return "heading";
-		case "label": return "input_label";
-		case "th": return "table_header";
-		case "option": return "option_label";
-		case "title": return "page_title";
-		case "p": case "li": case "dd": return "body_text";
-		// Custom component name heuristics
-		default: {
-			const lower = name.toLowerCase();
-			if (/button|btn|submit|cta/.test(lower)) return "button_label";
-			if (/heading|headline/.test(lower)) return "heading";
-			if (/label/.test(lower)) return "input_label";
-			if (/tooltip|hint|popover/.test(lower)) return "tooltip";
-			if (/badge|chip|tag|pill/.test(lower)) return "badge";
-			if (/toast|snackbar|notification/.test(lower)) return "toast";
-			if (/navitem|menuitem/.test(lower)) return "nav_item";
-			return "unknown";
+function collectImportBindings(
+	node: any,
+	recognizers: Recognizers,
+	bindings: VocoderBindings,
+): void {
+	const source: string = node.source.value;
+	if (!recognizers.importSources.has(source) || node.importKind === "type") return;
+
+	for (const spec of node.specifiers) {
+		if (spec.type === "ImportNamespaceSpecifier") {
+			addMemberBindings(spec.local.name, recognizers, bindings);
+			continue;
+		}
+		if (spec.type !== "ImportSpecifier" || spec.imported.type !== "Identifier") continue;
+
+		const imported: string = spec.imported.name;
+		const local: string = spec.local.name;
+		if (recognizers.tComponents.has(imported)) {
+			bindings.vocoderImports.set(local, "T");
+		} else if (DESCRIPTOR_FUNCTIONS.has(imported)) {
+			bindings.descriptorFunctions.set(local, imported as DescriptorFunction);
+		} else if (recognizers.tFunctions.has(imported)) {
+			bindings.tFunctionNames.add(local);
+			// @vocoder/svelte exports t as a store — called via its $t auto-subscription
+			if (source === "@vocoder/svelte") {
+				bindings.tFunctionNames.add(`$${local}`);
+			}
+		} else {
+			addMemberBindings(local, recognizers, bindings);
 		}
 	}
 }
 
 /**
- * Detect the uiRole for a <T> JSXElement or t() CallExpression from its
- * position in the JSX tree.
- *
- * Detection tiers (in priority order):
- *  1. Prop context  — T is the value of a JSX attribute (placeholder, alt, etc.)
- *  2. Native parent — T is a child of a known HTML element
- *  3. Component heuristics — parent is a custom component with a recognisable name
- *  4. unknown — fallback
+ * Record t functions taken from useVocoder():
+ *   const { t } = useVocoder()      → t
+ *   const i18n = useVocoder()       → i18n.t
  */
-function detectUiRole(path: any): string {
-	const parent = path.parent;
-	if (!parent) return "unknown";
-
-	// Tier 1: prop context — <input placeholder={<T>…</T>} />
-	// <T> JSXElement is wrapped in a JSXExpressionContainer which is a JSXAttribute
-	if (parent.type === "JSXExpressionContainer") {
-		const attrNode = path.parentPath?.parent;
-		if (attrNode?.type === "JSXAttribute") {
-			const propName: string =
-				attrNode.name?.type === "JSXNamespacedName"
-					? `${attrNode.name.namespace.name}-${attrNode.name.name.name}`
-					: (attrNode.name?.name ?? "");
-			return propNameToUiRole(propName);
-		}
+function collectUseVocoderBindings(
+	declarator: any,
+	recognizers: Recognizers,
+	bindings: VocoderBindings,
+): void {
+	const init = declarator.init;
+	if (
+		init?.type !== "CallExpression" ||
+		init.callee.type !== "Identifier" ||
+		init.callee.name !== "useVocoder"
+	) {
+		return;
 	}
 
-	// Tier 2 & 3: parent JSX element
-	if (parent.type === "JSXElement") {
-		const opening = parent.openingElement;
-		const tagName: string =
-			opening?.name?.type === "JSXMemberExpression"
-				? "unknown"
-				: (opening?.name?.name ?? "");
-		return elementNameToUiRole(tagName);
+	if (declarator.id.type === "Identifier") {
+		addMemberBindings(declarator.id.name, recognizers, bindings);
+		return;
 	}
+	if (declarator.id.type !== "ObjectPattern") return;
+
+	for (const prop of declarator.id.properties) {
+		if (
+			prop.type === "ObjectProperty" &&
+			prop.key.type === "Identifier" &&
+			recognizers.tFunctions.has(prop.key.name)
+		) {
+			bindings.tFunctionNames.add(
+				prop.value.type === "Identifier" ? prop.value.name : prop.key.name,
+			);
+		}
+	}
+}
 
-	return "unknown";
+function addMemberBindings(
+	object: string,
+	recognizers: Recognizers,
+	bindings: VocoderBindings,
+): void {
+	for (const name of recognizers.tComponents) {
+		bindings.vocoderImports.set(`${object}.${name}`, "T");
+	}
+	for (const name of recognizers.tFunctions) {
+		bindings.tFunctionNames.add(`${object}.${name}`);
+	}
+	for (const name of DESCRIPTOR_FUNCTIONS) {
+		bindings.descriptorFunctions.set(`${object}.${name}`, name as DescriptorFunction);
+	}
 }
 
-// ---------------------------------------------------------------------------
-// Module-level implementation — shared by extractFromContent() and StringExtractor
-// ---------------------------------------------------------------------------
+/**
+ * The name a callee or JSX tag is matched against VocoderBindings by:
+ * `t`, `V.t`, `<V.T>`. Computed members and `this.t` have none.
+ */
+function memberName(node: any): string | null {
+	if (node.type === "Identifier" || node.type === "JSXIdentifier") return node.name;
+	if (
+		(node.type === "MemberExpression" && !node.computed) ||
+		node.type === "JSXMemberExpression"
+	) {
+		const object = memberName(node.object);
+		const property =
+			node.property.type === "Identifier" || node.property.type === "JSXIdentifier"
+				? node.property.name
+				: null;
+		return object && property ? `${object}.${property}` : null;
+	}
+	return null;
+}
 
-function _extractFromContent(
+/**
+ * Extract from a JS/TS module. `startLine` offsets reported lines when the module
+ * is embedded in another file (e.g. a Vue <script> block); passing `bindings`
+ * shares and accumulates imports across several blocks of the same file;
+ * `recognizers` names the T components, t functions and sources to look for.
+ * Parse failures and <T> bodies that bail are returned as diagnostics.
+ */
+function _extractFromScript(
 	filePath: string,
 	content: string,
-): ExtractedString[] {
+	startLine = 1,
+	bindings: VocoderBindings = {
+		vocoderImports: new Map(),
+		tFunctionNames: new Set(),
+		descriptorFunctions: new Map(),
+	},
+	recognizers: Recognizers = DEFAULT_RECOGNIZERS,
+	startColumn = 0,
+): VocoderBindings & ExtractionResult {
 		const strings: ExtractedString[] = [];
+		const diagnostics: ExtractionDiagnostic[] = [];
+		const { vocoderImports, tFunctionNames, descriptorFunctions } = bindings;
+		let notes: NoteComment[] = [];
+
+		// One t() / msg() message: `text` is the source text, `optionsNode` the
+		// { context, formality, id, note, maxLength } object, `locNode` the reported line.
+		const pushMessage = (
+			path: any,
+			text: string | null,
+			optionsNode: any,
+			locNode: any = path.node,
+		) => {
+			if (!text || text.trim().length === 0) return;
+
+			let context: string | undefined;
+			let formality:
+				| "formal"
+				| "informal"
+				| "neutral"
+				| "auto"
+				| undefined;
+			let explicitKey: string | undefined;
+			let note: string | undefined;
+			let maxLength: number | undefined;
+
+			if (optionsNode && optionsNode.type === "ObjectExpression") {
+				optionsNode.properties.forEach((prop: any) => {
+					if (
+						prop.type === "ObjectProperty" &&
+						prop.key.type === "Identifier"
+					) {
+						if (
+							prop.key.name === "context" &&
+							prop.value.type === "StringLiteral"
+						) {
+							context = prop.value.value;
+						}
+						if (
+							prop.key.name === "formality" &&
+							prop.value.type === "StringLiteral"
+						) {
+							formality = prop.value.value as
+								| "formal"
+								| "informal"
+								| "neutral"
+								| "auto";
+						}
+						if (
+							prop.key.name === "id" &&
+							prop.value.type === "StringLiteral"
+						) {
+							explicitKey = prop.value.value.trim();
+						}
+						if (prop.key.name === "note") {
+							note = literalText(prop.value)?.trim() || undefined;
+						}
+						if (
+							prop.key.name === "maxLength" &&
+							prop.value.type === "NumericLiteral"
+						) {
+							maxLength = parseMaxLength(prop.value.value);
+						}
+					}
+				});
+			}
+
+			const line = locNode.loc?.start.line || 0;
+			const uiRole = detectUiRole(path);
+
+			strings.push({
+				...messageKey(text.trim(), context, explicitKey, recognizers.hash),
+				text: text.trim(),
+				file: filePath,
+				line,
+				column: (locNode.loc?.start.column ?? 0) + 1,
+				componentName: enclosingComponentName(path),
+				context,
+				formality,
+				uiRole: uiRole !== "unknown" ? uiRole : undefined,
+				note: note ?? leadingNote(notes, locNode),
+				maxLength,
+			});
+		};
 
 		try {
 			const ast = parse(content, {
 				sourceType: "module",
 				plugins: ["jsx", "typescript"],
+				startLine,
+				startColumn,
 			});
-
-			const vocoderImports = new Map<string, string>();
-			const tFunctionNames = new Set<string>();
+			notes = collectNoteComments(ast.comments ?? []);
 
 			traverse(ast, {
 				ImportDeclaration: (path: any) => {
-					const source = path.node.source.value;
-
-					if (source === "@vocoder/react") {
-						path.node.specifiers.forEach((spec: any) => {
-							if (spec.type === "ImportSpecifier") {
-								const imported =
-									spec.imported.type === "Identifier"
-										? spec.imported.name
-										: null;
-								const local = spec.local.name;
-
-								if (imported === "T") {
-									vocoderImports.set(local, "T");
-								}
-								if (imported === "t") {
-									tFunctionNames.add(local);
-								}
-							}
-						});
-					}
+					collectImportBindings(path.node, recognizers, bindings);
 				},
 
 				VariableDeclarator: (path: any) => {
-					const init = path.node.init;
-
-					if (
-						init &&
-						init.type === "CallExpression" &&
-						init.callee.type === "Identifier" &&
-						init.callee.name === "useVocoder" &&
-						path.node.id.type === "ObjectPattern"
-					) {
-						path.node.id.properties.forEach((prop: any) => {
-							if (
-								prop.type === "ObjectProperty" &&
-								prop.key.type === "Identifier" &&
-								prop.key.name === "t"
-							) {
-								const localName =
-									prop.value.type === "Identifier" ? prop.value.name : "t";
-								tFunctionNames.add(localName);
-							}
-						});
-					}
+					collectUseVocoderBindings(path.node, recognizers, bindings);
 				},
 
 				CallExpression: (path: any) => {
-					const callee = path.node.callee;
-
-					const isTFunction =
-						callee.type === "Identifier" && tFunctionNames.has(callee.name);
-
-					if (!isTFunction) return;
-
-					const firstArg = path.node.arguments[0];
-					if (!firstArg) return;
-
-					let text: string | null = null;
-
-					if (firstArg.type === "StringLiteral") {
-						text = firstArg.value;
-					} else if (firstArg.type === "TemplateLiteral") {
-						text = extractTemplateText(firstArg);
+					const calleeName = memberName(path.node.callee);
+					if (!calleeName) return;
+					const args = path.node.arguments;
+
+					const descriptorFunction = descriptorFunctions.get(calleeName);
+					if (descriptorFunction === "msg") {
+						// msg(text, { context, id })
+						for (const arg of messageBranches(args[0])) {
+							pushMessage(path, literalText(arg), args[1]);
+						}
+						return;
+					}
+					if (descriptorFunction === "defineMessages") {
+						// defineMessages({ key: text | { message, context, id } })
+						if (args[0]?.type !== "ObjectExpression") return;
+						for (const prop of args[0].properties) {
+							if (prop.type !== "ObjectProperty") continue;
+							if (prop.value.type !== "ObjectExpression") {
+								pushMessage(path, literalText(prop.value), undefined, prop);
+								continue;
+							}
+							const messageProp = prop.value.properties.find(
+								(entry: any) =>
+									entry.type === "ObjectProperty" &&
+									entry.key.type === "Identifier" &&
+									entry.key.name === "message",
+							);
+							if (messageProp) {
+								pushMessage(path, literalText(messageProp.value), prop.value, prop);
+							}
+						}
+						return;
 					}
 
-					if (!text || text.trim().length === 0) return;
+					if (!tFunctionNames.has(calleeName)) return;
 
 					// arguments[1] = values, arguments[2] = options { context, formality, id }
-					const optionsArg = path.node.arguments[2];
-					let context: string | undefined;
-					let formality:
-						| "formal"
-						| "informal"
-						| "neutral"
-						| "auto"
-						| undefined;
-					let explicitKey: string | undefined;
-
-					if (optionsArg && optionsArg.type === "ObjectExpression") {
-						optionsArg.properties.forEach((prop: any) => {
-							if (
-								prop.type === "ObjectProperty" &&
-								prop.key.type === "Identifier"
-							) {
-								if (
-									prop.key.name === "context" &&
-									prop.value.type === "StringLiteral"
-								) {
-									context = prop.value.value;
-								}
-								if (
-									prop.key.name === "formality" &&
-									prop.value.type === "StringLiteral"
-								) {
-									formality = prop.value.value as
-										| "formal"
-										| "informal"
-										| "neutral"
-										| "auto";
-								}
-								if (
-									prop.key.name === "id" &&
-									prop.value.type === "StringLiteral"
-								) {
-									explicitKey = prop.value.value.trim();
-								}
-							}
-						});
+					for (const arg of messageBranches(args[0])) {
+						pushMessage(path, literalText(arg), args[2]);
 					}
+				},
 
-					const line = path.node.loc?.start.line || 0;
-					const key =
-						explicitKey && explicitKey.length > 0
-							? explicitKey
-							: generateMessageHash(text.trim(), context);
-					const uiRole = detectUiRole(path);
+				TaggedTemplateExpression: (path: any) => {
+					const tagName = memberName(path.node.tag);
+					if (!tagName || !tFunctionNames.has(tagName)) return;
 
-					strings.push({
-						key,
-						text: text.trim(),
-						file: filePath,
-						line,
-						context,
-						formality,
-						uiRole: uiRole !== "unknown" ? uiRole : undefined,
-					});
+					// t`Hello ${name}` — same message as t("Hello {name}", { name })
+					const { text, ctx } = taggedTemplateMessage(path.node);
+					if (ctx.bail) return;
+					pushMessage(path, text, undefined);
 				},
 
 				JSXElement: (path: any) => {
 					const opening = path.node.openingElement;
-					const tagName =
-						opening.name.type === "JSXIdentifier" ? opening.name.name : null;
-
-					if (!tagName) return;
+					const tagName = memberName(opening.name);
 
-					const isTranslationComponent = vocoderImports.has(tagName);
-					if (!isTranslationComponent) return;
+					if (!tagName || !vocoderImports.has(tagName)) return;
 
 					const msgAttribute =
 						getStringAttribute(opening.attributes, "message");
@@ -754,7 +1615,12 @@ function _extractFromContent(
 								tComponentNames: new Set(vocoderImports.keys()),
 							};
 							text = extractTextContentFromNodes(path.node.children, extractCtx);
-							if (extractCtx.bail) return;
+							if (extractCtx.bail) {
+								diagnostics.push(
+									jsxBailDiagnostic(filePath, path.node, extractCtx, tagName),
+								);
+								return;
+							}
 						}
 					}
 
@@ -767,33 +1633,353 @@ function _extractFromContent(
 						"formality",
 					) as "formal" | "informal" | "neutral" | "auto" | undefined;
 					const line = path.node.loc?.start.line || 0;
-					const key =
-						id && id.trim().length > 0
-							? id.trim()
-							: generateMessageHash(text.trim(), context);
 					const uiRole = detectUiRole(path);
+					const note =
+						getStringAttribute(opening.attributes, "note") ??
+						getStringAttribute(opening.attributes, "description");
 
 					strings.push({
-						key,
+						...messageKey(text.trim(), context, id, recognizers.hash),
 						text: text.trim(),
 						file: filePath,
 						line,
+						column: (path.node.loc?.start.column ?? 0) + 1,
+						componentName: enclosingComponentName(path),
 						context,
 						formality,
 						uiRole: uiRole !== "unknown" ? uiRole : undefined,
+						note: note?.trim() || leadingNote(notes, path.node),
+						maxLength: parseMaxLength(getNumberAttribute(opening.attributes, "maxLength")),
 					});
 				},
 			});
 		} catch (error) {
-			throw new Error(
-				`Failed to parse ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
-			);
+			diagnostics.push(parseErrorDiagnostic(filePath, error));
+		}
+
+		return { strings, diagnostics, vocoderImports, tFunctionNames, descriptorFunctions };
+}
+
+function collectVueScriptBindings(
+	filePath: string,
+	scripts: Array<{ content: string; startLine: number }>,
+	recognizers: Recognizers = DEFAULT_RECOGNIZERS,
+): VocoderBindings & ExtractionResult {
+	// T is registered globally by createVocoder, so templates may use it without an import.
+	const bindings: VocoderBindings = {
+		vocoderImports: new Map([["T", "T"]]),
+		tFunctionNames: new Set(),
+		descriptorFunctions: new Map(),
+	};
+	const strings: ExtractedString[] = [];
+	const diagnostics: ExtractionDiagnostic[] = [];
+	for (const script of scripts) {
+		const result = _extractFromScript(
+			filePath,
+			script.content,
+			script.startLine,
+			bindings,
+			recognizers,
+		);
+		strings.push(...result.strings);
+		diagnostics.push(...result.diagnostics);
+	}
+	return { ...bindings, strings, diagnostics };
+}
+
+/**
+ * Extract from a Vue single-file component:
+ *   - <script> / <script setup> blocks — same rules as JS/TS modules
+ *   - template <T> elements — message/plural/select props or children ({{ count }} → {count})
+ *   - t() calls inside template interpolations and directive expressions
+ */
+function _extractFromVue(
+	filePath: string,
+	content: string,
+	recognizers: Recognizers = DEFAULT_RECOGNIZERS,
+): ExtractionResult {
+	let sfc: ReturnType<typeof parseVueSFC>;
+	try {
+		sfc = parseVueSFC(content, filePath);
+	} catch (error) {
+		return { strings: [], diagnostics: [parseErrorDiagnostic(filePath, error)] };
+	}
+
+	const { strings, diagnostics, vocoderImports, tFunctionNames } =
+		collectVueScriptBindings(filePath, sfc.scripts, recognizers);
+	const componentName = componentFileName(filePath);
+	if (!sfc.template) return { strings: withComponentName(strings, componentName), diagnostics };
+
+	const tComponentNames = new Set(vocoderImports.keys());
+
+	// t() inside a template expression, e.g. {{ t('Save') }} or :placeholder="t('Search')".
+	const extractExpression = (expression: any, uiRole: string) => {
+		const { line, column } = expression.loc.start;
+		strings.push(
+			..._extractFromExpression(
+				filePath,
+				expression.content,
+				{ line, column },
+				tFunctionNames,
+				uiRole,
+				recognizers,
+			),
+		);
+	};
+
+	const visitExpressions = (node: any) => {
+		const role = node.tag ? elementNameToUiRole(node.tag) : "unknown";
+		for (const child of node.children ?? []) {
+			if (child.type === VUE_NODE.INTERPOLATION) {
+				extractExpression(child.content, role);
+			}
+		}
+		for (const prop of node.props ?? []) {
+			if (prop.type === VUE_NODE.DIRECTIVE && prop.exp) {
+				const propRole =
+					prop.name === "bind" && prop.arg?.isStatic
+						? propNameToUiRole(prop.arg.content)
+						: "unknown";
+				extractExpression(prop.exp, propRole);
+			}
+		}
+	};
+
+	visitExpressions(sfc.template);
+
+	walkVueElements(sfc.template, (el, parent) => {
+		visitExpressions(el);
+
+		if (!tComponentNames.has(el.tag)) return;
+
+		let text =
+			getVueStringAttribute(el, "message") ??
+			pluralSelectICUFromProps(getVueProps(el));
+		if (!text) {
+			const ctx: VueExtractContext = {
+				elementCount: 0,
+				complexCount: 0,
+				namedVars: new Set(),
+				complexExprs: [],
+				bail: false,
+				tComponentNames,
+			};
+			text = extractVueTemplateText(el.children, ctx);
+			if (ctx.bail) {
+				diagnostics.push(vueBailDiagnostic(filePath, el, ctx));
+				return;
+			}
+		}
+
+		if (!text || text.trim().length === 0) return;
+
+		const id = getVueStringAttribute(el, "id");
+		const context = getVueStringAttribute(el, "context");
+		const formality = getVueStringAttribute(el, "formality") as
+			| "formal"
+			| "informal"
+			| "neutral"
+			| "auto"
+			| undefined;
+		const uiRole = parent ? elementNameToUiRole(parent.tag) : "unknown";
+		const note =
+			getVueStringAttribute(el, "note") ?? getVueStringAttribute(el, "description");
+
+		strings.push({
+			...messageKey(text.trim(), context, id, recognizers.hash),
+			text: text.trim(),
+			file: filePath,
+			line: el.loc.start.line,
+			column: el.loc.start.column,
+			componentName,
+			context,
+			formality,
+			uiRole: uiRole !== "unknown" ? uiRole : undefined,
+			note: note?.trim() || undefined,
+			maxLength: parseMaxLength(getVueNumberAttribute(el, "maxLength")),
+		});
+	});
+
+	return { strings: withComponentName(strings, componentName), diagnostics };
+}
+
+function collectSvelteScriptBindings(
+	filePath: string,
+	scripts: Array<{ content: string; startLine: number }>,
+	recognizers: Recognizers = DEFAULT_RECOGNIZERS,
+): VocoderBindings & ExtractionResult {
+	const bindings: VocoderBindings = {
+		vocoderImports: new Map(),
+		tFunctionNames: new Set(),
+		descriptorFunctions: new Map(),
+	};
+	const strings: ExtractedString[] = [];
+	const diagnostics: ExtractionDiagnostic[] = [];
+	for (const script of scripts) {
+		const result = _extractFromScript(
+			filePath,
+			script.content,
+			script.startLine,
+			bindings,
+			recognizers,
+		);
+		strings.push(...result.strings);
+		diagnostics.push(...result.diagnostics);
+	}
+	return { ...bindings, strings, diagnostics };
+}
+
+/**
+ * Extract from a Svelte component:
+ *   - <script> / <script module> blocks — same rules as JS/TS modules
+ *   - markup <T> elements — message/plural/select props or children ({count} stays {count})
+ *   - t() / $t() calls inside markup expressions and attribute values
+ */
+function _extractFromSvelte(
+	filePath: string,
+	content: string,
+	recognizers: Recognizers = DEFAULT_RECOGNIZERS,
+): ExtractionResult {
+	let component: ReturnType<typeof parseSvelteComponent>;
+	try {
+		component = parseSvelteComponent(content, filePath);
+	} catch (error) {
+		return { strings: [], diagnostics: [parseErrorDiagnostic(filePath, error)] };
+	}
+
+	const { strings, diagnostics, vocoderImports, tFunctionNames } =
+		collectSvelteScriptBindings(filePath, component.scripts, recognizers);
+	const tComponentNames = new Set(vocoderImports.keys());
+	const componentName = componentFileName(filePath);
+
+	walkSvelteExpressions(component.fragment, (expr, parent, attribute) => {
+		const uiRole = attribute
+			? propNameToUiRole(attribute)
+			: parent
+				? elementNameToUiRole(parent.name)
+				: "unknown";
+		strings.push(
+			..._extractFromExpression(
+				filePath,
+				content.slice(expr.start, expr.end),
+				positionAt(content, expr.start),
+				tFunctionNames,
+				uiRole,
+				recognizers,
+			),
+		);
+	});
+
+	walkSvelteElements(component.fragment, (el, parent) => {
+		if (el.type !== "Component" || !tComponentNames.has(el.name)) return;
+
+		let text =
+			getSvelteStringAttribute(el, "message") ??
+			pluralSelectICUFromProps(getSvelteProps(el));
+		if (!text) {
+			const ctx: SvelteExtractContext = {
+				code: content,
+				elementCount: 0,
+				complexCount: 0,
+				namedVars: new Set(),
+				complexExprs: [],
+				elements: [],
+				bail: false,
+				tComponentNames,
+			};
+			text = extractSvelteMarkupText(el.fragment.nodes, ctx);
+			if (ctx.bail) {
+				diagnostics.push(svelteBailDiagnostic(filePath, content, el, ctx));
+				return;
+			}
 		}
 
-		return strings;
+		if (!text || text.trim().length === 0) return;
+
+		const id = getSvelteStringAttribute(el, "id");
+		const context = getSvelteStringAttribute(el, "context");
+		const formality = getSvelteStringAttribute(el, "formality") as
+			| "formal"
+			| "informal"
+			| "neutral"
+			| "auto"
+			| undefined;
+		const uiRole = parent ? elementNameToUiRole(parent.name) : "unknown";
+		const note =
+			getSvelteStringAttribute(el, "note") ?? getSvelteStringAttribute(el, "description");
+
+		const { line, column } = positionAt(content, el.start);
+
+		strings.push({
+			...messageKey(text.trim(), context, id, recognizers.hash),
+			text: text.trim(),
+			file: filePath,
+			line,
+			column,
+			componentName,
+			context,
+			formality,
+			uiRole: uiRole !== "unknown" ? uiRole : undefined,
+			note: note?.trim() || undefined,
+			maxLength: parseMaxLength(getSvelteNumberAttribute(el, "maxLength")),
+		});
+	});
+
+	return { strings: withComponentName(strings, componentName), diagnostics };
+}
+
+/**
+ * Extract t() calls from a single template expression (Vue interpolations and
+ * directives, Svelte markup expressions). The expression is parsed on its own;
+ * parse failures (v-for aliases, statement lists) are expected and dropped.
+ */
+function _extractFromExpression(
+	filePath: string,
+	source: string,
+	start: { line: number; column: number },
+	tFunctionNames: Set<string>,
+	uiRole: string,
+	recognizers: Recognizers,
+): ExtractedString[] {
+	if (![...tFunctionNames].some((name) => source.includes(name))) return [];
+	// `start` is where the source begins; the parser starts one column earlier for the `(`.
+	const found = _extractFromScript(
+		filePath,
+		`(${source})`,
+		start.line,
+		{
+			vocoderImports: new Map(),
+			tFunctionNames: new Set(tFunctionNames),
+			descriptorFunctions: new Map(),
+		},
+		recognizers,
+		Math.max(0, start.column - 2),
+	).strings;
+	for (const str of found) {
+		if (!str.uiRole && uiRole !== "unknown") str.uiRole = uiRole;
+	}
+	return found;
 }
 
 function extractPluralSelectICU(attributes: any[]): string | null {
+	return pluralSelectICUFromProps(
+		attributes
+			.filter((attr: any) => attr.type === "JSXAttribute")
+			.map((attr: any) => ({
+				name: attr.name.name as string,
+				value: attr.value?.type === "StringLiteral" ? attr.value.value : null,
+			})),
+	);
+}
+
+/**
+ * Build the plural/select/ordinal ICU from a flat list of props.
+ * `value` is null for valueless (`ordinal`) and dynamic props.
+ * Shared by JSX attributes, Vue template attributes and Svelte markup attributes.
+ */
+function pluralSelectICUFromProps(
+	props: Array<{ name: string; value: string | null }>,
+): string | null {
 		const pluralProps: Record<string, string> = {};
 		const selectProps: Record<string, string> = {};
 		let otherValue: string | undefined;
@@ -802,9 +1988,7 @@ function extractPluralSelectICU(attributes: any[]): string | null {
 		let isOrdinal = false;
 		let hasGender = false;
 
-		for (const attr of attributes) {
-			if (attr.type !== "JSXAttribute") continue;
-			const name = attr.name.name as string;
+		for (const { name, value } of props) {
 
 			// Boolean `ordinal` prop — no value means true
 			if (name === "ordinal") {
@@ -818,8 +2002,6 @@ function extractPluralSelectICU(attributes: any[]): string | null {
 				continue;
 			}
 
-			const value =
-				attr.value?.type === "StringLiteral" ? attr.value.value : null;
 			if (!value) continue;
 
 			if (PLURAL_CLDR.has(name) || /^_\d+$/.test(name)) {
@@ -858,6 +2040,23 @@ function extractPluralSelectICU(attributes: any[]): string | null {
 		return null;
 	}
 
+/**
+ * The messages a t() / msg() argument can be: each branch of a conditional
+ * (`t(isAdmin ? "Admin" : "Member")` is two messages — the runtime hashes
+ * whichever it receives), else the argument itself.
+ */
+function messageBranches(node: any): any[] {
+	if (node?.type !== "ConditionalExpression") return [node];
+	return [...messageBranches(node.consequent), ...messageBranches(node.alternate)];
+}
+
+/** Text of a string or template literal argument; null for anything else. */
+function literalText(node: any): string | null {
+	if (node?.type === "StringLiteral") return node.value;
+	if (node?.type === "TemplateLiteral") return extractTemplateText(node);
+	return null;
+}
+
 function extractTemplateText(node: any): string {
 	let text = "";
 
@@ -878,6 +2077,56 @@ function extractTemplateText(node: any): string {
 	return text;
 }
 
+/** A numeric JSX attribute: `maxLength={40}` or `maxLength="40"`. */
+function getNumberAttribute(attributes: any[], name: string): number | undefined {
+	const attr = attributes.find(
+		(a: any) => a.type === "JSXAttribute" && a.name.name === name,
+	);
+	const value =
+		attr?.value?.type === "JSXExpressionContainer" ? attr.value.expression : attr?.value;
+	if (value?.type === "NumericLiteral") return value.value;
+	if (value?.type === "StringLiteral") return Number(value.value);
+	return undefined;
+}
+
+/** maxLength values are positive whole numbers; anything else is ignored. */
+function parseMaxLength(value: number | undefined): number | undefined {
+	return value !== undefined && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/** A `// vocoder: …` comment (block and JSX comments too) — a note for translators. */
+interface NoteComment {
+	/** Line the comment ends on. */
+	line: number;
+	end: number;
+	text: string;
+}
+
+function collectNoteComments(comments: any[]): NoteComment[] {
+	const notes: NoteComment[] = [];
+	for (const comment of comments) {
+		const match = /^vocoder:\s*(.+)$/s.exec(comment.value.trim());
+		if (!match || !comment.loc) continue;
+		notes.push({
+			line: comment.loc.end.line,
+			end: comment.end,
+			text: match[1]!.replace(/\s*\n\s*\*?\s*/g, " ").trim(),
+		});
+	}
+	return notes;
+}
+
+/** The note comment ending on the line above `node`, or earlier on its own line. */
+function leadingNote(notes: NoteComment[], node: any): string | undefined {
+	const line = node.loc?.start.line;
+	if (!line) return undefined;
+	const note = notes.find(
+		(comment) =>
+			comment.line === line - 1 || (comment.line === line && comment.end <= node.start),
+	);
+	return note?.text;
+}
+
 function getStringAttribute(
 	attributes: any[],
 	name: string,
@@ -907,16 +2156,105 @@ function getStringAttribute(
 	return undefined;
 }
 
-function deduplicateStrings(strings: ExtractedString[]): ExtractedString[] {
+function deduplicateStrings(strings: ExtractedString[]): ExtractionResult {
 	// Content-hash keys are deterministic: same text+context → same key everywhere.
-	// Dedup by key — keeps the first occurrence.
-	const seen = new Set<string>();
-	const unique: ExtractedString[] = [];
+	// Dedup by key — keeps the first occurrence and records every usage on it.
+	// A key shared by a different text or context is a collision (or a reused
+	// explicit id): one of them would be shown the other's translation.
+	const byKey = new Map<string, ExtractedString>();
+	const diagnostics: ExtractionDiagnostic[] = [];
+	const collided = new Set<string>();
 	for (const str of strings) {
-		if (!seen.has(str.key)) {
-			seen.add(str.key);
-			unique.push(str);
+		const { file, line, column, componentName } = str;
+		const occurrence = { file, line, column, ...(componentName ? { componentName } : {}) };
+		const first = byKey.get(str.key);
+		if (!first) {
+			byKey.set(str.key, { ...str, occurrences: [occurrence] });
+			continue;
+		}
+		if (first.text !== str.text || first.context !== str.context) {
+			const pair = `${str.key}\0${str.text}\0${str.context ?? ""}`;
+			if (!collided.has(pair)) {
+				collided.add(pair);
+				diagnostics.push(keyCollisionDiagnostic(str.key, first, str));
+			}
+			continue;
 		}
+		first.occurrences!.push(occurrence);
+	}
+	return { strings: Array.from(byKey.values()), diagnostics };
+}
+
+/**
+ * Key of an extracted message: the explicit id, else the content hash. Under
+ * non-default hash options also the default-hash key it replaces.
+ */
+function messageKey(
+	text: string,
+	context: string | undefined,
+	id: string | undefined,
+	hash: MessageHashOptions,
+): { key: string; legacyKey?: string } {
+	const explicitId = id?.trim();
+	if (explicitId) return { key: explicitId };
+	const key = generateMessageHash(text, context, hash);
+	if (isDefaultHash(hash)) return { key };
+	return { key, legacyKey: generateMessageHash(text, context) };
+}
+
+/**
+ * Name of the component or function a node is in: the nearest enclosing
+ * function with a name, skipping anonymous callbacks (`items.map(item => …)`).
+ * Class methods report their class.
+ */
+function enclosingComponentName(path: any): string | undefined {
+	for (let fn = path.getFunctionParent(); fn; fn = fn.parentPath?.getFunctionParent()) {
+		const name = functionName(fn);
+		if (name) return name;
+	}
+	return undefined;
+}
+
+// Wrappers whose result is still the component: const Button = forwardRef((props, ref) => …)
+const COMPONENT_WRAPPERS = new Set(["memo", "forwardRef", "observer"]);
+
+function functionName(fn: any): string | undefined {
+	const { node } = fn;
+	if (node.type === "ClassMethod" || node.type === "ClassPrivateMethod") {
+		return fn.parentPath?.parent?.id?.name;
+	}
+	if (node.id?.type === "Identifier") return node.id.name;
+	if (node.type === "ObjectMethod") return node.key.type === "Identifier" ? node.key.name : undefined;
+
+	let parentPath = fn.parentPath;
+	while (
+		parentPath?.node.type === "CallExpression" &&
+		COMPONENT_WRAPPERS.has(memberName(parentPath.node.callee)?.split(".").pop() ?? "")
+	) {
+		parentPath = parentPath.parentPath;
+	}
+	const parent = parentPath?.node;
+	if (parent?.type === "VariableDeclarator" && parent.id.type === "Identifier") {
+		return parent.id.name;
+	}
+	if (
+		(parent?.type === "ObjectProperty" || parent?.type === "ClassProperty") &&
+		parent.key.type === "Identifier"
+	) {
+		return parent.key.name;
+	}
+	return undefined;
+}
+
+/** A Vue or Svelte component's name: its file name, `Checkout.vue` → `Checkout`. */
+function componentFileName(filePath: string): string {
+	return basename(filePath, extname(filePath));
+}
+
+/** Attribute strings outside any named function to the single-file component itself. */
+function withComponentName(strings: ExtractedString[], componentName: string): ExtractedString[] {
+	for (const str of strings) {
+		if (!str.componentName) str.componentName = componentName;
 	}
-	return unique;
+	return strings;
 }
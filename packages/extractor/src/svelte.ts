@@ -0,0 +1,380 @@
+import { createRequire } from "node:module";
+import { join } from "node:path";
+import { booleanSelect, conditionalBranches } from "./conditional";
+import type { BailCode } from "./diagnostics";
+
+/**
+ * Svelte component primitives — component parsing and markup walking.
+ *
+ * svelte is an optional peer dependency. svelte/compiler is resolved from the
+ * project root at call time (every Svelte app already has it), so projects
+ * that don't use Svelte never need it installed. Requires Svelte 5 (modern AST).
+ */
+
+type SvelteCompiler = {
+	parse: (source: string, options: { filename?: string; modern: true }) => any;
+};
+
+let _compiler: SvelteCompiler | null | undefined;
+
+function loadSvelteCompiler(): SvelteCompiler | null {
+	if (_compiler !== undefined) return _compiler;
+
+	const projectRequire = createRequire(join(process.cwd(), "package.json"));
+	try {
+		_compiler = projectRequire("svelte/compiler") as SvelteCompiler;
+	} catch {
+		_compiler = null;
+	}
+	return _compiler;
+}
+
+export interface SvelteScriptBlock {
+	content: string;
+	/** 1-based line of the first content line within the .svelte file. */
+	startLine: number;
+	/** Character offset of the content within the .svelte file. */
+	offset: number;
+}
+
+export interface ParsedSvelteComponent {
+	/** Root markup fragment. Node offsets are absolute within the file. */
+	fragment: any;
+	scripts: SvelteScriptBlock[];
+}
+
+/**
+ * Parse a .svelte file into its markup fragment and script blocks.
+ * Throws if the compiler is unavailable or the component is malformed.
+ */
+export function parseSvelteComponent(
+	content: string,
+	filename: string,
+): ParsedSvelteComponent {
+	const compiler = loadSvelteCompiler();
+	if (!compiler) {
+		throw new Error(
+			"svelte/compiler not found — install svelte in this project to extract from .svelte files",
+		);
+	}
+
+	const ast = compiler.parse(content, { filename, modern: true });
+
+	const scripts: SvelteScriptBlock[] = [];
+	for (const block of [ast.module, ast.instance]) {
+		if (block) {
+			scripts.push({
+				content: content.slice(block.content.start, block.content.end),
+				startLine: lineAt(content, block.content.start),
+				offset: block.content.start,
+			});
+		}
+	}
+
+	return { fragment: ast.fragment, scripts };
+}
+
+/** 1-based line number of a character offset. */
+export function lineAt(content: string, offset: number): number {
+	let line = 1;
+	for (let i = 0; i < offset; i++) {
+		if (content.charCodeAt(i) === 10) line++;
+	}
+	return line;
+}
+
+const SVELTE_ELEMENT_TYPES = new Set([
+	"RegularElement",
+	"Component",
+	"SvelteElement",
+	"SvelteComponent",
+	"SvelteSelf",
+	"SlotElement",
+	"TitleElement",
+]);
+
+function isSvelteElement(node: any): boolean {
+	return SVELTE_ELEMENT_TYPES.has(node?.type);
+}
+
+/** Child fragments of a node — element bodies and every branch of {#if}/{#each}/{#await}/{#snippet} blocks. */
+function childFragments(node: any): any[] {
+	const fragments: any[] = [];
+	for (const value of Object.values(node)) {
+		if (value && typeof value === "object" && (value as any).type === "Fragment") {
+			fragments.push(value);
+		}
+	}
+	return fragments;
+}
+
+/**
+ * Depth-first walk over every element in a markup fragment, including
+ * elements inside control-flow blocks. `parent` is the nearest enclosing
+ * element (null at the component root).
+ */
+export function walkSvelteElements(
+	fragment: any,
+	visit: (el: any, parent: any | null) => void,
+	parent: any | null = null,
+): void {
+	for (const node of fragment?.nodes ?? []) {
+		if (isSvelteElement(node)) {
+			visit(node, parent);
+			for (const child of childFragments(node)) {
+				walkSvelteElements(child, visit, node);
+			}
+		} else {
+			for (const child of childFragments(node)) {
+				walkSvelteElements(child, visit, parent);
+			}
+		}
+	}
+}
+
+/**
+ * Read a static attribute (`context="x"`) or a string literal expression
+ * (`context={"x"}`) from a markup element.
+ */
+export function getSvelteStringAttribute(
+	el: any,
+	name: string,
+): string | undefined {
+	for (const attr of el.attributes) {
+		if (attr.type !== "Attribute" || attr.name !== name) continue;
+		const value = Array.isArray(attr.value) ? attr.value : [attr.value];
+		if (value.length === 1 && value[0]?.type === "Text") return value[0].data;
+		const expr = value.length === 1 ? value[0]?.expression : null;
+		if (expr?.type === "Literal" && typeof expr.value === "string") return expr.value;
+	}
+	return undefined;
+}
+
+/** A numeric attribute: `maxLength="40"` or `maxLength={40}`. */
+export function getSvelteNumberAttribute(el: any, name: string): number | undefined {
+	for (const attr of el.attributes) {
+		if (attr.type !== "Attribute" || attr.name !== name) continue;
+		const value = Array.isArray(attr.value) ? attr.value : [attr.value];
+		if (value.length === 1 && value[0]?.type === "Text") return Number(value[0].data);
+		const expr = value.length === 1 ? value[0]?.expression : null;
+		if (expr?.type === "Literal" && typeof expr.value === "number") return expr.value;
+	}
+	return undefined;
+}
+
+/**
+ * Flatten element attributes into name/value pairs. Static attributes carry
+ * their string value; expression (`value={count}`) and valueless (`ordinal`)
+ * attributes carry null.
+ */
+export function getSvelteProps(
+	el: any,
+): Array<{ name: string; value: string | null }> {
+	const props: Array<{ name: string; value: string | null }> = [];
+	for (const attr of el.attributes) {
+		if (attr.type !== "Attribute") continue;
+		const value = Array.isArray(attr.value) ? attr.value : [attr.value];
+		props.push({
+			name: attr.name,
+			value:
+				value.length > 0 && value.every((part: any) => part?.type === "Text")
+					? value.map((part: any) => part.data).join("")
+					: null,
+		});
+	}
+	return props;
+}
+
+/**
+ * Offset of the `>` that closes an element's opening tag.
+ * Searches after the last attribute so `>` inside attribute values is never matched.
+ */
+export function getSvelteOpeningTagEnd(code: string, el: any): number {
+	let from = el.start + 1 + el.name.length;
+	for (const attr of el.attributes) {
+		from = Math.max(from, attr.end);
+	}
+	return code.indexOf(">", from);
+}
+
+/**
+ * Visit every expression in the markup with the element it belongs to:
+ * `{…}` tags and `{@html …}` in element bodies, and attribute values
+ * (`title={…}`, `title="a {…}"`). `attribute` is set for attribute values.
+ */
+export function walkSvelteExpressions(
+	fragment: any,
+	visit: (expr: any, parent: any | null, attribute?: string) => void,
+	parent: any | null = null,
+): void {
+	for (const node of fragment?.nodes ?? []) {
+		if (node.type === "ExpressionTag" || node.type === "HtmlTag") {
+			visit(node.expression, parent);
+			continue;
+		}
+		if (isSvelteElement(node)) {
+			for (const attr of node.attributes) {
+				if (attr.type !== "Attribute") continue;
+				const value = Array.isArray(attr.value) ? attr.value : [attr.value];
+				for (const part of value) {
+					if (part?.type === "ExpressionTag") visit(part.expression, node, attr.name);
+				}
+			}
+		}
+		const owner = isSvelteElement(node) ? node : parent;
+		for (const child of childFragments(node)) {
+			walkSvelteExpressions(child, visit, owner);
+		}
+	}
+}
+
+/**
+ * Mutable context threaded through extractSvelteMarkupText.
+ * Mirrors VueExtractContext; `elements` keeps each numbered element so the
+ * transform can hand their tag and attributes to the runtime as `components`.
+ */
+export interface SvelteExtractContext {
+	code: string;
+	elementCount: number;
+	complexCount: number;
+	namedVars: Set<string>;
+	complexExprs: Array<{ key: number; source: string }>;
+	elements: any[];
+	bail: boolean;
+	bailCode?: BailCode;
+	bailNode?: any;
+	tComponentNames: Set<string>;
+}
+
+/**
+ * Svelte counterpart of extractTextContentFromNodes — builds the ICU template
+ * for the children of a <T> element in Svelte markup.
+ *
+ * - text                     → literal text, whitespace runs condensed to one space
+ * - {count}                  → named ICU arg `{count}`
+ * - {42} / {'x'}             → inlined literal
+ * - {user.name}              → positional arg `{0}`
+ * - {a ? 'x' : 'y'}          → select arg `{0, select, true {x} other {y}}` on Boolean(a)
+ * - other {a ? b : c}        → sets ctx.bail (untranslatable as a unit)
+ * - {#if}/{#each}/{@html}    → sets ctx.bail
+ * - <b>text</b>              → `<0>text</0>`
+ * - <T>…</T>                 → sets ctx.bail (outer T bails; inner T extracts independently)
+ */
+export function extractSvelteMarkupText(
+	nodes: any[],
+	ctx: SvelteExtractContext,
+): string {
+	let text = "";
+
+	for (const node of nodes) {
+		if (ctx.bail) return text;
+
+		if (node.type === "Text") {
+			text += node.data.replace(/\s+/g, " ");
+		} else if (node.type === "ExpressionTag") {
+			text += expressionToICU(node.expression, ctx);
+			if (ctx.bail) ctx.bailNode = node;
+		} else if (node.type === "RegularElement" || node.type === "Component") {
+			if (node.type === "Component" && ctx.tComponentNames.has(node.name)) {
+				ctx.bail = true;
+				ctx.bailCode = "nested-t";
+				ctx.bailNode = node;
+				return text;
+			}
+			const idx = ctx.elementCount++;
+			ctx.elements.push(node);
+			const children = node.fragment.nodes;
+			if (children.length === 0) {
+				text += `<${idx}/>`;
+			} else {
+				const innerText = extractSvelteMarkupText(children, ctx);
+				text += `<${idx}>${innerText}</${idx}>`;
+			}
+		} else if (node.type !== "Comment") {
+			ctx.bail = true;
+			ctx.bailCode = "unsupported-in-t";
+			ctx.bailNode = node;
+			return text;
+		}
+	}
+
+	return text;
+}
+
+function expressionToICU(expr: any, ctx: SvelteExtractContext): string {
+	switch (expr.type) {
+		case "Identifier":
+			ctx.namedVars.add(expr.name);
+			return `{${expr.name}}`;
+		case "Literal":
+			if (typeof expr.value === "string" || typeof expr.value === "number") {
+				return String(expr.value);
+			}
+			if (expr.value === null || typeof expr.value === "boolean") return "";
+			break;
+		case "ConditionalExpression":
+		case "LogicalExpression": {
+			const branches = conditionalBranches(expr);
+			if (!branches) {
+				ctx.bail = true;
+				ctx.bailCode = "conditional-in-t";
+				return "";
+			}
+			const { test, whenTrue, otherwise } = branches;
+			const key = ctx.complexCount++;
+			ctx.complexExprs.push({ key, source: `Boolean(${ctx.code.slice(test.start, test.end)})` });
+			return booleanSelect(key, whenTrue, otherwise);
+		}
+		case "TemplateLiteral": {
+			let text = "";
+			for (let i = 0; i < expr.quasis.length; i++) {
+				text += expr.quasis[i].value.raw;
+				if (i < expr.expressions.length) {
+					text += expressionToICU(expr.expressions[i], ctx);
+					if (ctx.bail) return text;
+				}
+			}
+			return text;
+		}
+	}
+
+	const key = ctx.complexCount++;
+	ctx.complexExprs.push({ key, source: ctx.code.slice(expr.start, expr.end) });
+	return `{${key}}`;
+}
+
+/**
+ * The runtime `components` entry for a numbered element in a <T> body:
+ * `["a", { href: "/docs" }]` for elements, `[Link, { to }]` for components.
+ * Directives (on:, bind:, class:, use:) have no prop equivalent and are dropped.
+ */
+export function svelteElementToComponentSlot(code: string, el: any): string {
+	const props: string[] = [];
+	for (const attr of el.attributes) {
+		if (attr.type === "SpreadAttribute") {
+			props.push(`...${code.slice(attr.expression.start, attr.expression.end)}`);
+			continue;
+		}
+		if (attr.type !== "Attribute") continue;
+		props.push(`${JSON.stringify(attr.name)}: ${attributeValueSource(code, attr.value)}`);
+	}
+	const tag = el.type === "Component" ? el.name : JSON.stringify(el.name);
+	return props.length > 0 ? `[${tag}, { ${props.join(", ")} }]` : `[${tag}]`;
+}
+
+function attributeValueSource(code: string, value: any): string {
+	if (value === true) return "true";
+	const parts = Array.isArray(value) ? value : [value];
+	if (parts.length === 0) return '""';
+	if (parts.length === 1 && parts[0].type === "ExpressionTag") {
+		const expr = parts[0].expression;
+		return code.slice(expr.start, expr.end);
+	}
+	return parts
+		.map((part: any) =>
+			part.type === "Text"
+				? JSON.stringify(part.data)
+				: `String(${code.slice(part.expression.start, part.expression.end)})`,
+		)
+		.join(" + ");
+}
@@ -0,0 +1,316 @@
+import { createRequire } from "node:module";
+import { join } from "node:path";
+import { parseExpression } from "@babel/parser";
+import type * as VueCompilerSFC from "@vue/compiler-sfc";
+import { booleanSelect, conditionalBranches } from "./conditional";
+import type { BailCode } from "./diagnostics";
+
+/**
+ * Vue single-file component primitives — SFC parsing and template walking.
+ *
+ * @vue/compiler-sfc is an optional peer dependency. It is resolved from the
+ * project root at call time (every Vue 3 app already has it through `vue`),
+ * so React-only projects never need it installed.
+ */
+
+// NodeTypes from @vue/compiler-core. Inlined so the compiler stays a lazy, optional dependency.
+export const VUE_NODE = {
+	ELEMENT: 1,
+	TEXT: 2,
+	COMMENT: 3,
+	INTERPOLATION: 5,
+	ATTRIBUTE: 6,
+	DIRECTIVE: 7,
+} as const;
+
+type VueCompiler = typeof VueCompilerSFC;
+
+let _compiler: VueCompiler | null | undefined;
+
+function loadVueCompiler(): VueCompiler | null {
+	if (_compiler !== undefined) return _compiler;
+
+	const projectRequire = createRequire(join(process.cwd(), "package.json"));
+	for (const id of ["vue/compiler-sfc", "@vue/compiler-sfc"]) {
+		try {
+			_compiler = projectRequire(id) as VueCompiler;
+			return _compiler;
+		} catch {
+			// try the next candidate
+		}
+	}
+
+	_compiler = null;
+	return null;
+}
+
+export interface VueScriptBlock {
+	content: string;
+	/** 1-based line of the first content line within the .vue file. */
+	startLine: number;
+	/** Character offset of the content within the .vue file. */
+	offset: number;
+}
+
+export interface ParsedVueSFC {
+	/** Root template AST node, or null when the SFC has no <template>. */
+	template: any | null;
+	scripts: VueScriptBlock[];
+}
+
+/**
+ * Parse a .vue file into its template AST and script blocks.
+ * Template node offsets and lines are absolute within the file.
+ * Throws if the compiler is unavailable or the SFC is malformed.
+ */
+export function parseVueSFC(content: string, filename: string): ParsedVueSFC {
+	const compiler = loadVueCompiler();
+	if (!compiler) {
+		throw new Error(
+			"@vue/compiler-sfc not found — install vue in this project to extract from .vue files",
+		);
+	}
+
+	const { descriptor, errors } = compiler.parse(content, { filename });
+	if (errors.length > 0) throw errors[0];
+
+	const scripts: VueScriptBlock[] = [];
+	for (const block of [descriptor.script, descriptor.scriptSetup]) {
+		if (block) {
+			scripts.push({
+				content: block.content,
+				startLine: block.loc.start.line,
+				offset: block.loc.start.offset,
+			});
+		}
+	}
+
+	return { template: descriptor.template?.ast ?? null, scripts };
+}
+
+/**
+ * Depth-first walk over every element in a template AST.
+ * `parent` is the nearest enclosing element (null at the template root).
+ */
+export function walkVueElements(
+	node: any,
+	visit: (el: any, parent: any | null) => void,
+	parent: any | null = null,
+): void {
+	for (const child of node.children ?? []) {
+		if (child.type !== VUE_NODE.ELEMENT) continue;
+		visit(child, parent);
+		walkVueElements(child, visit, child);
+	}
+}
+
+/**
+ * Read a static attribute (`context="x"`) or a bound string literal
+ * (`:context="'x'"`) from a template element.
+ */
+export function getVueStringAttribute(
+	el: any,
+	name: string,
+): string | undefined {
+	for (const prop of el.props) {
+		if (prop.type === VUE_NODE.ATTRIBUTE && prop.name === name) {
+			return prop.value?.content;
+		}
+		if (
+			prop.type === VUE_NODE.DIRECTIVE &&
+			prop.name === "bind" &&
+			prop.arg?.content === name &&
+			prop.exp
+		) {
+			const expr = parseVueExpression(prop.exp.content);
+			if (expr?.type === "StringLiteral") return expr.value;
+		}
+	}
+	return undefined;
+}
+
+/** A numeric attribute: `maxLength="40"` or `:maxLength="40"`. */
+export function getVueNumberAttribute(el: any, name: string): number | undefined {
+	for (const prop of el.props) {
+		if (prop.type === VUE_NODE.ATTRIBUTE && prop.name === name && prop.value) {
+			return Number(prop.value.content);
+		}
+		if (
+			prop.type === VUE_NODE.DIRECTIVE &&
+			prop.name === "bind" &&
+			prop.arg?.content === name &&
+			prop.exp
+		) {
+			const expr = parseVueExpression(prop.exp.content);
+			if (expr?.type === "NumericLiteral") return expr.value;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Flatten element props into name/value pairs. Static attributes carry their
+ * string value; bound (`:value`) and valueless (`ordinal`) props carry null.
+ */
+export function getVueProps(
+	el: any,
+): Array<{ name: string; value: string | null }> {
+	const props: Array<{ name: string; value: string | null }> = [];
+	for (const prop of el.props) {
+		if (prop.type === VUE_NODE.ATTRIBUTE) {
+			props.push({ name: prop.name, value: prop.value?.content ?? null });
+		} else if (
+			prop.type === VUE_NODE.DIRECTIVE &&
+			prop.name === "bind" &&
+			prop.arg?.isStatic
+		) {
+			props.push({ name: prop.arg.content, value: null });
+		}
+	}
+	return props;
+}
+
+/**
+ * Offset of the `>` that closes an element's opening tag.
+ * Searches after the last prop so `>` inside attribute values is never matched.
+ */
+export function getVueOpeningTagEnd(code: string, el: any): number {
+	let from = el.loc.start.offset + 1 + el.tag.length;
+	for (const prop of el.props) {
+		from = Math.max(from, prop.loc.end.offset);
+	}
+	return code.indexOf(">", from);
+}
+
+export function parseVueExpression(source: string): any | null {
+	try {
+		return parseExpression(source, { plugins: ["typescript"] });
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Mutable context threaded through extractVueTemplateText.
+ * Mirrors ExtractContext in index.ts; complex expressions keep their source
+ * text instead of offsets because template expressions are re-emitted into a
+ * bound `:values` attribute rather than sliced out of the JSX source.
+ */
+export interface VueExtractContext {
+	elementCount: number;
+	complexCount: number;
+	namedVars: Set<string>;
+	complexExprs: Array<{ key: number; source: string }>;
+	bail: boolean;
+	bailCode?: BailCode;
+	bailNode?: any;
+	tComponentNames: Set<string>;
+}
+
+/**
+ * Vue counterpart of extractTextContentFromNodes — builds the ICU template
+ * for the children of a <T> element in a Vue template.
+ *
+ * - text                     → literal text (the SFC parser already condenses whitespace)
+ * - {{ count }}              → named ICU arg `{count}`
+ * - {{ 42 }} / {{ 'x' }}     → inlined literal
+ * - {{ user.name }}          → positional arg `{0}`
+ * - {{ a ? 'x' : 'y' }}      → select arg `{0, select, true {x} other {y}}` on Boolean(a)
+ * - other {{ a ? b : c }}    → sets ctx.bail (untranslatable as a unit)
+ * - <b>text</b>              → `<0>text</0>`
+ * - <T>…</T>                 → sets ctx.bail (outer T bails; inner T extracts independently)
+ */
+export function extractVueTemplateText(
+	children: any[],
+	ctx: VueExtractContext,
+): string {
+	let text = "";
+
+	for (const child of children) {
+		if (ctx.bail) return text;
+
+		if (child.type === VUE_NODE.TEXT) {
+			text += child.content;
+		} else if (child.type === VUE_NODE.INTERPOLATION) {
+			const source: string = child.content.content.trim();
+			const expr = parseVueExpression(source);
+			if (!expr) {
+				ctx.bail = true;
+				ctx.bailCode = "unsupported-in-t";
+				ctx.bailNode = child;
+				return text;
+			}
+			text += interpolationToICU(expr, source, ctx);
+			if (ctx.bail) ctx.bailNode = child;
+		} else if (child.type === VUE_NODE.ELEMENT) {
+			if (ctx.tComponentNames.has(child.tag)) {
+				ctx.bail = true;
+				ctx.bailCode = "nested-t";
+				ctx.bailNode = child;
+				return text;
+			}
+			const idx = ctx.elementCount++;
+			if (child.children.length === 0) {
+				text += `<${idx}/>`;
+			} else {
+				const innerText = extractVueTemplateText(child.children, ctx);
+				text += `<${idx}>${innerText}</${idx}>`;
+			}
+		}
+	}
+
+	return text;
+}
+
+function interpolationToICU(
+	expr: any,
+	source: string,
+	ctx: VueExtractContext,
+): string {
+	switch (expr.type) {
+		case "Identifier":
+			ctx.namedVars.add(expr.name);
+			return `{${expr.name}}`;
+		case "StringLiteral":
+			return expr.value;
+		case "NumericLiteral":
+			return String(expr.value);
+		case "BooleanLiteral":
+		case "NullLiteral":
+			return "";
+		case "ConditionalExpression":
+		case "LogicalExpression": {
+			const branches = conditionalBranches(expr);
+			if (!branches) {
+				ctx.bail = true;
+				ctx.bailCode = "conditional-in-t";
+				return "";
+			}
+			// `source` starts at expr — offsets inside it are relative to the parsed interpolation.
+			const { test, whenTrue, otherwise } = branches;
+			const key = ctx.complexCount++;
+			ctx.complexExprs.push({
+				key,
+				source: `Boolean(${source.slice(test.start - expr.start, test.end - expr.start)})`,
+			});
+			return booleanSelect(key, whenTrue, otherwise);
+		}
+		case "TemplateLiteral": {
+			let text = "";
+			for (let i = 0; i < expr.quasis.length; i++) {
+				text += expr.quasis[i].value.raw;
+				if (i < expr.expressions.length) {
+					const e = expr.expressions[i];
+					text += interpolationToICU(e, source.slice(e.start, e.end), ctx);
+					if (ctx.bail) return text;
+				}
+			}
+			return text;
+		}
+		default: {
+			const key = ctx.complexCount++;
+			ctx.complexExprs.push({ key, source });
+			return `{${key}}`;
+		}
+	}
+}
@@ -0,0 +1,275 @@
+import { parse } from "@babel/parser";
+import babelTraverse from "@babel/traverse";
+import { elementNameToUiRole, isNonUiElement, propNameToUiRole } from "./uiRole";
+
+const traverse = (babelTraverse as any).default || babelTraverse;
+
+const REACT_SOURCE = "@vocoder/react";
+
+// Copy worth translating has at least one letter — skips "—", "|", "42", "&nbsp;".
+export const HAS_LETTER = /\p{L}/u;
+
+export interface WrappedString {
+	/** The wrapped source, whitespace collapsed — `Hello, {name}!`. */
+	text: string;
+	line: number;
+	/** `jsx` — children wrapped in `<T>`; `attribute` — value wrapped in `t()`. */
+	kind: "jsx" | "attribute";
+	uiRole?: string;
+}
+
+export interface WrapResult {
+	code: string;
+	changed: boolean;
+	strings: WrappedString[];
+}
+
+interface Edit {
+	start: number;
+	end: number;
+	text: string;
+}
+
+/**
+ * Wrap hard-coded, user-facing strings in a JSX/TSX file for translation —
+ * the codemod behind `vocoder wrap`:
+ *
+ *   <button>Save {count} files</button>  →  <button><T>Save {count} files</T></button>
+ *   <input placeholder="Search" />       →  <input placeholder={t("Search")} />
+ *
+ * Text runs (JSX text plus simple `{name}` / `{user.name}` expressions) are
+ * wrapped in `<T>`; string values of user-facing props (placeholder, alt,
+ * title, aria-label — see propNameToUiRole) in `t()`. Missing `T` / `t`
+ * imports from @vocoder/react are added.
+ *
+ * Skips:
+ * - Text already inside `<T>`
+ * - Text inside code-like elements (`<code>`, `<pre>`, `<style>` — see isNonUiElement)
+ * - Strings without letters (punctuation, numbers, entities)
+ * - Any other prop (className, href, id…)
+ * - Wraps whose `T` / `t` name is already bound to something else in scope
+ *
+ * Uses targeted string edits like transformMsgProps, so formatting is preserved.
+ */
+export function wrapHardcodedStrings(code: string): WrapResult {
+	let ast: any;
+	try {
+		ast = parse(code, {
+			sourceType: "module",
+			plugins: ["jsx", "typescript"],
+		});
+	} catch {
+		return { code, changed: false, strings: [] };
+	}
+
+	// Existing @vocoder/react import: the names T and t are available as.
+	let reactImport: any = null;
+	const imported: { T?: string; t?: string } = {};
+	for (const node of ast.program.body) {
+		if (node.type !== "ImportDeclaration" || node.source.value !== REACT_SOURCE) continue;
+		if (node.importKind === "type") continue;
+		for (const spec of node.specifiers) {
+			if (spec.type !== "ImportSpecifier" || spec.imported.type !== "Identifier") continue;
+			if (spec.imported.name === "T" || spec.imported.name === "t") {
+				imported[spec.imported.name as "T" | "t"] = spec.local.name;
+			}
+		}
+		if (node.specifiers.some((spec: any) => spec.type === "ImportSpecifier")) {
+			reactImport = node;
+		}
+	}
+	const TName = imported.T ?? "T";
+	const tName = imported.t ?? "t";
+
+	// A name is usable unless something other than the @vocoder/react import binds it here.
+	const isFree = (path: any, name: string) => {
+		const binding = path.scope.getBinding(name);
+		return (
+			!binding ||
+			(binding.kind === "module" && binding.path.parent?.source?.value === REACT_SOURCE)
+		);
+	};
+
+	const isInsideT = (path: any) =>
+		Boolean(
+			path.findParent(
+				(parent: any) =>
+					parent.isJSXElement() && jsxElementName(parent.node) === TName,
+			),
+		);
+
+	const edits: Edit[] = [];
+	const strings: WrappedString[] = [];
+	const used = { T: false, t: false };
+
+	const wrapChildren = (path: any, elementName: string | null) => {
+		if (elementName === TName || (elementName && isNonUiElement(elementName))) return;
+		if (isInsideT(path) || !isFree(path, TName)) return;
+
+		for (const run of textRuns(path.node.children)) {
+			const first = run[0];
+			const last = run[run.length - 1];
+			const start =
+				first.type === "JSXText"
+					? first.start + leadingSpace(code.slice(first.start, first.end))
+					: first.start;
+			const end =
+				last.type === "JSXText"
+					? last.end - trailingSpace(code.slice(last.start, last.end))
+					: last.end;
+
+			edits.push({ start, end: start, text: `<${TName}>` });
+			edits.push({ start: end, end, text: `</${TName}>` });
+			used.T = true;
+
+			const uiRole = elementName ? elementNameToUiRole(elementName) : "unknown";
+			strings.push({
+				text: code.slice(start, end).replace(/\s+/g, " "),
+				line: code.slice(0, start).split("\n").length,
+				kind: "jsx",
+				uiRole: uiRole !== "unknown" ? uiRole : undefined,
+			});
+		}
+	};
+
+	traverse(ast, {
+		JSXElement(path: any) {
+			wrapChildren(path, jsxElementName(path.node));
+		},
+
+		JSXFragment(path: any) {
+			wrapChildren(path, null);
+		},
+
+		JSXAttribute(path: any) {
+			const { name, value } = path.node;
+			if (value?.type !== "StringLiteral" || !HAS_LETTER.test(value.value)) return;
+
+			const propName: string =
+				name.type === "JSXNamespacedName"
+					? `${name.namespace.name}-${name.name.name}`
+					: name.name;
+			const uiRole = propNameToUiRole(propName);
+			if (uiRole === "unknown") return;
+			if (isInsideT(path) || !isFree(path, tName)) return;
+
+			edits.push({
+				start: value.start,
+				end: value.end,
+				text: `{${tName}(${JSON.stringify(value.value)})}`,
+			});
+			used.t = true;
+			strings.push({
+				text: value.value,
+				line: value.loc?.start.line ?? 0,
+				kind: "attribute",
+				uiRole,
+			});
+		},
+	});
+
+	if (edits.length === 0) return { code, changed: false, strings: [] };
+
+	const missing = [
+		...(used.T && !imported.T ? ["T"] : []),
+		...(used.t && !imported.t ? ["t"] : []),
+	];
+	if (missing.length > 0) edits.push(importEdit(ast, reactImport, missing));
+
+	// Apply in reverse order so earlier positions aren't shifted
+	edits.sort((a, b) => b.start - a.start);
+	let result = code;
+	for (const { start, end, text } of edits) {
+		result = result.slice(0, start) + text + result.slice(end);
+	}
+
+	strings.sort((a, b) => a.line - b.line);
+	return { code: result, changed: true, strings };
+}
+
+export function jsxElementName(node: any): string | null {
+	const name = node.openingElement.name;
+	return name.type === "JSXIdentifier" ? name.name : null;
+}
+
+/**
+ * Maximal runs of translatable children: JSX text plus simple expressions
+ * (`{name}`, `{user.name}`, `{" "}`, `{42}`) that read as one sentence.
+ * Elements and other expressions end a run. Runs without letters are dropped.
+ */
+export function textRuns(children: any[]): any[][] {
+	const runs: any[][] = [];
+	let current: any[] = [];
+
+	const flush = () => {
+		// Leading/trailing whitespace-only text stays outside the <T>.
+		while (current.length > 0 && isBlankText(current[0])) current.shift();
+		while (current.length > 0 && isBlankText(current[current.length - 1])) current.pop();
+		if (current.some((child) => child.type === "JSXText" && HAS_LETTER.test(child.value))) {
+			runs.push(current);
+		}
+		current = [];
+	};
+
+	for (const child of children) {
+		if (child.type === "JSXText" || isSimpleExpression(child)) {
+			current.push(child);
+		} else {
+			flush();
+		}
+	}
+	flush();
+
+	return runs;
+}
+
+function isBlankText(node: any): boolean {
+	return node.type === "JSXText" && node.value.trim() === "";
+}
+
+function isSimpleExpression(node: any): boolean {
+	if (node.type !== "JSXExpressionContainer") return false;
+	const expr = node.expression;
+	if (expr.type === "Identifier" || expr.type === "NumericLiteral") return true;
+	if (expr.type === "StringLiteral") return true;
+	if (expr.type === "MemberExpression" && !expr.computed) {
+		let object = expr.object;
+		while (object.type === "MemberExpression" && !object.computed) object = object.object;
+		return object.type === "Identifier" || object.type === "ThisExpression";
+	}
+	return false;
+}
+
+function leadingSpace(text: string): number {
+	return text.length - text.trimStart().length;
+}
+
+function trailingSpace(text: string): number {
+	return text.length - text.trimEnd().length;
+}
+
+/** Add `names` to the existing @vocoder/react import, or insert a new one after the last import. */
+function importEdit(ast: any, reactImport: any, names: string[]): Edit {
+	if (reactImport) {
+		const specifiers = reactImport.specifiers.filter(
+			(spec: any) => spec.type === "ImportSpecifier",
+		);
+		const lastSpecifier = specifiers[specifiers.length - 1];
+		return { start: lastSpecifier.end, end: lastSpecifier.end, text: `, ${names.join(", ")}` };
+	}
+
+	const statement = `import { ${names.join(", ")} } from "${REACT_SOURCE}";`;
+	const imports = ast.program.body.filter((node: any) => node.type === "ImportDeclaration");
+	const lastImport = imports[imports.length - 1];
+	if (lastImport) {
+		return { start: lastImport.end, end: lastImport.end, text: `\n${statement}` };
+	}
+
+	// After "use client" and other directives, else at the top of the file.
+	const directives = ast.program.directives ?? [];
+	const lastDirective = directives[directives.length - 1];
+	if (lastDirective) {
+		return { start: lastDirective.end, end: lastDirective.end, text: `\n\n${statement}` };
+	}
+	return { start: 0, end: 0, text: `${statement}\n\n` };
+}
@@ -17,6 +17,15 @@ export interface SyncBody {
 		context?: string;
 		formality?: string;
 		uiRole?: string;
+		note?: string;
+		maxLength?: number;
+		occurrences?: Array<{
+			file: string;
+			line: number;
+			column: number;
+			componentName?: string;
+		}>;
+		legacyKey?: string;
 	}>;
 	targetLocales: string[];
 	repoCanonical?: string;
@@ -39,6 +39,8 @@ export const SDK_REFERENCE = JSON.stringify(
 					"string — disambiguation when same text has different meanings in different UI contexts.",
 				formality:
 					"'formal' | 'informal' | 'auto' — translation formality level.",
+				note: "string — note for translators (alias: description). A `// vocoder: …` comment on the line above works too.",
+				maxLength: "number — maximum translation length in characters, e.g. for buttons.",
 				components:
 					"ComponentSlot[] | Record<number, ComponentSlot> — rich text inline elements. Each slot maps to a numeric <0>, <1> placeholder. A slot is either a ReactElement (children injected via cloneElement) or a render function (children: ReactNode) => ReactNode. Plugin injects automatically for natural JSX syntax.",
 			},
@@ -52,6 +54,8 @@ export const SDK_REFERENCE = JSON.stringify(
 				context: "string — disambiguation context",
 				formality: "'formal' | 'informal' | 'auto'",
 				id: "string — stable key override",
+				note: "string — note for translators",
+				maxLength: "number — maximum translation length in characters",
 			},
 			examples: [
 				"t('Save changes')",
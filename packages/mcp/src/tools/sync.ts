@@ -1,5 +1,10 @@
 import { randomUUID } from "node:crypto";
-import { StringExtractor } from "@vocoder/extractor";
+import {
+	formatExtractionDiagnostic,
+	loadVocoderConfig,
+	StringExtractor,
+} from "@vocoder/extractor";
+import type { ExtractionDiagnostic } from "@vocoder/extractor";
 import {
 	detectBranch,
 	detectCommitSha,
@@ -37,11 +42,16 @@ export async function runSync(
 	const commitSha = detectCommitSha() ?? undefined;
 	const identity = detectRepoIdentity();
 
-	const extractor = new StringExtractor();
-	const strings = await extractor.extractFromProject(DEFAULT_PATTERNS);
+	const extractor = new StringExtractor(loadVocoderConfig(process.cwd()) ?? undefined);
+	const { strings, diagnostics } = await extractor.extractFromProject(DEFAULT_PATTERNS);
+	const warnings = formatWarnings(diagnostics);
 
 	if (strings.length === 0) {
-		return 'No translatable strings found. Wrap strings with <T>text</T> or t("text") and try again.';
+		return `No translatable strings found. Wrap strings with <T>text</T> or t("text") and try again.${warnings}`;
+	}
+
+	if (diagnostics.some((d) => d.code === "key-collision")) {
+		return `Message key collision — nothing was synced. Give one of the colliding strings an explicit id, or set hashAlgorithm: "fnv1a-64" with a longer keyLength in vocoder.config.ts.${warnings}`;
 	}
 
 	// Compute hash for fast server-side dedup (omit when force=true so server re-translates)
@@ -64,6 +74,10 @@ export async function runSync(
 			...(s.context ? { context: s.context } : {}),
 			...(s.formality ? { formality: s.formality } : {}),
 			...(s.uiRole ? { uiRole: s.uiRole } : {}),
+			...(s.note ? { note: s.note } : {}),
+			...(s.maxLength ? { maxLength: s.maxLength } : {}),
+			...(s.occurrences ? { occurrences: s.occurrences } : {}),
+			...(s.legacyKey ? { legacyKey: s.legacyKey } : {}),
 		})),
 		targetLocales: config.targetLocales,
 		repoCanonical: identity?.repoCanonical,
@@ -74,27 +88,31 @@ export async function runSync(
 	});
 
 	if (response.status === "UP_TO_DATE") {
-		return `Up to date — ${response.totalStrings} string(s), no changes detected.`;
+		return `Up to date — ${response.totalStrings} string(s), no changes detected.${warnings}`;
 	}
 
 	if (response.status === "COMPLETED") {
-		return formatCompleted(
-			response.newStrings,
-			response.deletedStrings,
-			response.totalStrings,
+		return (
+			formatCompleted(
+				response.newStrings,
+				response.deletedStrings,
+				response.totalStrings,
+			) + warnings
 		);
 	}
 
 	// PENDING — poll if mode is not best-effort
 	if (input.mode === "best-effort") {
-		return `Sync queued. Batch ID: ${response.batchId}. ${response.newStrings} new string(s) submitted for translation.`;
+		return `Sync queued. Batch ID: ${response.batchId}. ${response.newStrings} new string(s) submitted for translation.${warnings}`;
 	}
 
-	return await pollSync(
-		client,
-		response.batchId,
-		response.newStrings,
-		response.totalStrings,
+	return (
+		(await pollSync(
+			client,
+			response.batchId,
+			response.newStrings,
+			response.totalStrings,
+		)) + warnings
 	);
 }
 
@@ -133,6 +151,13 @@ function formatCompleted(
 	return parts.join(" ");
 }
 
+/** Extraction diagnostics as a trailing list, so the assistant can relay what wasn't extracted. */
+function formatWarnings(diagnostics: ExtractionDiagnostic[]): string {
+	if (diagnostics.length === 0) return "";
+	const lines = diagnostics.map((d) => `- ${formatExtractionDiagnostic(d)}`);
+	return `\n\n${diagnostics.length} extraction warning(s):\n${lines.join("\n")}`;
+}
+
 function sleep(ms: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,183 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readCacheIndex, writeCachedBundle } from "@vocoder/config/cache";
+import {
+	compileMessages,
+	mergeLocaleFallbacks,
+	readLocaleFiles,
+	seedFromPreviousBundle,
+} from "../core";
+import type { VocoderTranslationData } from "../types";
+
+const data: VocoderTranslationData = {
+	config: { sourceLocale: "en", targetLocales: ["fr-CA", "fr", "es"], locales: {} },
+	translations: {
+		en: { a: "Hello", b: "Bye", c: "Cart" },
+		"fr-CA": { a: "Allô" },
+		fr: { a: "Bonjour", b: "Au revoir" },
+		es: { c: "Carrito" },
+	},
+	updatedAt: null,
+};
+
+describe("mergeLocaleFallbacks", () => {
+	it("fills missing keys from the chain, earlier fallbacks winning", () => {
+		const merged = mergeLocaleFallbacks("fr-CA", data, { "fr-CA": ["fr", "es", "en"] });
+
+		expect(merged.translations).toEqual({ a: "Allô", b: "Au revoir", c: "Carrito" });
+		expect(merged.fallbackKeys).toEqual({ b: "fr", c: "es" });
+	});
+
+	it("never merges the source locale", () => {
+		const merged = mergeLocaleFallbacks("es", data, { es: ["en"] });
+
+		expect(merged.translations).toEqual({ c: "Carrito" });
+		expect(merged.fallbackKeys).toEqual({});
+	});
+
+	it("returns the locale as is without a chain", () => {
+		expect(mergeLocaleFallbacks("fr", data, undefined)).toEqual({
+			translations: { a: "Bonjour", b: "Au revoir" },
+			fallbackKeys: {},
+		});
+	});
+});
+
+describe("readLocaleFiles", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "vocoder-locales-"));
+		mkdirSync(join(cwd, "locales"));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+		vi.restoreAllMocks();
+	});
+
+	function writeLocaleFile(name: string, content: unknown): void {
+		writeFileSync(
+			join(cwd, "locales", name),
+			typeof content === "string" ? content : JSON.stringify(content),
+		);
+	}
+
+	it("builds translation data from _config.json and the locale files", () => {
+		writeLocaleFile("_config.json", { sourceLocale: "en", targetLocales: ["fr", "es"] });
+		writeLocaleFile("en.json", { a: "Hello" });
+		writeLocaleFile("fr.json", { a: "Bonjour" });
+
+		expect(readLocaleFiles(cwd, "locales")).toEqual({
+			config: { sourceLocale: "en", targetLocales: ["fr", "es"], locales: {} },
+			translations: { en: { a: "Hello" }, fr: { a: "Bonjour" } },
+			updatedAt: null,
+		});
+	});
+
+	it("returns null without a readable _config.json", () => {
+		expect(readLocaleFiles(cwd, "locales")).toBeNull();
+
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		writeLocaleFile("_config.json", "{ not json");
+		expect(readLocaleFiles(cwd, "locales")).toBeNull();
+	});
+
+	it("skips a locale file that can't be parsed", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		writeLocaleFile("_config.json", { sourceLocale: "en", targetLocales: ["fr"] });
+		writeLocaleFile("fr.json", "{ not json");
+
+		expect(readLocaleFiles(cwd, "locales")?.translations).toEqual({});
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("fr will show source text"));
+	});
+});
+
+describe("seedFromPreviousBundle", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "vocoder-cache-"));
+		vi.spyOn(process, "cwd").mockReturnValue(cwd);
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+		vi.restoreAllMocks();
+	});
+
+	const empty: VocoderTranslationData = {
+		config: { sourceLocale: "", targetLocales: [], locales: {} },
+		translations: {},
+		updatedAt: null,
+	};
+
+	it("carries over still-extracted keys from the bundle sharing the most keys", () => {
+		writeCachedBundle(cwd, "near", {
+			...data,
+			translations: { en: { a: "Hello", b: "Bye" }, fr: { a: "Bonjour", b: "Au revoir" } },
+		});
+		writeCachedBundle(cwd, "far", {
+			...data,
+			translations: { en: { c: "Cart" }, fr: { c: "Panier" } },
+		});
+
+		const seeded = seedFromPreviousBundle("current", empty, ["a", "b", "d"]);
+
+		expect(seeded).toMatchObject({ carriedOver: 2, from: "near" });
+		expect(seeded.data.config).toEqual(data.config);
+		expect(seeded.data.translations.fr).toEqual({ a: "Bonjour", b: "Au revoir" });
+		expect(seeded.data.translations.en).toBeUndefined();
+	});
+
+	it("keeps keys the current bundle already translates", () => {
+		writeCachedBundle(cwd, "previous", { ...data, translations: { fr: { a: "Salut", b: "Au revoir" } } });
+		const current = { ...data, translations: { fr: { a: "Bonjour" } } };
+
+		const seeded = seedFromPreviousBundle("current", current, ["a", "b"]);
+
+		expect(seeded.carriedOver).toBe(1);
+		expect(seeded.data.translations.fr).toEqual({ a: "Bonjour", b: "Au revoir" });
+	});
+
+	it("ignores empty bundles and the current fingerprint", () => {
+		writeCachedBundle(cwd, "empty", empty);
+		writeCachedBundle(cwd, "current", { ...data, translations: { fr: { a: "Bonjour" } } });
+
+		expect(readCacheIndex(cwd).map((entry) => entry.fingerprint)).toEqual(["current"]);
+		expect(seedFromPreviousBundle("current", empty, ["a"])).toEqual({
+			data: empty,
+			carriedOver: 0,
+			from: null,
+		});
+	});
+});
+
+describe("compileMessages", () => {
+	it("parses ICU messages without tags or locations", () => {
+		const compiled = compileMessages(["{count, plural, one {# <b>file</b>} other {# files}}"], "en");
+
+		expect(compiled).toEqual({
+			"{count, plural, one {# <b>file</b>} other {# files}}": [
+				{
+					type: 6,
+					value: "count",
+					options: {
+						one: { value: [{ type: 7 }, { type: 0, value: " <b>file</b>" }] },
+						other: { value: [{ type: 7 }, { type: 0, value: " files" }] },
+					},
+					offset: 0,
+					pluralType: "cardinal",
+				},
+			],
+		});
+	});
+
+	it("leaves out plain text and messages that don't parse", () => {
+		const compiled = compileMessages(["Hello", "Hi {name}", "Broken {name", "It''s"], "not a locale!");
+
+		expect(Object.keys(compiled)).toEqual(["Hi {name}", "It''s"]);
+	});
+});
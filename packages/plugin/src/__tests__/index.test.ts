@@ -0,0 +1,240 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { writeCachedBundle } from "@vocoder/config/cache";
+import { generateMessageHash, transformMsgProps } from "@vocoder/extractor";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { unplugin } from "../index";
+
+vi.mock("@vocoder/extractor", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("@vocoder/extractor")>();
+	return { ...actual, transformMsgProps: vi.fn(actual.transformMsgProps) };
+});
+
+interface TestPlugin {
+	buildStart(): Promise<void>;
+	load(id: string): Promise<string | null>;
+	resolveId(id: string): string | null;
+	transform(
+		this: { warn(warning: unknown): void },
+		code: string,
+		id: string,
+	): Promise<{ code: string } | null>;
+}
+
+describe("offline build", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "vocoder-offline-"));
+		vi.spyOn(process, "cwd").mockReturnValue(cwd);
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+		vi.restoreAllMocks();
+	});
+
+	it("serves the committed locale files without the API", async () => {
+		writeFileSync(join(cwd, "vocoder.config.json"), JSON.stringify({ localesPath: "locales" }));
+		mkdirSync(join(cwd, "locales"));
+		writeFileSync(
+			join(cwd, "locales", "_config.json"),
+			JSON.stringify({ sourceLocale: "en", targetLocales: ["fr"] }),
+		);
+		writeFileSync(join(cwd, "locales", "fr.json"), JSON.stringify({ "1w2u0qz": "Bonjour" }));
+
+		const plugin = unplugin.rollup({ offline: true }) as unknown as TestPlugin;
+		await plugin.buildStart();
+
+		expect(await plugin.load("\0virtual:vocoder/translations/fr")).toContain('"1w2u0qz":"Bonjour"');
+	});
+
+	it("loads a split route's translations lazily, one locale at a time", async () => {
+		writeFileSync(join(cwd, "vocoder.config.json"), JSON.stringify({ localesPath: "locales" }));
+		mkdirSync(join(cwd, "locales"));
+		writeFileSync(
+			join(cwd, "locales", "_config.json"),
+			JSON.stringify({ sourceLocale: "en", targetLocales: ["fr", "de"] }),
+		);
+		const key = generateMessageHash("Dashboard");
+		writeFileSync(join(cwd, "locales", "fr.json"), JSON.stringify({ [key]: "Tableau de bord" }));
+		writeFileSync(join(cwd, "locales", "de.json"), JSON.stringify({ [key]: "Übersicht" }));
+		mkdirSync(join(cwd, "src"));
+		const file = join(cwd, "src", "Dashboard.tsx");
+		const code = 'import { T } from "@vocoder/react";\nexport default () => <T>Dashboard</T>;\n';
+		writeFileSync(file, code);
+
+		const plugin = unplugin.rollup({ offline: true, splitTranslations: true }) as unknown as TestPlugin;
+		await plugin.buildStart();
+		const transformed = await plugin.transform.call({ warn() {} }, code, file);
+		const scope = transformed?.code.match(/import "virtual:vocoder\/scope\/([^"]+)";/)?.[1];
+
+		expect(scope).toBeDefined();
+		const scopeModule = await plugin.load(`\0virtual:vocoder/scope/${scope}`);
+		expect(scopeModule).toContain(`"fr": () => import("virtual:vocoder/translations/fr/${scope}")`);
+		expect(scopeModule).toContain(`"de": () => import("virtual:vocoder/translations/de/${scope}")`);
+		expect(scopeModule).not.toMatch(/^import /m);
+		expect(scopeModule).not.toContain("Tableau de bord");
+		expect(scopeModule).not.toContain("Übersicht");
+
+		const frModule = await plugin.load(`\0virtual:vocoder/translations/fr/${scope}`);
+		expect(frModule).toContain(`"${key}":"Tableau de bord"`);
+		expect(frModule).not.toContain("Übersicht");
+	});
+
+	it("builds with source text when there are no locale files", async () => {
+		const plugin = unplugin.rollup({ offline: true }) as unknown as TestPlugin;
+		await plugin.buildStart();
+
+		expect(console.warn).toHaveBeenCalledWith(
+			expect.stringContaining("Offline and no localesPath in vocoder.config.ts"),
+		);
+		expect(await plugin.load("\0virtual:vocoder/manifest")).toContain("loaders");
+	});
+
+	it("swaps the runtime's ICU parser for an empty module when precompiling", async () => {
+		const plugin = unplugin.rollup({ offline: true, precompile: true }) as unknown as TestPlugin;
+		const parserId = plugin.resolveId("#icu-parser");
+
+		expect(parserId).toBe("\0virtual:vocoder/icu-parser");
+		expect(await plugin.load(parserId!)).toBe("export const bundledParser = undefined;");
+		expect((unplugin.rollup({ offline: true }) as unknown as TestPlugin).resolveId("#icu-parser")).toBeNull();
+	});
+});
+
+describe("carried-over build", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "vocoder-carry-"));
+		vi.spyOn(process, "cwd").mockReturnValue(cwd);
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.stubEnv("VOCODER_API_KEY", "vca_abcdefghij");
+		// CDN and API unreachable: the new fingerprint's bundle isn't available.
+		vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+		vi.restoreAllMocks();
+		vi.unstubAllEnvs();
+		vi.unstubAllGlobals();
+	});
+
+	it("ships the previous bundle's translations without reporting a runtime fallback", async () => {
+		mkdirSync(join(cwd, "src"));
+		writeFileSync(
+			join(cwd, "src", "App.tsx"),
+			'import { T } from "@vocoder/react";\nexport const App = () => <T>Hello</T>;\n',
+		);
+		const key = generateMessageHash("Hello");
+		writeCachedBundle(cwd, "previous", {
+			config: { sourceLocale: "en", targetLocales: ["fr"], locales: {} },
+			translations: { en: { [key]: "Hello" }, fr: { [key]: "Bonjour" } },
+			updatedAt: null,
+		});
+
+		const plugin = unplugin.rollup() as unknown as TestPlugin;
+		await plugin.buildStart();
+
+		expect(await plugin.load("\0virtual:vocoder/translations/fr")).toContain(`"${key}":"Bonjour"`);
+		expect(fetch).not.toHaveBeenCalledWith(
+			expect.stringContaining("/api/plugin/build-event"),
+			expect.anything(),
+		);
+	});
+});
+
+describe("transform", () => {
+	it("warns when a transform throws and leaves the module untransformed", async () => {
+		vi.mocked(transformMsgProps).mockImplementationOnce(() => {
+			throw new Error("Unexpected node");
+		});
+		const plugin = unplugin.rollup({ offline: true }) as unknown as TestPlugin;
+		const warn = vi.fn();
+
+		const code = 'import { T } from "@vocoder/react";\nexport default () => <T>Hi</T>;\n';
+		expect(await plugin.transform.call({ warn }, code, "/app/src/Hi.tsx")).toBeNull();
+		expect(warn).toHaveBeenCalledWith(
+			expect.objectContaining({
+				code: "parse-error",
+				id: "/app/src/Hi.tsx",
+				message: expect.stringContaining("Unexpected node"),
+			}),
+		);
+	});
+});
+
+describe("key collisions", () => {
+	let cwd: string;
+
+	beforeEach(() => {
+		cwd = mkdtempSync(join(tmpdir(), "vocoder-collision-"));
+		vi.spyOn(process, "cwd").mockReturnValue(cwd);
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		vi.stubEnv("VOCODER_API_KEY", "vca_abcdefghij");
+		vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+		mkdirSync(join(cwd, "src"));
+		writeFileSync(
+			join(cwd, "src", "App.tsx"),
+			[
+				'import { T } from "@vocoder/react";',
+				'export const Hi = () => <T id="greeting">Hello</T>;',
+				'export const Bye = () => <T id="greeting">Goodbye</T>;',
+			].join("\n"),
+		);
+	});
+
+	afterEach(() => {
+		rmSync(cwd, { recursive: true, force: true });
+		vi.restoreAllMocks();
+		vi.unstubAllEnvs();
+		vi.unstubAllGlobals();
+	});
+
+	it("fail a production build", async () => {
+		const plugin = unplugin.rollup() as unknown as TestPlugin;
+
+		await expect(plugin.buildStart()).rejects.toThrow(/key collision.*\n.*Key "greeting"/);
+	});
+
+	it("are reported without stopping the dev server", async () => {
+		vi.stubEnv("NODE_ENV", "development");
+		const plugin = unplugin.rollup({ watch: false }) as unknown as TestPlugin;
+		await plugin.buildStart();
+
+		expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Key "greeting"'));
+	});
+});
+
+describe("build-time constants", () => {
+	it("substitutes them in Rollup chunks, leaving property accesses alone", () => {
+		const plugin = unplugin.rollup() as unknown as {
+			renderChunk(code: string): { code: string } | null;
+		};
+		const chunk = [
+			'const hash = typeof __VOCODER_HASH__ !== "undefined" ? __VOCODER_HASH__ : {};',
+			"globalThis.__VOCODER_HMR__ = applyHotUpdate;",
+		].join("\n");
+
+		expect(plugin.renderChunk(chunk)?.code).toBe(
+			[
+				'const hash = typeof {} !== "undefined" ? {} : {};',
+				"globalThis.__VOCODER_HMR__ = applyHotUpdate;",
+			].join("\n"),
+		);
+	});
+
+	it("leaves chunks without them untouched", () => {
+		const plugin = unplugin.rollup() as unknown as {
+			renderChunk(code: string): { code: string } | null;
+		};
+
+		expect(plugin.renderChunk("export const a = 1;")).toBeNull();
+	});
+});
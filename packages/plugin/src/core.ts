@@ -1,7 +1,15 @@
 import { createHash } from "node:crypto";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { existsSync, readFileSync } from "node:fs";
 import { dirname, relative, resolve } from "node:path";
-import { StringExtractor, loadVocoderConfig } from "@vocoder/extractor";
+import {
+	StringExtractor,
+	extractFromContent,
+	findSourceFiles,
+	loadVocoderConfig,
+} from "@vocoder/extractor";
+import type { ExtractedString, ExtractionDiagnostic } from "@vocoder/extractor";
+import { getCachedBundlePath, readNearestBundle, writeCachedBundle } from "@vocoder/config/cache";
+import { parse } from "@formatjs/icu-messageformat-parser";
 import type { VocoderTranslationData } from "./types";
 
 /**
@@ -64,17 +72,121 @@ const DEFAULT_INCLUDE = ["**/*.{tsx,jsx,ts,js}"];
  * Patterns come from vocoder.config.{ts,js,json} committed to the repository —
  * the single source of truth shared by the build plugin, CLI sync, and git webhook.
  * Falls back to the default glob if no config file exists.
+ *
+ * `legacyKeys` maps each key to the key it had before vocoder.config.ts changed
+ * hashAlgorithm / keyLength (empty otherwise) — see migrateLegacyKeys.
+ * `collisions` are the key-collision diagnostics: one of the colliding strings
+ * would show the other's translation. The plugin fails production builds on them.
  */
-export async function extractSourceTexts(cwd: string): Promise<string[]> {
+export async function extractSourceTexts(cwd: string): Promise<{
+	texts: string[];
+	keys: string[];
+	legacyKeys: Record<string, string>;
+	collisions: ExtractionDiagnostic[];
+}> {
 	const config = loadVocoderConfig(cwd);
 	const include = config?.include ?? DEFAULT_INCLUDE;
 	const exclude = config?.exclude;
 
-	const extractor = new StringExtractor();
-	const results = await extractor.extractFromProject(include, cwd, exclude);
+	const extractor = new StringExtractor(config ?? undefined);
+	const { strings: results, diagnostics } = await extractor.extractFromProject(
+		include,
+		cwd,
+		exclude,
+	);
+
+	const legacyKeys: Record<string, string> = {};
+	for (const r of results) {
+		if (r.legacyKey) legacyKeys[r.key] = r.legacyKey;
+	}
 
 	// Dedup by text — same text with different explicit ids counts once for fingerprinting.
-	return [...new Set(results.map((r) => r.text))];
+	return {
+		texts: [...new Set(results.map((r) => r.text))],
+		keys: [...new Set(results.map((r) => r.key))],
+		legacyKeys,
+		collisions: diagnostics.filter((d) => d.code === "key-collision"),
+	};
+}
+
+/**
+ * Extracted strings per file, kept by the dev-server watch mode so an edit
+ * re-extracts one file instead of the whole project.
+ */
+export interface SourceIndex {
+	/**
+	 * Re-extract `file` (absolute) after it changed, or drop it when deleted.
+	 * Returns false when the file isn't matched by vocoder.config.ts include/exclude.
+	 */
+	update(file: string, deleted?: boolean): Promise<boolean>;
+	/** The same shape extractSourceTexts returns, for the current file contents. */
+	strings(): { texts: string[]; keys: string[]; legacyKeys: Record<string, string> };
+	/** Included files (absolute paths) that have at least one string. */
+	files(): string[];
+	/** Unique keys extracted from `file`, or [] when it isn't included. */
+	keysOf(file: string): string[];
+	/** Source text of every extracted key. */
+	messages(): Map<string, string>;
+}
+
+export async function createSourceIndex(cwd: string): Promise<SourceIndex> {
+	const config = loadVocoderConfig(cwd);
+	const include = config?.include ?? DEFAULT_INCLUDE;
+	const exclude = config?.exclude;
+	const byFile = new Map<string, ExtractedString[]>();
+
+	const extractFile = (file: string) => {
+		try {
+			const relPath = relative(cwd, file).split("\\").join("/");
+			byFile.set(file, extractFromContent(relPath, readFileSync(file, "utf-8"), config ?? undefined).strings);
+		} catch {
+			byFile.delete(file);
+		}
+	};
+
+	for (const file of await findSourceFiles(include, cwd, exclude)) extractFile(file);
+
+	return {
+		async update(file, deleted = false) {
+			if (deleted) return byFile.delete(file);
+			// A file the initial scan didn't see may be new — match it against the globs again.
+			if (!byFile.has(file) && !(await findSourceFiles(include, cwd, exclude)).includes(file)) {
+				return false;
+			}
+			extractFile(file);
+			return true;
+		},
+
+		strings() {
+			const texts = new Set<string>();
+			const keys = new Set<string>();
+			const legacyKeys: Record<string, string> = {};
+			for (const strings of byFile.values()) {
+				for (const s of strings) {
+					texts.add(s.text);
+					keys.add(s.key);
+					if (s.legacyKey) legacyKeys[s.key] = s.legacyKey;
+				}
+			}
+			return { texts: [...texts], keys: [...keys], legacyKeys };
+		},
+
+		files() {
+			return [...byFile].filter(([, strings]) => strings.length > 0).map(([file]) => file);
+		},
+
+		keysOf(file) {
+			return [...new Set((byFile.get(file) ?? []).map((s) => s.key))];
+		},
+
+		messages() {
+			const messages = new Map<string, string>();
+			for (const strings of byFile.values()) {
+				for (const s of strings) messages.set(s.key, s.text);
+			}
+			return messages;
+		},
+	};
 }
 
 /**
@@ -84,21 +196,25 @@ export async function extractSourceTexts(cwd: string): Promise<string[]> {
  */
 export async function extractStringEntries(
 	cwd: string,
-): Promise<Array<{ key: string; text: string }>> {
+): Promise<Array<{ key: string; text: string; legacyKey?: string }>> {
 	const config = loadVocoderConfig(cwd);
 	const include = config?.include ?? DEFAULT_INCLUDE;
 	const exclude = config?.exclude;
 
-	const extractor = new StringExtractor();
-	const results = await extractor.extractFromProject(include, cwd, exclude);
+	const extractor = new StringExtractor(config ?? undefined);
+	const { strings: results } = await extractor.extractFromProject(include, cwd, exclude);
 
 	// Dedup by key (same key = same hash = same string).
 	const seen = new Set<string>();
-	const entries: Array<{ key: string; text: string }> = [];
+	const entries: Array<{ key: string; text: string; legacyKey?: string }> = [];
 	for (const r of results) {
 		if (!seen.has(r.key)) {
 			seen.add(r.key);
-			entries.push({ key: r.key, text: r.text });
+			entries.push({
+				key: r.key,
+				text: r.text,
+				...(r.legacyKey ? { legacyKey: r.legacyKey } : {}),
+			});
 		}
 	}
 	return entries;
@@ -546,8 +662,7 @@ export async function fetchTranslations(
 	apiUrl: string,
 ): Promise<VocoderTranslationData> {
 	const url = `${apiUrl}/api/t/${fingerprint}`;
-	const cacheDir = resolve(process.cwd(), "node_modules", ".vocoder", "cache");
-	const cacheFile = resolve(cacheDir, `${fingerprint}.json`);
+	const cacheFile = getCachedBundlePath(process.cwd(), fingerprint);
 
 	try {
 		const response = await fetch(url, {
@@ -562,12 +677,7 @@ export async function fetchTranslations(
 		const data = (await response.json()) as VocoderTranslationData;
 
 		// Cache to disk for offline fallback
-		try {
-			mkdirSync(cacheDir, { recursive: true });
-			writeFileSync(cacheFile, JSON.stringify(data), "utf-8");
-		} catch {
-			// Non-fatal: caching failed
-		}
+		cacheBundle(fingerprint, data);
 
 		return data;
 	} catch (error) {
@@ -592,6 +702,61 @@ export async function fetchTranslations(
 	}
 }
 
+/**
+ * Cache a bundle in node_modules/.vocoder/cache (see @vocoder/config/cache), so
+ * a later build with a different fingerprint can reuse it (seedFromPreviousBundle).
+ * Never throws — caching is best-effort.
+ */
+function cacheBundle(fingerprint: string, data: VocoderTranslationData): void {
+	try {
+		writeCachedBundle(process.cwd(), fingerprint, data);
+	} catch {
+		// Non-fatal: caching failed
+	}
+}
+
+/**
+ * Fill the keys `data` is missing from the nearest previously cached bundle —
+ * the one sharing the most keys with the current build. Adding a string changes
+ * the fingerprint, and the new bundle stays empty until its batch completes;
+ * seeding means only the new strings show source text meanwhile.
+ *
+ * Only keys still extracted (`keys`) are carried over. When `data` is empty the
+ * previous bundle's locale config is used too. Returns `data` unchanged, with
+ * `carriedOver: 0`, when there is nothing to reuse.
+ */
+export function seedFromPreviousBundle(
+	fingerprint: string,
+	data: VocoderTranslationData,
+	keys: string[],
+): { data: VocoderTranslationData; carriedOver: number; from: string | null } {
+	const current = new Set(keys);
+	const nearest = readNearestBundle(process.cwd(), fingerprint, current);
+	if (!nearest) return { data, carriedOver: 0, from: null };
+	const previous = nearest.data;
+
+	const config = data.config.sourceLocale ? data.config : previous.config;
+	const carried = new Set<string>();
+	const translations = { ...data.translations };
+	// Target locales only — missing source-locale keys already render source text.
+	for (const locale of config.targetLocales) {
+		const seeded = { ...(data.translations[locale] ?? {}) };
+		for (const [key, text] of Object.entries(previous.translations[locale] ?? {})) {
+			if (!current.has(key) || key in seeded) continue;
+			seeded[key] = text;
+			carried.add(key);
+		}
+		if (Object.keys(seeded).length > 0) translations[locale] = seeded;
+	}
+	if (carried.size === 0) return { data, carriedOver: 0, from: null };
+
+	return {
+		data: { ...data, config, translations },
+		carriedOver: carried.size,
+		from: nearest.fingerprint,
+	};
+}
+
 /**
  * Poll the CDN for a translation bundle until it appears or the timeout elapses.
  * The CDN is only populated after the translation batch fully completes, so a
@@ -605,8 +770,6 @@ export async function pollCDNForTranslations(
 	cdnUrl: string,
 ): Promise<VocoderTranslationData | null> {
 	const url = `${cdnUrl}/${fingerprint}/bundle.json`;
-	const cacheDir = resolve(process.cwd(), "node_modules", ".vocoder", "cache");
-	const cacheFile = resolve(cacheDir, `${fingerprint}.json`);
 	const deadline = Date.now() + CDN_POLL_MAX_WAIT_MS;
 
 	while (Date.now() < deadline) {
@@ -618,12 +781,7 @@ export async function pollCDNForTranslations(
 
 			if (response.ok) {
 				const data = (await response.json()) as VocoderTranslationData;
-				try {
-					mkdirSync(cacheDir, { recursive: true });
-					writeFileSync(cacheFile, JSON.stringify(data), "utf-8");
-				} catch {
-					// Non-fatal
-				}
+				cacheBundle(fingerprint, data);
 				return data;
 			}
 
@@ -684,3 +842,128 @@ export async function reportBuildFallback(params: {
 		// Never let telemetry affect the build
 	}
 }
+
+/**
+ * Build translation data from the files `vocoder sync` / `vocoder translations`
+ * write to `localesPath` in vocoder.config.ts: `_config.json` (source and target
+ * locales plus locale metadata) and one hash-keyed `<locale>.json` per locale.
+ * A locale without a file gets no translations and shows source text.
+ *
+ * Returns null when there is no `_config.json` or it can't be parsed — the
+ * caller decides whether that means fetching from the API or building empty.
+ */
+export function readLocaleFiles(
+	cwd: string,
+	localesPath: string,
+): VocoderTranslationData | null {
+	const dir = resolve(cwd, localesPath);
+	const configFile = resolve(dir, "_config.json");
+	if (!existsSync(configFile)) return null;
+
+	let config: VocoderTranslationData["config"];
+	try {
+		config = JSON.parse(readFileSync(configFile, "utf-8")) as VocoderTranslationData["config"];
+	} catch {
+		console.warn(`[vocoder] Could not parse ${relative(cwd, configFile)} — ignoring ${localesPath}.`);
+		return null;
+	}
+	if (!config.sourceLocale) return null;
+
+	const translations: Record<string, Record<string, string>> = {};
+	for (const locale of [config.sourceLocale, ...config.targetLocales]) {
+		const localeFile = resolve(dir, `${locale}.json`);
+		if (!existsSync(localeFile)) continue;
+		try {
+			translations[locale] = JSON.parse(readFileSync(localeFile, "utf-8")) as Record<string, string>;
+		} catch {
+			console.warn(`[vocoder] Could not parse ${relative(cwd, localeFile)} — ${locale} will show source text.`);
+		}
+	}
+
+	return {
+		config: { ...config, locales: config.locales ?? {} },
+		translations,
+		updatedAt: null,
+	};
+}
+
+/**
+ * Fill the keys a locale hasn't translated from its fallback chain
+ * (`fallbacks[locale]` in vocoder.config.ts), earlier fallbacks winning.
+ * The source locale is never merged — missing keys already render source text.
+ *
+ * Returns the merged translations and, for QA, which keys a fallback
+ * supplied (hash → fallback locale).
+ */
+export function mergeLocaleFallbacks(
+	locale: string,
+	data: VocoderTranslationData,
+	fallbacks: Record<string, string[]> | undefined,
+): { translations: Record<string, string>; fallbackKeys: Record<string, string> } {
+	const translations = { ...(data.translations[locale] ?? {}) };
+	const fallbackKeys: Record<string, string> = {};
+
+	for (const fallback of fallbacks?.[locale] ?? []) {
+		if (fallback === locale || fallback === data.config.sourceLocale) continue;
+		for (const [key, text] of Object.entries(data.translations[fallback] ?? {})) {
+			if (key in translations) continue;
+			translations[key] = text;
+			fallbackKeys[key] = fallback;
+		}
+	}
+
+	return { translations, fallbackKeys };
+}
+
+/**
+ * Carry translations over to new keys after vocoder.config.ts changed
+ * hashAlgorithm / keyLength. Bundles synced before the change are keyed by the
+ * old 7-character hashes; `legacyKeys` (new key → old key, from
+ * extractSourceTexts) copies each old entry to its new key. Keys the bundle
+ * already has are left as they are.
+ */
+export function migrateLegacyKeys(
+	data: VocoderTranslationData,
+	legacyKeys: Record<string, string>,
+): VocoderTranslationData {
+	const pairs = Object.entries(legacyKeys);
+	if (pairs.length === 0) return data;
+
+	const translations: Record<string, Record<string, string>> = {};
+	for (const [locale, entries] of Object.entries(data.translations)) {
+		const migrated = { ...entries };
+		for (const [key, legacyKey] of pairs) {
+			if (!(key in migrated) && legacyKey in entries) migrated[key] = entries[legacyKey]!;
+		}
+		translations[locale] = migrated;
+	}
+	return { ...data, translations };
+}
+
+// Same test as @vocoder/core's formatICU: text without it is never formatted.
+const ICU_SYNTAX = /[{}]|''/;
+
+/**
+ * precompile: ICU ASTs keyed by message text, parsed the way @vocoder/core's
+ * formatICU parses (ignoreTag). Plain text is left out — the runtime returns it
+ * as is — and so are messages that don't parse, which the runtime shows raw.
+ */
+export function compileMessages(texts: Iterable<string>, locale: string): Record<string, unknown> {
+	let intlLocale: Intl.Locale | undefined;
+	try {
+		intlLocale = new Intl.Locale(locale);
+	} catch {
+		// Not a valid BCP 47 tag — only affects the j/J hour cycle in date skeletons.
+	}
+
+	const compiled: Record<string, unknown> = {};
+	for (const text of texts) {
+		if (text in compiled || !ICU_SYNTAX.test(text)) continue;
+		try {
+			compiled[text] = parse(text, { ignoreTag: true, captureLocation: false, locale: intlLocale });
+		} catch {
+			// Malformed — left for the runtime to show as is.
+		}
+	}
+	return compiled;
+}
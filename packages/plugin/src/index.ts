@@ -1,18 +1,36 @@
+import { createHash } from "node:crypto";
+import { relative } from "node:path";
 import type { VocoderPluginOptions, VocoderTranslationData } from "./types";
+import type { SourceIndex } from "./core";
 import {
+	compileMessages,
 	computeFingerprint,
+	createSourceIndex,
 	detectBranch,
 	detectCommitSha,
 	extractSourceTexts,
 	fetchTranslations,
 	loadEnvFile,
+	mergeLocaleFallbacks,
+	migrateLegacyKeys,
 	pollCDNForTranslations,
+	readLocaleFiles,
 	reportBuildFallback,
+	seedFromPreviousBundle,
 	triggerOnDemandSync,
 } from "./core";
 
 import { createUnplugin } from "unplugin";
-import { transformMsgProps } from "@vocoder/extractor";
+import type { UnpluginOptions } from "unplugin";
+import {
+	formatExtractionDiagnostic,
+	loadVocoderConfig,
+	parseErrorDiagnostic,
+	transformMsgProps,
+	transformSvelteT,
+	transformVueT,
+} from "@vocoder/extractor";
+import type { TransformResult } from "@vocoder/extractor";
 
 export type { VocoderPluginOptions, VocoderTranslationData };
 export {
@@ -25,23 +43,63 @@ export {
 const VIRTUAL_PREFIX = "virtual:vocoder/";
 const STRIPPED_PREFIX = "vocoder/";
 const RESOLVED_PREFIX = "\0virtual:vocoder/";
+// @vocoder/core's package-private import of its ICU parser (IntlMessageFormat).
+const ICU_PARSER_IMPORT = "#icu-parser";
 
 // Shared across all compiler instances in the same process (Next.js runs server + client + edge).
 // Keyed by cwd + apiUrl so different API endpoints stay isolated.
-type InitResult = { fingerprint: string; data: VocoderTranslationData };
+// `watch` is set when the dev server can re-fingerprint and sync on edits (API mode only).
+type InitResult = {
+	fingerprint: string;
+	data: VocoderTranslationData;
+	watch?: { apiKey: string; shortCode: string; branch: string };
+};
 const _initCache = new Map<string, Promise<InitResult>>();
+// Dev-server source watchers, shared and keyed like _initCache.
+const _watchers = new Map<string, SourceWatcher>();
+// Per-file extracted strings for watch mode and splitTranslations, keyed like _initCache.
+const _sourceIndexes = new Map<string, Promise<SourceIndex>>();
+
+const SOURCE_FILE = /\.([jt]sx?|vue|svelte)$/;
+// splitTranslations scopes JS/TS modules only — .vue and .svelte strings stay in the locale module.
+const SCRIPT_FILE = /\.[jt]sx?$/;
+const WATCH_DEBOUNCE_MS = 1500;
+
+const EMPTY_TRANSLATION_DATA: VocoderTranslationData = {
+	config: { sourceLocale: "", targetLocales: [], locales: {} },
+	translations: {},
+	updatedAt: null,
+};
 
 export const unplugin = createUnplugin(
-	(options: VocoderPluginOptions | undefined = {}) => {
+	(options: VocoderPluginOptions | undefined = {}, meta) => {
 		// Load .env before reading env vars — build plugins run before bundler's own .env loading
 		loadEnvFile();
 
 		const apiUrl = process.env.VOCODER_API_URL ?? "https://vocoder.app";
 		const cdnUrl = process.env.VOCODER_CDN_URL ?? "https://t.vocoder.app";
 		const cacheKey = [process.cwd(), apiUrl].join("|");
+		const fileConfig = loadVocoderConfig(process.cwd());
+		// Locale fallback chains from vocoder.config.ts, merged into each locale module.
+		const fallbacks = fileConfig?.fallbacks;
+		// tComponents / tFunctions / importSources: extra names the transforms recognise.
+		const extractorOptions = fileConfig ?? undefined;
+
+		// True when running under a dev server (not a production build).
+		// Used to gate sync-on-startup and watch mode: we only seed translations
+		// in dev mode so production builds are never delayed by a translation job.
+		// Read when needed — Vite sets NODE_ENV after the plugin is created.
+		const isDev = () =>
+			process.env.NODE_ENV === "development" ||
+			process.env.VOCODER_DEV === "1";
 
 		let fingerprint: string;
 		let data: VocoderTranslationData | null = null;
+		let watcher: SourceWatcher | null = null;
+		let viteServer: ViteDevServerLike | null = null;
+		// webpack / rspack compiler for the server (Next.js runs one per target).
+		// Server bundles get whole locale modules — splitTranslations is for the browser.
+		let serverBuild = false;
 
 		async function init(): Promise<void> {
 			if (!_initCache.has(cacheKey)) {
@@ -50,16 +108,25 @@ export const unplugin = createUnplugin(
 			const result = await _initCache.get(cacheKey)!;
 			fingerprint = result.fingerprint;
 			data = result.data;
+
+			if (!watcher && result.watch && isDev() && options.watch !== false) {
+				if (!_watchers.has(cacheKey)) {
+					_watchers.set(
+						cacheKey,
+						createSourceWatcher({ ...result.watch, cacheKey, apiUrl, cdnUrl, initial: result }),
+					);
+				}
+				watcher = _watchers.get(cacheKey)!;
+				watcher.subscribe((next) => {
+					fingerprint = next.fingerprint;
+					data = next.data;
+					reloadVirtualModules();
+				});
+			}
 		}
 
 		async function runInit(): Promise<InitResult> {
 			const verbose = options.verbose ?? false;
-			// True when running under a dev server (not a production build).
-			// Used to gate sync-on-startup: we only seed translations in dev mode
-			// so production builds are never delayed by a translation job.
-			const isDev =
-				process.env.NODE_ENV === "development" ||
-				process.env.VOCODER_DEV === "1";
 
 			// VOCODER_FINGERPRINT: manual escape hatch for unusual environments.
 			if (process.env.VOCODER_FINGERPRINT) {
@@ -71,6 +138,26 @@ export const unplugin = createUnplugin(
 				return { fingerprint: fp, data: d };
 			}
 
+			// Local-first: committed locale files from `vocoder sync` win over the API.
+			// No fingerprint, so the runtime doesn't refresh them from the CDN either —
+			// the build ships exactly what's in the repo.
+			const localesPath = fileConfig?.localesPath;
+			const local = localesPath ? readLocaleFiles(process.cwd(), localesPath) : null;
+			if (local || options.offline) {
+				if (local) {
+					console.log(
+						`[vocoder] Loaded ${local.config.targetLocales.length} locale(s) from ${localesPath}`,
+					);
+				} else {
+					console.warn(
+						localesPath
+							? `[vocoder] Offline and no locale files in ${localesPath} — source text will be shown. Run \`vocoder sync\` to write them.`
+							: "[vocoder] Offline and no localesPath in vocoder.config.ts — source text will be shown.",
+					);
+				}
+				return { fingerprint: "", data: local ?? EMPTY_TRANSLATION_DATA };
+			}
+
 			const apiKey = process.env.VOCODER_API_KEY ?? "";
 			const shortCode = apiKey.startsWith("vca_")
 				? apiKey.slice(4, 14)
@@ -80,14 +167,7 @@ export const unplugin = createUnplugin(
 				console.warn(
 					"[vocoder] VOCODER_API_KEY missing or not an app key (vca_...). Translations not loaded.",
 				);
-				return {
-					fingerprint: "",
-					data: {
-						config: { sourceLocale: "", targetLocales: [], locales: {} },
-						translations: {},
-						updatedAt: null,
-					},
-				};
+				return { fingerprint: "", data: EMPTY_TRANSLATION_DATA };
 			}
 
 			if (verbose) {
@@ -95,13 +175,25 @@ export const unplugin = createUnplugin(
 			}
 
 			const extractStart = Date.now();
-			const sourceTexts = await extractSourceTexts(process.cwd());
+			const { texts: sourceTexts, keys, legacyKeys, collisions } = await extractSourceTexts(
+				process.cwd(),
+			);
 			if (verbose) {
 				console.log(
 					`[vocoder] Extraction: ${sourceTexts.length} string(s) in ${Date.now() - extractStart}ms`,
 				);
 			}
 
+			// A colliding key ships one string with the other's translation — fail
+			// production builds; dev keeps running so the fix can hot-reload.
+			if (collisions.length > 0) {
+				const report = collisions.map(formatExtractionDiagnostic).join("\n");
+				if (!isDev()) {
+					throw new Error(`[vocoder] ${collisions.length} key collision(s):\n${report}`);
+				}
+				console.error(`[vocoder] ${report}`);
+			}
+
 			// Compute fingerprint fully offline — appShortCode is embedded in the vca_ key.
 			// No network call needed; formula matches server computeBranchFingerprint().
 			const branch = detectBranch();
@@ -118,7 +210,6 @@ export const unplugin = createUnplugin(
 			// complete (the CDN is only populated after compileTranslationBundleForApp).
 			// Falls back to the API which has its own server-side wait logic.
 			let d: VocoderTranslationData | null = null;
-			let fellBackToRuntime = false;
 			if (cdnUrl) {
 				if (verbose) {
 					console.log(`[vocoder] Polling CDN: ${cdnUrl}/${fp}/bundle.json`);
@@ -134,17 +225,6 @@ export const unplugin = createUnplugin(
 				d = await fetchTranslations(fp, apiUrl);
 			}
 
-			// If we still have no translations, the build will ship without baked
-			// translations and fall back to runtime CDN fetching. Log clearly and
-			// report to Vocoder so it surfaces in operator alerting.
-			if (!isDev && d && !d.config.sourceLocale) {
-				fellBackToRuntime = true;
-				const reason = "No translations available after CDN polling and API fallback";
-				console.warn(`[vocoder] WARNING: ${reason}. Translations will be fetched from CDN at runtime.`);
-				console.warn(`[vocoder] Fingerprint: ${fp} — check your Vocoder dashboard if this persists.`);
-				void reportBuildFallback({ apiUrl, apiKey, fingerprint: fp, reason, stringsCount: sourceTexts.length });
-			}
-
 			if (verbose) {
 				console.log(`[vocoder] Fetch: ${Date.now() - fetchStart}ms`);
 			}
@@ -154,7 +234,7 @@ export const unplugin = createUnplugin(
 			// yet for this fingerprint), trigger a sync now so the developer sees
 			// translated UI on first run rather than raw source strings.
 			const hasTranslations = d.config.sourceLocale !== "";
-			if (isDev && !hasTranslations && fp && sourceTexts.length > 0) {
+			if (isDev() && !hasTranslations && fp && sourceTexts.length > 0) {
 				const synced = await triggerOnDemandSync({
 					fingerprint: fp,
 					branch,
@@ -165,6 +245,29 @@ export const unplugin = createUnplugin(
 				if (synced) d = synced;
 			}
 
+			// A new fingerprint (strings added or changed) starts from an empty or
+			// partial bundle — reuse the still-valid keys of the nearest cached one.
+			// After sync-on-startup, which only runs for an empty bundle.
+			d = migrateLegacyKeys(d, legacyKeys);
+			const seeded = seedFromPreviousBundle(fp, d, keys);
+			if (seeded.carriedOver > 0) {
+				d = seeded.data;
+				console.log(
+					`[vocoder] Carried over ${seeded.carriedOver} key(s) from previous bundle ${seeded.from}`,
+				);
+			}
+
+			// If we still have no translations — nothing fetched and nothing carried
+			// over — the build will ship without baked translations and fall back to
+			// runtime CDN fetching. Log clearly and report to Vocoder so it surfaces
+			// in operator alerting.
+			if (!isDev() && !d.config.sourceLocale) {
+				const reason = "No translations available after CDN polling and API fallback";
+				console.warn(`[vocoder] WARNING: ${reason}. Translations will be fetched from CDN at runtime.`);
+				console.warn(`[vocoder] Fingerprint: ${fp} — check your Vocoder dashboard if this persists.`);
+				void reportBuildFallback({ apiUrl, apiKey, fingerprint: fp, reason, stringsCount: sourceTexts.length });
+			}
+
 			if (d.config.sourceLocale) {
 				const localeCount = d.config.targetLocales.length;
 				const stringCount = (Object.values(d.translations) as Record<string, string>[]).reduce(
@@ -180,7 +283,72 @@ export const unplugin = createUnplugin(
 				);
 			}
 
-			return { fingerprint: fp, data: d };
+			return { fingerprint: fp, data: d, watch: { apiKey, shortCode, branch } };
+		}
+
+		/**
+		 * splitTranslations: scope id → keys, for every JS/TS module with strings.
+		 * Taken from the source index rather than from transform() so the locale
+		 * modules are complete whatever order the bundler loads modules in.
+		 */
+		async function translationScopes(): Promise<Map<string, string[]>> {
+			const index = await getSourceIndex(cacheKey);
+			const scopes = new Map<string, string[]>();
+			for (const file of index.files()) {
+				if (SCRIPT_FILE.test(file)) scopes.set(scopeIdOf(file), index.keysOf(file));
+			}
+			return scopes;
+		}
+
+		/**
+		 * Re-run the virtual modules after the watcher published new translations.
+		 * Their HMR footer (hotUpdateFooter) hands the new exports to the runtime.
+		 */
+		function reloadVirtualModules(): void {
+			if (viteServer) {
+				for (const [id, mod] of viteServer.moduleGraph.idToModuleMap) {
+					if (id.startsWith(RESOLVED_PREFIX)) void viteServer.reloadModule(mod);
+				}
+				return;
+			}
+
+			// webpack / rspack: unplugin serves virtual modules from webpack-virtual-modules.
+			// Rewriting one marks it changed, so webpack runs load() again and sends an HMR update.
+			const { __vfs: vfs, __vfsModules: paths, __virtualModulePrefix: prefix } =
+				plugin as UnpluginOptions & WebpackVirtualModules;
+			if (!vfs || !paths || !prefix) return;
+			for (const path of paths) {
+				if (decodeURIComponent(path.slice(prefix.length)).startsWith(RESOLVED_PREFIX)) {
+					vfs.writeModule(path, "");
+				}
+			}
+		}
+
+		/**
+		 * Dev only: accept HMR for a virtual module and, when it re-runs with new
+		 * exports, pass them to @vocoder/core's runtime (`__VOCODER_HMR__`).
+		 */
+		function hotUpdateFooter(payload: string): string {
+			if (!watcher) return "";
+			if (meta.framework === "vite") {
+				return [
+					"if (import.meta.hot) {",
+					"  import.meta.hot.accept();",
+					`  if (import.meta.hot.data.vocoder) globalThis.__VOCODER_HMR__?.(${payload});`,
+					"  import.meta.hot.data.vocoder = true;",
+					"}",
+				].join("\n");
+			}
+			if (meta.framework === "webpack" || meta.framework === "rspack") {
+				return [
+					"if (import.meta.webpackHot) {",
+					"  import.meta.webpackHot.accept();",
+					`  if (import.meta.webpackHot.data) globalThis.__VOCODER_HMR__?.(${payload});`,
+					"  import.meta.webpackHot.dispose((hotData) => { hotData.vocoder = true; });",
+					"}",
+				].join("\n");
+			}
+			return "";
 		}
 
 		function getDefineValues(): Record<string, string> {
@@ -190,12 +358,28 @@ export const unplugin = createUnplugin(
 				__VOCODER_CDN_URL__: JSON.stringify(cdnUrl ?? ""),
 				__VOCODER_BUILD_TS__: JSON.stringify(Date.now()),
 				__VOCODER_PREVIEW__: JSON.stringify(options?.preview ?? false),
+				// Runtime generateMessageHash must produce the keys the extractor did.
+				__VOCODER_HASH__: JSON.stringify({
+					algorithm: fileConfig?.hashAlgorithm,
+					keyLength: fileConfig?.keyLength,
+				}),
 			};
 		}
 
-		return {
+		// Rollup and Rolldown have no define option — substitute the constants in
+		// each rendered chunk instead (property accesses like globalThis.__VOCODER_HMR__ are left alone).
+		const defineInChunks = {
+			renderChunk(code: string) {
+				if (!code.includes("__VOCODER_")) return null;
+				const values = getDefineValues();
+				const replaced = code.replace(DEFINE_IDENTIFIER, (name) => values[name] ?? name);
+				return replaced === code ? null : { code: replaced, map: null };
+			},
+		};
+
+		const plugin: UnpluginOptions = {
 			name: "vocoder",
-			enforce: "pre" as const,
+			enforce: "pre",
 
 			async buildStart() {
 				await init();
@@ -205,26 +389,67 @@ export const unplugin = createUnplugin(
 			// the message prop at build time, enabling the natural authoring syntax:
 			//   <T count={count}>You have {count} items</T>
 			//
+			// Vue (.vue) SFCs go through transformVueT, which converts {{ count }} → {count}
+			// in the template <T> and injects id/message/:values. enforce: "pre" ensures
+			// this runs on the raw SFC before @vitejs/plugin-vue / vue-loader compile it.
+			//
+			// Svelte (.svelte) components go through transformSvelteT, which injects
+			// id/message/values/components on markup <T>. The plugin must be listed
+			// before sveltekit() / svelte() so it sees the uncompiled component.
+			//
 			// Framework expansion notes — add branches here as SDKs are built:
-			//   Vue (.vue):    transformVueT(code) — needs @vue/compiler-sfc,
-			//                  converts {{ count }} → {count} in extracted template
-			//   Svelte (.svelte): transformSvelteT(code) — needs svelte/compiler,
-			//                  same {count} syntax as JSX so simpler extraction
 			//   Solid (.jsx/.tsx): same Babel parser, different import (@vocoder/solid)
 			// All frameworks use the same message+values convention so extraction
 			// and runtime lookup are identical regardless of framework.
+			//
+			// <T> elements the transforms can't handle surface as bundler warnings.
 			transformInclude(id: string) {
-				return /\.[jt]sx?$/.test(id) && !id.includes("node_modules");
+				return SOURCE_FILE.test(id) && !id.includes("node_modules");
+			},
+
+			// Dev server: an edit to an included file re-extracts it; new or changed
+			// strings re-fingerprint, sync and hot-update the virtual modules.
+			watchChange(id: string, change: { event: "create" | "update" | "delete" }) {
+				if (!watcher || !SOURCE_FILE.test(id) || id.includes("node_modules")) return;
+				watcher.changed(id, change.event === "delete");
 			},
 
-			transform(code: string) {
-				if (!code.includes("@vocoder/react")) return null;
+			// splitTranslations: a module with strings also imports its scope module,
+			// which registers that module's per-locale dictionaries with the runtime.
+			// Appended, so "use client" and other directives stay first.
+			async transform(code: string, id: string, transformOptions?: { ssr?: boolean }) {
+				let result: TransformResult;
 				try {
-					const result = transformMsgProps(code);
-					return result.changed ? { code: result.code } : null;
-				} catch {
-					return null;
+					if (id.endsWith(".vue")) {
+						result = transformVueT(code, id, extractorOptions);
+					} else if (id.endsWith(".svelte")) {
+						result = transformSvelteT(code, id, extractorOptions);
+					} else {
+						result = transformMsgProps(code, id, extractorOptions);
+					}
+				} catch (error) {
+					// The transforms report parse failures themselves — this is one they
+					// didn't catch. The module builds untransformed; say why.
+					result = { code, changed: false, diagnostics: [parseErrorDiagnostic(id, error)] };
 				}
+
+				for (const diagnostic of result.diagnostics) {
+					this.warn({
+						message: formatExtractionDiagnostic(diagnostic),
+						code: diagnostic.code,
+						id,
+						loc: { file: id, line: diagnostic.line, column: diagnostic.column },
+					});
+				}
+
+				let output = result.changed ? result.code : null;
+				const file = id.split("?")[0]!;
+				if (options.splitTranslations && !serverBuild && !transformOptions?.ssr && SCRIPT_FILE.test(file)) {
+					if ((await getSourceIndex(cacheKey)).keysOf(file).length > 0) {
+						output = `${output ?? code}\nimport "${VIRTUAL_PREFIX}scope/${scopeIdOf(file)}";\n`;
+					}
+				}
+				return output === null ? null : { code: output };
 			},
 
 			resolveId(id: string) {
@@ -234,11 +459,17 @@ export const unplugin = createUnplugin(
 				if (id.startsWith(STRIPPED_PREFIX)) {
 					return RESOLVED_PREFIX + id.slice(STRIPPED_PREFIX.length);
 				}
+				// Every locale module ships compiled ASTs, so the runtime's bundled
+				// parser is swapped for an empty one; it imports the real one on demand.
+				if (id === ICU_PARSER_IMPORT && options.precompile) {
+					return `${RESOLVED_PREFIX}icu-parser`;
+				}
 				return null;
 			},
 
-			async load(id: string) {
+			async load(id: string, loadOptions?: { ssr?: boolean }) {
 				if (!id.startsWith(RESOLVED_PREFIX)) return null;
+				if (id === `${RESOLVED_PREFIX}icu-parser`) return "export const bundledParser = undefined;";
 
 				await init();
 				if (!data) return null;
@@ -246,13 +477,77 @@ export const unplugin = createUnplugin(
 				const path = id.slice(RESOLVED_PREFIX.length);
 
 				if (path === "manifest") {
-					return generateManifestModule(data);
+					return [
+						generateManifestModule(data, fallbacks),
+						hotUpdateFooter("{ manifest: { config, loaders } }"),
+					].join("\n");
+				}
+
+				if (path.startsWith("scope/")) {
+					// Lazy loaders: the runtime imports only the active locale's strings,
+					// so a chunk never ships other locales' translations.
+					const scopeId = path.slice("scope/".length);
+					const loaderEntries = Object.keys(data.translations)
+						.map(
+							(locale) =>
+								`  ${JSON.stringify(locale)}: () => import("virtual:vocoder/translations/${locale}/${scopeId}")`,
+						)
+						.join(",\n");
+					return [
+						"const loaders = {",
+						loaderEntries,
+						"};",
+						`(globalThis.__VOCODER_SCOPES__ = globalThis.__VOCODER_SCOPES__ || []).push({ id: ${JSON.stringify(scopeId)}, loaders });`,
+						hotUpdateFooter("{}"),
+					].join("\n");
 				}
 
 				if (path.startsWith("translations/")) {
-					const locale = path.slice("translations/".length);
-					const translations = data.translations[locale] ?? {};
-					return `export default ${JSON.stringify(translations)};`;
+					// translations/<locale>, or translations/<locale>/<scope id> with splitTranslations.
+					const [locale, scopeId] = path.slice("translations/".length).split("/") as [
+						string,
+						string | undefined,
+					];
+					let { translations, fallbackKeys } = mergeLocaleFallbacks(
+						locale,
+						data,
+						fallbacks,
+					);
+
+					const split = options.splitTranslations && !serverBuild && !loadOptions?.ssr;
+					let include: ((key: string) => boolean) | null = null;
+					if (scopeId || split) {
+						const scopes = await translationScopes();
+						const keep = scopeId ? new Set(scopes.get(scopeId) ?? []) : null;
+						const scoped = new Set([...scopes.values()].flat());
+						// A scope module gets its own keys; the locale module everything no scope has.
+						include = (key: string) => (keep ? keep.has(key) : !scoped.has(key));
+						translations = pickKeys(translations, include);
+						fallbackKeys = pickKeys(fallbackKeys, include);
+					}
+
+					// precompile: the translations plus the source text of keys this locale
+					// lacks, which the runtime renders instead.
+					const lines: string[] = [];
+					if (options.precompile) {
+						const texts = Object.values(translations);
+						for (const [key, text] of (await getSourceIndex(cacheKey)).messages()) {
+							if (!(key in translations) && (!include || include(key))) texts.push(text);
+						}
+						lines.push(`export const compiled = ${JSON.stringify(compileMessages(texts, locale))};`);
+					}
+
+					const scopeField = scopeId ? `scope: ${JSON.stringify(scopeId)}, ` : "";
+					const compiledField = options.precompile ? ", compiled" : "";
+					return [
+						`const translations = ${JSON.stringify(translations)};`,
+						"export default translations;",
+						`export const fallbackKeys = ${JSON.stringify(fallbackKeys)};`,
+						...lines,
+						hotUpdateFooter(
+							`{ ${scopeField}locale: ${JSON.stringify(locale)}, translations, fallbackKeys${compiledField} }`,
+						),
+					].join("\n");
 				}
 
 				return null;
@@ -263,9 +558,14 @@ export const unplugin = createUnplugin(
 					await init();
 					return { define: getDefineValues() };
 				},
+
+				configureServer(server: ViteDevServerLike) {
+					viteServer = server;
+				},
 			},
 
 			webpack(compiler) {
+				serverBuild = isServerCompiler(compiler.options);
 				try {
 					const wp = require("webpack");
 					new wp.DefinePlugin(getDefineValues()).apply(compiler);
@@ -273,12 +573,162 @@ export const unplugin = createUnplugin(
 					// Not in a webpack environment — skip
 				}
 			},
+
+			rspack(compiler) {
+				serverBuild = isServerCompiler(compiler.options);
+				new compiler.rspack.DefinePlugin(getDefineValues()).apply(compiler);
+			},
+
+			esbuild: {
+				// Runs during esbuild's plugin setup, before it reads initialOptions.
+				async setup(build) {
+					await init();
+					build.initialOptions.define = {
+						...build.initialOptions.define,
+						...getDefineValues(),
+					};
+				},
+			},
+
+			rollup: defineInChunks,
+			rolldown: defineInChunks,
 		};
+
+		return plugin;
 	},
 );
 
-function generateManifestModule(data: VocoderTranslationData): string {
-	const { config, translations } = data;
+// A build-time constant as a standalone identifier (not a property name).
+const DEFINE_IDENTIFIER = /(?<![\w$.])__VOCODER_[A-Z_]+__(?![\w$])/g;
+
+/** Next.js names its server compilers "server" / "edge-server"; other setups target node. */
+function isServerCompiler(options: { name?: string; target?: unknown }): boolean {
+	const { name, target } = options;
+	return name === "server" || name === "edge-server" || String(target ?? "").includes("node");
+}
+
+/** The parts of Vite's dev server the HMR reload uses. */
+interface ViteDevServerLike {
+	moduleGraph: { idToModuleMap: Map<string, unknown> };
+	reloadModule(module: unknown): Promise<void>;
+}
+
+/** What unplugin's webpack adapter attaches to the plugin object for virtual modules. */
+interface WebpackVirtualModules {
+	__vfs?: { writeModule(path: string, contents: string): void };
+	__vfsModules?: Set<string>;
+	__virtualModulePrefix?: string;
+}
+
+interface SourceWatcher {
+	/** An included file changed or was deleted. */
+	changed(file: string, deleted: boolean): void;
+	/** Called with the new fingerprint and translations after each update. */
+	subscribe(listener: (result: InitResult) => void): void;
+}
+
+/**
+ * Dev-server watch mode. Keeps extracted strings per file (createSourceIndex),
+ * and after edits settle for WATCH_DEBOUNCE_MS recomputes the fingerprint. A new
+ * fingerprint publishes whatever translations exist for it right away (seeded
+ * from the nearest cached bundle), then syncs the new strings and publishes again.
+ */
+function createSourceWatcher(params: {
+	cacheKey: string;
+	apiUrl: string;
+	cdnUrl: string;
+	apiKey: string;
+	shortCode: string;
+	branch: string;
+	initial: InitResult;
+}): SourceWatcher {
+	const { cacheKey, apiUrl, cdnUrl, apiKey, shortCode, branch } = params;
+	const sourceIndex = getSourceIndex(cacheKey);
+	const listeners = new Set<(result: InitResult) => void>();
+	let current = params.initial;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	// Updates run one at a time, in order.
+	let queue: Promise<void> = Promise.resolve();
+
+	const enqueue = (task: () => Promise<void>) => {
+		queue = queue.then(task).catch((err) => {
+			console.warn("[vocoder] Watch update failed (non-fatal):", err instanceof Error ? err.message : err);
+		});
+	};
+
+	const publish = (result: InitResult) => {
+		current = result;
+		_initCache.set(cacheKey, Promise.resolve(result));
+		for (const listener of listeners) listener(result);
+	};
+
+	async function refresh(): Promise<void> {
+		const { texts, keys, legacyKeys } = (await sourceIndex).strings();
+		const fp = computeFingerprint(shortCode, texts);
+		if (fp === current.fingerprint) return;
+		console.log(`[vocoder] Source strings changed: ${texts.length} string(s) → fingerprint ${fp}`);
+
+		const withPrevious = (d: VocoderTranslationData) => {
+			const seeded = seedFromPreviousBundle(fp, migrateLegacyKeys(d, legacyKeys), keys);
+			if (seeded.carriedOver > 0) {
+				console.log(`[vocoder] Carried over ${seeded.carriedOver} key(s) from previous bundle ${seeded.from}`);
+			}
+			return seeded.data;
+		};
+
+		const fetched = await fetchTranslations(fp, apiUrl);
+		publish({ ...current, fingerprint: fp, data: withPrevious(fetched) });
+		if (fetched.config.sourceLocale || texts.length === 0) return;
+
+		const synced = await triggerOnDemandSync({ fingerprint: fp, branch, apiUrl, apiKey, cdnUrl });
+		// Skip if another edit moved the fingerprint on while the sync ran.
+		if (synced && current.fingerprint === fp) {
+			publish({ ...current, data: withPrevious(synced) });
+		}
+	}
+
+	return {
+		changed(file, deleted) {
+			enqueue(async () => {
+				if (!(await (await sourceIndex).update(file, deleted))) return;
+				clearTimeout(timer);
+				timer = setTimeout(() => enqueue(refresh), WATCH_DEBOUNCE_MS);
+			});
+		},
+
+		subscribe(listener) {
+			listeners.add(listener);
+		},
+	};
+}
+
+function getSourceIndex(cacheKey: string): Promise<SourceIndex> {
+	if (!_sourceIndexes.has(cacheKey)) {
+		_sourceIndexes.set(cacheKey, createSourceIndex(process.cwd()));
+	}
+	return _sourceIndexes.get(cacheKey)!;
+}
+
+/** Stable id for a source file's translation scope — a hash of its path from the project root. */
+function scopeIdOf(file: string): string {
+	const relPath = relative(process.cwd(), file).split("\\").join("/");
+	return createHash("sha256").update(relPath).digest("hex").slice(0, 10);
+}
+
+function pickKeys<T>(entries: Record<string, T>, include: (key: string) => boolean): Record<string, T> {
+	const picked: Record<string, T> = {};
+	for (const [key, value] of Object.entries(entries)) {
+		if (include(key)) picked[key] = value;
+	}
+	return picked;
+}
+
+function generateManifestModule(
+	data: VocoderTranslationData,
+	fallbacks: Record<string, string[]> | undefined,
+): string {
+	const { translations } = data;
+	const config = fallbacks ? { ...data.config, fallbacks } : data.config;
 
 	const loaderEntries = Object.keys(translations)
 		.map(
@@ -1,3 +1,4 @@
+import { loadVocoderConfig } from "@vocoder/extractor";
 import { loadEnvFile } from "./core";
 import { unplugin } from "./index";
 import type { VocoderPluginOptions } from "./types";
@@ -28,6 +29,13 @@ export function withVocoder(
 	// If VOCODER_FINGERPRINT is set (manual override), pass it through to env for Turbopack.
 	const fingerprintOverride = process.env.VOCODER_FINGERPRINT;
 
+	// Turbopack applies no DefinePlugin — pass hash settings that differ from the defaults through env.
+	const fileConfig = loadVocoderConfig(process.cwd());
+	const hashOverride =
+		fileConfig?.hashAlgorithm || fileConfig?.keyLength
+			? JSON.stringify({ algorithm: fileConfig.hashAlgorithm, keyLength: fileConfig.keyLength })
+			: undefined;
+
 	const vocoderPlugin = unplugin.webpack(pluginOptions);
 
 	return {
@@ -40,6 +48,7 @@ export function withVocoder(
 			...(fingerprintOverride
 				? { VOCODER_FINGERPRINT: fingerprintOverride }
 				: {}),
+			...(hashOverride ? { VOCODER_HASH: hashOverride } : {}),
 		},
 		webpack(
 			config: Record<string, unknown>,
@@ -16,6 +16,39 @@ export interface VocoderPluginOptions {
 	 * @default false
 	 */
 	preview?: boolean;
+	/**
+	 * Never call the Vocoder API or CDN. Translations come only from the files
+	 * in `localesPath` (vocoder.config.ts); without them the build shows source
+	 * text. For air-gapped CI and forks without a `VOCODER_API_KEY`.
+	 * Builds already use `localesPath` without network access when its files exist.
+	 * @default false
+	 */
+	offline?: boolean;
+	/**
+	 * In dev (`vite dev`, `next dev`), re-extract edited files and, when the
+	 * source strings change, sync the new ones and hot-update translations
+	 * without a reload. Set `false` to keep the startup translations until restart.
+	 * @default true
+	 */
+	watch?: boolean;
+	/**
+	 * Split each locale's translations by source module instead of shipping the
+	 * whole dictionary: a module's strings load with its code-split chunk and
+	 * merge into the loaded locale, so a page only downloads the strings its
+	 * routes use. Strings show source text until their chunk's translations
+	 * arrive. Server bundles keep whole locale modules.
+	 * @default false
+	 */
+	splitTranslations?: boolean;
+	/**
+	 * Parse ICU messages at build time and ship the AST in the locale modules.
+	 * @vocoder/core formats them without IntlMessageFormat and plain strings
+	 * skip formatting, so the ICU parser is left out of client bundles.
+	 * Messages that arrive after the build (runtime CDN refresh) import it on
+	 * demand and get `{name}` substitution until it loads.
+	 * @default false
+	 */
+	precompile?: boolean;
 }
 
 export interface VocoderTranslationData {
@@ -28,6 +61,8 @@ export interface VocoderTranslationData {
 			currencyCode?: string;
 			ordinalForms?: { type: "suffix"; suffixes: { zero?: string; one?: string; two?: string; few?: string; many?: string; other: string } } | { type: "word"; words: Record<string, Record<number, string>> };
 		}>;
+		/** Copied from vocoder.config.ts `fallbacks` when the manifest is generated. */
+		fallbacks?: Record<string, string[]>;
 	};
 	translations: Record<string, Record<string, string>>;
 	updatedAt: string | null;
@@ -1,8 +1,8 @@
 import * as DropdownMenu from "@radix-ui/react-dropdown-menu";
+import { isVocoderEnabled } from "@vocoder/core";
 
 import type { LocaleSelectorProps } from "./types";
 import React from "react";
-import { isVocoderEnabled } from "./preview";
 import { useVocoder } from "./VocoderProvider";
 
 const POSITION_MAP: Record<string, string> = {
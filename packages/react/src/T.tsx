@@ -1,84 +1,20 @@
+import {
+	buildPluralICU,
+	buildSelectICU,
+	classifyProp,
+	DEFAULT_ORDINAL_ICU,
+	formatICU,
+	formatValue,
+	generateMessageHash,
+	isMessageDescriptor,
+	rewriteSelectordinalInICU,
+} from "@vocoder/core";
 import React from "react";
 import type { ComponentSlot, TProps } from "./types";
-import { generateMessageHash } from "./hash";
 import { extractText } from "./utils/extractText";
 import { formatElements } from "./utils/formatElements";
-import { formatICU, rewriteSelectordinalInICU } from "./utils/formatMessage";
-import { formatValue } from "./utils/formatValue";
 import { useVocoder } from "./VocoderProvider";
 
-// CLDR plural categories that unambiguously indicate plural mode.
-// "other" is excluded because it doubles as the fallback in select mode.
-const PLURAL_CLDR = new Set(["zero", "one", "two", "few", "many"]);
-// Full set used in ICU builders where mode is already resolved.
-const ALL_CLDR = new Set(["zero", "one", "two", "few", "many", "other"]);
-
-/**
- * Classify a rest prop key for plural/select mode detection.
- * Spread props are NEVER used as interpolation values — use the `values` prop instead.
- *
- * - "zero","one","two","few","many" or _N (digits) → plural category / exact match
- * - "other" → shared fallback (plural or select depending on context)
- * - _word (letters after underscore) → select case
- * - anything else → ignored (not used as interpolation — avoids collisions with reserved names)
- */
-function classifyProp(key: string): "plural" | "select" | "other" | "ignore" {
-	if (PLURAL_CLDR.has(key) || /^_\d+$/.test(key)) return "plural";
-	if (key === "other") return "other";
-	if (/^_[a-zA-Z]/.test(key)) return "select";
-	return "ignore";
-}
-
-// Must stay byte-for-byte identical to DEFAULT_ORDINAL_ICU in @vocoder/extractor/src/index.ts.
-// Locale-neutral: no source-language ordinal suffixes. The actual ordinal form is
-// resolved via ordinalForms (Tier 1). Tier 2 evaluates `other {#}` to String(rank).
-const DEFAULT_ORDINAL_ICU = "{count, selectordinal, other {#}}";
-
-/**
- * Build an ICU plural string from plural props.
- * Exact matches (_0 → =0) come before CLDR categories.
- * Internal variable is always "count" for consistent lookup keys.
- * Must stay byte-for-byte identical to buildPluralICU in @vocoder/extractor/src/index.ts.
- */
-function buildPluralICU(props: Record<string, string>): string {
-	const exact: string[] = [];
-	const cldr: string[] = [];
-
-	for (const [key, text] of Object.entries(props)) {
-		const exactMatch = key.match(/^_(\d+)$/);
-		if (exactMatch) {
-			exact.push(`=${exactMatch[1]} {${text}}`);
-		} else if (ALL_CLDR.has(key)) {
-			cldr.push(`${key} {${text}}`);
-		}
-	}
-
-	return `{count, plural, ${[...exact, ...cldr].join(" ")}}`;
-}
-
-/**
- * Build an ICU select string from select props.
- * Internal variable is always "value" for consistent lookup keys.
- * Must stay byte-for-byte identical to buildSelectICU in @vocoder/extractor/src/index.ts.
- */
-function buildSelectICU(props: Record<string, string>): string {
-	const cases: string[] = [];
-	let hasOther = false;
-
-	for (const [key, text] of Object.entries(props)) {
-		if (key === "other") {
-			hasOther = true;
-			cases.push(`other {${text}}`);
-		} else {
-			const wordCase = key.match(/^_([a-zA-Z].*)$/);
-			if (wordCase) cases.push(`${wordCase[1]} {${text}}`);
-		}
-	}
-
-	if (!hasOther) cases.push("other {other}");
-	return `{value, select, ${cases.join(" ")}}`;
-}
-
 /** Translate and format message text in JSX. Supports three modes:
  *
  * **Interpolation** (default):
@@ -86,6 +22,7 @@ function buildSelectICU(props: Record<string, string>): string {
  * <T message="Hello {name}!" values={{ name }} />
  * <T>Hello {name}!</T>                    // natural syntax: build plugin injects message + values
  * <T id="welcome" message="Hello!" />     // key-based lookup
+ * <T message={labels.save} />             // descriptor from msg() / defineMessages()
  * ```
  *
  * **Plural** (triggered by one/other/two/few/many props or _N exact matches):
@@ -189,6 +126,8 @@ export const T: React.FC<TProps> = ({
 
 		let sourceText: string;
 		let formatValues: Record<string, any>;
+		// A msg() descriptor carries its own key and context.
+		let descriptorId: string | undefined;
 
 		if (hasPluralMode && value !== undefined) {
 			sourceText = buildPluralICU(pluralProps);
@@ -199,7 +138,12 @@ export const T: React.FC<TProps> = ({
 			formatValues = { value, ...(valuesObj ?? {}) };
 		} else {
 			// Interpolation mode: values come exclusively from the `values` prop
-			sourceText = message ?? extractText(children);
+			if (isMessageDescriptor(message)) {
+				sourceText = message.message;
+				descriptorId = message.id;
+			} else {
+				sourceText = message ?? extractText(children);
+			}
 			formatValues = { ...(valuesObj ?? {}) };
 		}
 
@@ -207,7 +151,7 @@ export const T: React.FC<TProps> = ({
 		// Build transform injects id="hash" automatically for <T> with children.
 		// For plural/select ICU built from props, we hash the ICU string.
 		// Using hash keys keeps the wire payload small (7 chars vs full source string).
-		const lookupKey = id ?? generateMessageHash(sourceText, _context);
+		const lookupKey = id ?? descriptorId ?? generateMessageHash(sourceText, _context);
 
 		// Get translated text or fall back to source
 		const rawText = hasTranslation(lookupKey) ? t(sourceText, undefined, { id: lookupKey }) : sourceText;
@@ -1,32 +1,65 @@
+import { loadHydrationSnapshot } from "@vocoder/core";
+import {
+	getRequestAcceptLanguage,
+	getRequestCookies,
+} from "@vocoder/core/server";
+// Imported through the package entry, not "./VocoderProvider", so the client
+// provider keeps its 'use client' boundary instead of being bundled in here.
+import { VocoderProvider } from "@vocoder/react";
 import type { VocoderProviderServerProps } from "./types";
 
 /**
  * Server-compatible VocoderProvider for Next.js App Router async components.
  *
- * Renders children directly. Locale and translation context for nested <T>
- * components is supplied by the nearest client VocoderProvider in the tree
- * (typically mounted in the root layout). React 19 RSC does not support
- * createContext, so this component cannot manage its own context subtree.
- *
- * The locale and translations props are accepted for API compatibility and
- * future enhancement (e.g. passing pre-loaded translations to the client
- * provider via a hydration mechanism).
+ * Resolves the request's locale from its cookies (or, on a first visit, the
+ * Accept-Language header in `headers`), loads that locale's
+ * translations on the server (async loaders work — no CJS require needed) and
+ * hands the snapshot to the client VocoderProvider as a prop. The client
+ * starts from it directly: no hydration script is embedded or re-read.
  *
  * @example
  * ```tsx
- * export default async function Page() {
+ * // app/layout.tsx
+ * import { cookies } from 'next/headers';
+ * import { VocoderProviderServer } from '@vocoder/react/server';
+ *
+ * export default async function RootLayout({ children }) {
  *   return (
- *     <VocoderProviderServer>
- *       <T>Server-rendered content</T>
- *     </VocoderProviderServer>
- *   )
+ *     <html>
+ *       <body>
+ *         <VocoderProviderServer cookies={await cookies()}>{children}</VocoderProviderServer>
+ *       </body>
+ *     </html>
+ *   );
  * }
  * ```
  */
 export async function VocoderProviderServer({
 	children,
+	cookies,
+	headers,
+	applyDir,
+	localeFromPath,
+	detectLocale = true,
 }: VocoderProviderServerProps) {
-	return <>{children}</>;
+	const cookieString = getRequestCookies({ cookies, headers });
+	const snapshot = await loadHydrationSnapshot(
+		cookieString,
+		undefined,
+		detectLocale ? getRequestAcceptLanguage({ headers }) : undefined,
+	);
+
+	return (
+		<VocoderProvider
+			cookies={cookieString}
+			applyDir={applyDir}
+			localeFromPath={localeFromPath}
+			detectLocale={detectLocale}
+			snapshot={snapshot}
+		>
+			{children}
+		</VocoderProvider>
+	);
 }
 
 // Needed here to avoid circular import with server.ts
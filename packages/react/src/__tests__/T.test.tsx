@@ -1,6 +1,7 @@
 import { render, screen, waitFor } from "@testing-library/react";
 import React from "react";
 import { describe, expect, it } from "vitest";
+import { msg } from "@vocoder/core";
 import { T } from "../T";
 import { VocoderProvider } from "../VocoderProvider";
 
@@ -44,6 +45,36 @@ describe("T component", () => {
 		expect(screen.queryByText("Goodbye")).not.toBeInTheDocument();
 	});
 
+	it("renders the select message the build transform emits for a string conditional", async () => {
+		render(
+			<VocoderProvider>
+				<T
+					message="You are {0, select, true {an admin} other {a member}}"
+					values={{ 0: Boolean(1) }}
+				/>
+			</VocoderProvider>,
+		);
+
+		await waitFor(() => {
+			expect(screen.getByText("You are an admin")).toBeInTheDocument();
+		});
+	});
+
+	it("translates a msg() descriptor passed as message", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		const greeting = msg("Hello, world!");
+
+		render(
+			<VocoderProvider>
+				<T message={greeting} />
+			</VocoderProvider>,
+		);
+
+		await waitFor(() => {
+			expect(screen.getByText("Hola, mundo!")).toBeInTheDocument();
+		});
+	});
+
 	it("falls back to source text when translation does not exist", async () => {
 		render(
 			<VocoderProvider>
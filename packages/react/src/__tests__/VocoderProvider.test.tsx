@@ -1,6 +1,7 @@
 import { render, screen, waitFor } from "@testing-library/react";
 import { userEvent } from "@testing-library/user-event";
-import React from "react";
+import { generateMessageHash } from "@vocoder/core";
+import React, { Suspense } from "react";
 import { describe, expect, it } from "vitest";
 import { T } from "../T";
 import { useVocoder, VocoderProvider } from "../VocoderProvider";
@@ -71,6 +72,50 @@ describe("VocoderProvider", () => {
 		});
 	});
 
+	it("renders a lazily loaded route's split translations once they load", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+
+		function Dashboard() {
+			const { t } = useVocoder();
+			return <h1 data-testid="dashboard">{t("Dashboard")}</h1>;
+		}
+
+		// What a route chunk built with splitTranslations does when it runs: its
+		// scope module registers a lazy loader per locale.
+		const LazyDashboard = React.lazy(async () => {
+			const scopes = (globalThis as { __VOCODER_SCOPES__?: unknown[] }).__VOCODER_SCOPES__!;
+			scopes.push({
+				id: "dashboard",
+				loaders: {
+					es: () =>
+						new Promise((resolve) =>
+							setTimeout(() => resolve({ default: { [generateMessageHash("Dashboard")]: "Panel" } }), 10),
+						),
+				},
+			});
+			return { default: Dashboard };
+		});
+
+		function App() {
+			const { isReady } = useVocoder();
+			return isReady ? (
+				<Suspense fallback={null}>
+					<LazyDashboard />
+				</Suspense>
+			) : null;
+		}
+
+		render(
+			<VocoderProvider>
+				<App />
+			</VocoderProvider>,
+		);
+
+		await waitFor(() => {
+			expect(screen.getByTestId("dashboard")).toHaveTextContent("Panel");
+		});
+	});
+
 	it("throws when useVocoder is used outside provider", () => {
 		const originalError = console.error;
 		console.error = () => {};
@@ -0,0 +1,70 @@
+import { render, screen } from "@testing-library/react";
+import React from "react";
+import { describe, expect, it } from "vitest";
+import { getTranslator } from "../server";
+import { T } from "../T";
+import { useVocoder } from "../VocoderProvider";
+import { VocoderProviderServer } from "../VocoderProviderServer";
+
+function Locale() {
+	return <span data-testid="locale">{useVocoder().locale}</span>;
+}
+
+describe("getTranslator", () => {
+	it("resolves the locale from the cookies", async () => {
+		const { locale, t, ordinal } = await getTranslator({
+			cookies: "theme=dark; vocoder_locale=fr",
+		});
+
+		expect(locale).toBe("fr");
+		expect(t("Hello, {name}!", { name: "Ana" })).toBe("Bonjour, Ana!");
+		expect(ordinal(1)).toBe("1er");
+	});
+
+	it("reads the Cookie header when cookies are not passed", async () => {
+		const { t } = await getTranslator({
+			headers: new Headers({ cookie: "vocoder_locale=es" }),
+		});
+
+		expect(t("Goodbye")).toBe("Adios");
+	});
+
+	it("negotiates the Accept-Language header when there is no locale cookie", async () => {
+		const { locale } = await getTranslator({
+			headers: new Headers({ "accept-language": "de-DE, es-MX;q=0.8, en;q=0.5" }),
+		});
+
+		expect(locale).toBe("es");
+	});
+});
+
+describe("VocoderProviderServer", () => {
+	it("renders the request locale on the first render without a hydration script", async () => {
+		const element = await VocoderProviderServer({
+			cookies: "vocoder_locale=fr",
+			children: (
+				<>
+					<Locale />
+					<T>Hello</T>
+				</>
+			),
+		});
+
+		const { container } = render(element);
+
+		expect(screen.getByTestId("locale")).toHaveTextContent("fr");
+		expect(container).toHaveTextContent("Bonjour");
+		expect(container.querySelector("#__vocoder_hydration__")).toBeNull();
+	});
+
+	it("renders the Accept-Language match for first-time visitors", async () => {
+		const element = await VocoderProviderServer({
+			headers: new Headers({ "accept-language": "fr-CH, en;q=0.5" }),
+			children: <Locale />,
+		});
+
+		render(element);
+
+		expect(screen.getByTestId("locale")).toHaveTextContent("fr");
+	});
+});
@@ -2,7 +2,7 @@ import { render, screen, waitFor } from "@testing-library/react";
 import React from "react";
 import { describe, expect, it } from "vitest";
 import { T } from "../T";
-import { t } from "../translate";
+import { t } from "@vocoder/core";
 import { VocoderProvider } from "../VocoderProvider";
 
 describe("ICU MessageFormat", () => {
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { createVocoderMiddleware } from "../middleware";
+
+function request(path: string, headers: Record<string, string> = {}): Request {
+	return new Request(`https://example.com${path}`, { headers });
+}
+
+describe("createVocoderMiddleware", () => {
+	describe("prefix strategy", () => {
+		const middleware = createVocoderMiddleware({ strategy: "prefix" });
+
+		it("redirects unprefixed paths to the Accept-Language locale", async () => {
+			const response = await middleware(
+				request("/pricing?plan=pro", { "accept-language": "de-DE, fr;q=0.8, en;q=0.5" }),
+			);
+
+			expect(response.status).toBe(307);
+			expect(response.headers.get("location")).toBe("https://example.com/fr/pricing?plan=pro");
+			expect(response.headers.get("set-cookie")).toContain("vocoder_locale=fr");
+		});
+
+		it("prefers the cookie over Accept-Language", async () => {
+			const response = await middleware(
+				request("/", { cookie: "vocoder_locale=es", "accept-language": "fr" }),
+			);
+
+			expect(response.headers.get("location")).toBe("https://example.com/es");
+		});
+
+		it("rewrites prefixed paths and overrides the request cookie", async () => {
+			const response = await middleware(
+				request("/fr/pricing", { cookie: "theme=dark; vocoder_locale=es" }),
+			);
+
+			expect(response.headers.get("x-middleware-rewrite")).toBe("https://example.com/pricing");
+			expect(response.headers.get("x-middleware-request-cookie")).toBe(
+				"theme=dark; vocoder_locale=fr",
+			);
+		});
+
+		it("keeps default-locale URLs unprefixed when prefixDefaultLocale is false", async () => {
+			const asNeeded = createVocoderMiddleware({ strategy: "prefix", prefixDefaultLocale: false });
+
+			const unprefixed = await asNeeded(request("/pricing", { "accept-language": "en-US" }));
+			expect(unprefixed.headers.get("x-middleware-next")).toBe("1");
+
+			const prefixed = await asNeeded(request("/en/pricing"));
+			expect(prefixed.headers.get("location")).toBe("https://example.com/pricing");
+		});
+
+		it("skips Next.js internals and files", async () => {
+			const response = await middleware(request("/_next/static/app.js"));
+
+			expect(response.headers.get("x-middleware-next")).toBe("1");
+			expect(response.headers.get("set-cookie")).toBeNull();
+
+			const favicon = await middleware(request("/favicon.ico"));
+			expect(favicon.headers.get("x-middleware-next")).toBe("1");
+		});
+
+		it("treats dotted page routes as pages", async () => {
+			for (const path of ["/docs/v1.2", "/u/john.doe"]) {
+				const response = await middleware(request(path, { "accept-language": "fr" }));
+
+				expect(response.headers.get("location")).toBe(`https://example.com/fr${path}`);
+			}
+		});
+	});
+
+	it("cookie strategy negotiates first visits and sets the cookie", async () => {
+		const middleware = createVocoderMiddleware();
+
+		const firstVisit = await middleware(request("/", { "accept-language": "es-MX,es;q=0.9" }));
+		expect(firstVisit.headers.get("set-cookie")).toContain("vocoder_locale=es");
+		expect(firstVisit.headers.get("x-middleware-request-cookie")).toBe("vocoder_locale=es");
+
+		const returning = await middleware(request("/", { cookie: "vocoder_locale=fr" }));
+		expect(returning.headers.get("set-cookie")).toBeNull();
+	});
+
+	it("domain strategy maps hostnames to locales", async () => {
+		const middleware = createVocoderMiddleware({
+			strategy: "domain",
+			domains: { "example.com": "fr" },
+		});
+
+		const response = await middleware(request("/"));
+
+		expect(response.headers.get("x-middleware-request-cookie")).toBe("vocoder_locale=fr");
+	});
+});
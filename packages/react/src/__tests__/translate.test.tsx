@@ -1,7 +1,7 @@
 import { render, waitFor } from "@testing-library/react";
 import React from "react";
 import { describe, expect, it } from "vitest";
-import { t } from "../translate";
+import { defineMessages, msg, t } from "@vocoder/core";
 import { VocoderProvider } from "../VocoderProvider";
 
 function mountProvider() {
@@ -91,4 +91,33 @@ describe("t() function", () => {
 			expect(t("Hello, world!", {}, { context: "ctx" })).toBe("Hello, world!");
 		});
 	});
+
+	it("translates msg() descriptors declared before the provider mounts", async () => {
+		// Module-scope declarations — evaluated before any translations are loaded.
+		const greeting = msg("Hello, world!");
+		const labels = defineMessages({
+			hello: "Hello",
+			scoped: { message: "Hello, world!", context: "ctx" },
+		});
+		expect(labels.hello).toEqual({ id: "1w2u0qz", message: "Hello" });
+		expect(labels.scoped.context).toBe("ctx");
+
+		document.cookie = "vocoder_locale=es; Path=/";
+		mountProvider();
+
+		await waitFor(() => {
+			expect(t(greeting)).toBe("Hola, mundo!");
+			expect(t(labels.hello)).toBe("Hola");
+			expect(t(labels.scoped)).toBe("Hello, world!");
+		});
+	});
+
+	it("formats an untransformed tagged template with positional args", async () => {
+		mountProvider();
+
+		const name = "Ada";
+		await waitFor(() => {
+			expect(t`Hello ${name}, you have ${3} items`).toBe("Hello Ada, you have 3 items");
+		});
+	});
 });
@@ -1,11 +1,18 @@
 // Core exports (no UI dependencies)
 
 // Lazy loading utilities
-export { generateMessageHash } from "./hash";
-export { initializeVocoder } from "./runtime";
-export { PREVIEW_MODE, isPreviewEnabled, isVocoderEnabled } from "./preview";
+export {
+	defineMessages,
+	generateMessageHash,
+	initializeVocoder,
+	isPreviewEnabled,
+	isVocoderEnabled,
+	msg,
+	ordinal,
+	PREVIEW_MODE,
+	t,
+} from "@vocoder/core";
 export { T } from "./T";
-export { ordinal, t } from "./translate";
 // Type exports
 export type {
 	ComponentSlot,
@@ -13,6 +20,7 @@ export type {
 	LocaleInfo,
 	LocaleSelectorProps,
 	LocalesMap,
+	MessageDescriptor,
 	TOptions,
 	TProps,
 	TranslationsMap,
@@ -0,0 +1,169 @@
+import {
+	getConfig,
+	getCookie,
+	getLocaleFromPath,
+	initializeVocoder,
+	localizePath,
+	negotiateLocale,
+	parseAcceptLanguage,
+	STORAGE_KEY,
+	stripLocaleFromPath,
+} from "@vocoder/core";
+
+export interface VocoderMiddlewareOptions {
+	/**
+	 * Where the locale lives in the URL:
+	 * - `cookie` — nowhere; the `vocoder_locale` cookie alone (first visits negotiated from Accept-Language)
+	 * - `prefix` — the first path segment (`/fr/pricing`), rewritten to `/pricing` for your routes
+	 * - `domain` — the hostname, mapped through `domains`
+	 * @default "cookie"
+	 */
+	strategy?: "cookie" | "prefix" | "domain";
+	/** Supported locales. Defaults to the manifest's sourceLocale and targetLocales. */
+	locales?: string[];
+	/** Locale when nothing else matches. Defaults to the manifest's sourceLocale. */
+	defaultLocale?: string;
+	/**
+	 * `prefix` strategy: also prefix the default locale (`/en/pricing`).
+	 * When false, default-locale URLs stay unprefixed and `/en/…` redirects to `/…`.
+	 * @default true
+	 */
+	prefixDefaultLocale?: boolean;
+	/**
+	 * `domain` strategy: hostname → locale, e.g. `{ "example.fr": "fr" }`.
+	 * Unmapped hosts fall back to the cookie strategy.
+	 */
+	domains?: Record<string, string>;
+}
+
+const COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+// Requests that never carry a locale: Next.js internals, API routes and static
+// files. Files by known extension only — /docs/v1.2 and /u/john.doe are pages.
+const SKIPPED_PATH =
+	/^\/(?:_next|api)(?:\/|$)|\.(?:avif|css|csv|eot|gif|ico|jpe?g|js|json|map|mjs|mp3|mp4|otf|pdf|png|svg|ttf|txt|wasm|webm|webmanifest|webp|woff2?|xml|zip)$/i;
+
+/**
+ * Create a Next.js middleware that resolves each request's locale — from the
+ * URL, the `vocoder_locale` cookie or Accept-Language — and makes it the
+ * locale VocoderProvider renders. Responds with plain Web `Response`s using
+ * Next's middleware headers, so it doesn't depend on the `next` package.
+ *
+ * With the `prefix` strategy, pair it with `<VocoderProvider localeFromPath>`
+ * so setLocale navigates to the new locale's URL.
+ *
+ * @example
+ * ```ts
+ * // middleware.ts
+ * import { createVocoderMiddleware } from '@vocoder/react/server';
+ *
+ * export default createVocoderMiddleware({ strategy: 'prefix' });
+ *
+ * export const config = { matcher: ['/((?!_next|api).*)'] };
+ * ```
+ */
+export function createVocoderMiddleware(
+	options: VocoderMiddlewareOptions = {},
+): (request: Request) => Promise<Response> {
+	const { strategy = "cookie", prefixDefaultLocale = true, domains = {} } = options;
+
+	return async (request) => {
+		const url = new URL(request.url);
+		if (SKIPPED_PATH.test(url.pathname)) return next();
+
+		await initializeVocoder();
+		const config = getConfig();
+		const defaultLocale = options.defaultLocale ?? config.sourceLocale ?? "en";
+		const locales =
+			options.locales ??
+			(config.sourceLocale
+				? [config.sourceLocale, ...config.targetLocales.filter((l) => l !== config.sourceLocale)]
+				: [defaultLocale]);
+
+		const cookieHeader = request.headers.get("cookie") ?? "";
+		const cookieLocale = getCookie(STORAGE_KEY, cookieHeader);
+		const negotiated = () =>
+			negotiateLocale(
+				parseAcceptLanguage(request.headers.get("accept-language")),
+				locales,
+				defaultLocale,
+				config.fallbacks,
+			);
+
+		if (strategy === "domain" && domains[url.hostname]) {
+			return next(cookieHeader, domains[url.hostname]!);
+		}
+
+		if (strategy === "prefix") {
+			const pathLocale = getLocaleFromPath(url.pathname, locales);
+
+			if (!pathLocale) {
+				const locale =
+					cookieLocale && locales.includes(cookieLocale) ? cookieLocale : negotiated();
+				if (locale === defaultLocale && !prefixDefaultLocale) {
+					return next(cookieHeader, locale);
+				}
+				url.pathname = localizePath(url.pathname, locale, locales);
+				return redirect(url, locale);
+			}
+
+			if (pathLocale === defaultLocale && !prefixDefaultLocale) {
+				url.pathname = stripLocaleFromPath(url.pathname, locales);
+				return redirect(url, pathLocale);
+			}
+
+			url.pathname = stripLocaleFromPath(url.pathname, locales);
+			return rewrite(url, cookieHeader, pathLocale);
+		}
+
+		// cookie strategy (and unmapped domains)
+		if (cookieLocale && locales.includes(cookieLocale)) return next();
+		return next(cookieHeader, negotiated());
+	};
+}
+
+function localeCookie(locale: string): string {
+	return `${STORAGE_KEY}=${encodeURIComponent(locale)}; Path=/; Max-Age=${COOKIE_MAX_AGE}; SameSite=Lax`;
+}
+
+/**
+ * Continue (optionally rewritten) with `locale` as the request's locale cookie,
+ * so this very render already sees it — the equivalent of
+ * `NextResponse.next({ request: { headers } })` plus `response.cookies.set()`.
+ */
+function withLocale(
+	headers: Headers,
+	cookieHeader: string | undefined,
+	locale: string | undefined,
+): Headers {
+	if (locale === undefined || cookieHeader === undefined) return headers;
+
+	const others = cookieHeader
+		.split(";")
+		.map((c) => c.trim())
+		.filter((c) => c && !c.startsWith(`${STORAGE_KEY}=`));
+	headers.set("x-middleware-override-headers", "cookie");
+	headers.set(
+		"x-middleware-request-cookie",
+		[...others, `${STORAGE_KEY}=${encodeURIComponent(locale)}`].join("; "),
+	);
+	headers.append("set-cookie", localeCookie(locale));
+	return headers;
+}
+
+function next(cookieHeader?: string, locale?: string): Response {
+	const headers = new Headers({ "x-middleware-next": "1" });
+	return new Response(null, { headers: withLocale(headers, cookieHeader, locale) });
+}
+
+function rewrite(url: URL, cookieHeader: string, locale: string): Response {
+	const headers = new Headers({ "x-middleware-rewrite": url.toString() });
+	return new Response(null, { headers: withLocale(headers, cookieHeader, locale) });
+}
+
+function redirect(url: URL, locale: string): Response {
+	return new Response(null, {
+		status: 307,
+		headers: { location: url.toString(), "set-cookie": localeCookie(locale) },
+	});
+}
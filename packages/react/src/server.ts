@@ -1,3 +1,11 @@
+export {
+	createTranslator,
+	getTranslator,
+	runWithLocale,
+} from "@vocoder/core/server";
+export type { RequestLocaleOptions, Translator } from "@vocoder/core/server";
+export { createVocoderMiddleware } from "./middleware";
+export type { VocoderMiddlewareOptions } from "./middleware";
 export type { VocoderProviderServerProps } from "./types";
 export { VocoderProviderServer } from "./VocoderProviderServer";
 
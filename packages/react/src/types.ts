@@ -1,42 +1,24 @@
 import type React from "react";
+import type {
+	FormatMode,
+	HydrationSnapshot,
+	LocalesMap,
+	MessageDescriptor,
+	TOptions,
+} from "@vocoder/core";
+import type { RequestLocaleOptions } from "@vocoder/core/server";
 
-export interface TranslationsMap {
-	[locale: string]: {
-		[key: string]: string;
-	};
-}
-
-export interface OrdinalSuffixes {
-	zero?: string;
-	one?: string;
-	two?: string;
-	few?: string;
-	many?: string;
-	other: string;
-}
-
-/**
- * Discriminated union for locale ordinal data in the translation bundle.
- *
- * - `suffix`: Ordinals formed by number + suffix (e.g. "1st", "1er", "1.").
- *   The `#` placeholder is replaced with the rank at runtime.
- * - `word`: Ordinals are full words (Arabic, Hebrew). Gender-keyed maps from rank → word.
- *   Ranks not present in the map fall back to String(value).
- */
-export type OrdinalForms =
-	| { type: "suffix"; suffixes: OrdinalSuffixes }
-	| { type: "word"; words: Record<string, Record<number, string>> };
-
-export interface LocaleInfo {
-	nativeName: string; // "Español", "简体中文"
-	dir?: "rtl"; // Only for RTL locales
-	currencyCode?: string; // ISO 4217: "USD", "EUR", "GBP", etc.
-	ordinalForms?: OrdinalForms;
-}
-
-export interface LocalesMap {
-	[localeCode: string]: LocaleInfo;
-}
+export type {
+	FormatMode,
+	HydrationSnapshot,
+	LocaleInfo,
+	LocalesMap,
+	MessageDescriptor,
+	OrdinalForms,
+	OrdinalSuffixes,
+	TOptions,
+	TranslationsMap,
+} from "@vocoder/core";
 
 export interface VocoderContextValue {
 	availableLocales: string[];
@@ -53,14 +35,29 @@ export interface VocoderContextValue {
 	 * reads from React context — safe to call in render, re-runs on locale change.
 	 * Use this inside components. Use the global `t()` export in callbacks/utilities.
 	 */
-	t: (text: string, values?: Record<string, unknown>, options?: TOptions) => string;
+	t: (
+		text: string | MessageDescriptor,
+		values?: Record<string, unknown>,
+		options?: TOptions,
+	) => string;
 	hasTranslation: (text: string) => boolean;
 	/** Format a number as a locale-aware ordinal (e.g. "1st" in en, "1.º" in es, "الأول" in ar). */
 	ordinal: (value: number, gender?: string) => string;
 }
 
-export interface VocoderProviderServerProps {
+export interface VocoderProviderServerProps
+	extends Pick<RequestLocaleOptions, "cookies" | "headers"> {
 	children: React.ReactNode;
+	/** Forwarded to the client VocoderProvider. */
+	applyDir?: boolean;
+	/** Forwarded to the client VocoderProvider. */
+	localeFromPath?: boolean;
+	/**
+	 * Negotiate first visits from the Accept-Language header in `headers`
+	 * (and `navigator.languages` on the client).
+	 * @default true
+	 */
+	detectLocale?: boolean;
 }
 
 export interface VocoderProviderProps {
@@ -73,6 +70,19 @@ export interface VocoderProviderProps {
 	 * @example Next.js Pages: context.req.headers.cookie
 	 */
 	cookies?: string;
+	/**
+	 * The request's Accept-Language header for server-side rendering (optional).
+	 * First-time visitors without a locale cookie get their best match.
+	 * @example Next.js App Router: (await headers()).get('accept-language')
+	 */
+	acceptLanguage?: string;
+	/**
+	 * Serve visitors without a locale cookie their preferred language —
+	 * `acceptLanguage` on the server, `navigator.languages` in the browser.
+	 * Set to false to always start them on the source locale.
+	 * @default true
+	 */
+	detectLocale?: boolean;
 	/**
 	 * Automatically apply `dir` and `lang` attributes to `document.documentElement`
 	 * when the locale changes. Enables RTL layout for Arabic, Hebrew, etc. via CSS
@@ -82,27 +92,21 @@ export interface VocoderProviderProps {
 	 * @default true
 	 */
 	applyDir?: boolean;
+	/**
+	 * Locale and translations resolved on the server. Set by
+	 * VocoderProviderServer — the provider then skips building and embedding
+	 * the `__vocoder_hydration__` script.
+	 */
+	snapshot?: HydrationSnapshot;
+	/**
+	 * The first path segment carries the locale (`/fr/pricing`) — set this with
+	 * createVocoderMiddleware's `prefix` strategy. setLocale then navigates to
+	 * the new locale's URL instead of only writing the cookie.
+	 * @default false
+	 */
+	localeFromPath?: boolean;
 }
 
-export interface TOptions {
-	/** Context string for disambiguation (same text, different meaning). Must match the context used in <T context="..."> */
-	context?: string;
-	/** Formality level for translation */
-	formality?: "formal" | "informal" | "auto";
-	/** Stable translation key. When provided, used as lookup key instead of hashing the message text. */
-	id?: string;
-}
-
-export type FormatMode =
-	| "number"
-	| "integer"
-	| "percent"
-	| "compact"
-	| "currency"
-	| "date"
-	| "time"
-	| "datetime";
-
 /**
  * A slot in a rich-text message. Either a React element (children injected via cloneElement)
  * or a render function that receives the translated inner content as ReactNode.
@@ -133,8 +137,12 @@ export interface TProps {
 	 * ```tsx
 	 * <T message="Click <link>here</link>" components={{ link: <a href="/help" /> }} />
 	 * ```
+	 * @example Descriptor from msg() / defineMessages()
+	 * ```tsx
+	 * <T message={labels.save} />
+	 * ```
 	 */
-	message?: string;
+	message?: string | MessageDescriptor;
 	/** Values for variable interpolation. The only supported way to pass interpolation variables. */
 	values?: Record<string, any>;
 	/**
@@ -168,6 +176,12 @@ export interface TProps {
 	context?: string;
 	/** Optional formality level */
 	formality?: "formal" | "informal" | "auto";
+	/** Note for translators, sent with the string by `vocoder sync`. Not rendered. */
+	note?: string;
+	/** Alias of `note`. */
+	description?: string;
+	/** Maximum length of the translation in characters, sent by `vocoder sync`. Not enforced at runtime. */
+	maxLength?: number;
 	/**
 	 * Component slots for rich-text messages. Each slot maps to a numeric `<N>` placeholder
 	 * by index. Accepts an array or a sparse object (useful when skipping indices).
@@ -4,7 +4,10 @@ const external = [
 	"react",
 	"react/jsx-runtime",
 	"react-dom",
-	"intl-messageformat",
+	"@vocoder/core",
+	"@vocoder/core/server",
+	// Self-reference from the server entry to the client entry (VocoderProviderServer)
+	"@vocoder/react",
 	/^virtual:/,
 ];
 
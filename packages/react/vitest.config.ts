@@ -26,6 +26,9 @@ function mockVocoderVirtualModules(): Plugin {
 
 export default defineConfig({
 	plugins: [mockVocoderVirtualModules()],
+	resolve: {
+		alias: { "@vocoder/react": path.resolve(__dirname, "src/index.ts") },
+	},
 	test: {
 		environment: "jsdom",
 		globals: true,
@@ -0,0 +1,90 @@
+import { flushSync, mount, unmount } from "svelte";
+import { afterEach, describe, expect, it } from "vitest";
+import Harness from "../../test/fixtures/Harness.svelte";
+import Link from "../../test/fixtures/Link.svelte";
+import type { TProps, Vocoder } from "../lib";
+
+let app: ReturnType<typeof mount> | null = null;
+
+async function render(props: TProps) {
+	let vocoder!: Vocoder;
+	const el = document.createElement("div");
+	app = mount(Harness, {
+		target: el,
+		props: { props, onready: (instance: Vocoder) => (vocoder = instance) },
+	});
+	flushSync();
+	await vocoder.ready;
+	flushSync();
+	return { vocoder, el };
+}
+
+afterEach(() => {
+	if (app) unmount(app);
+	app = null;
+});
+
+describe("T component", () => {
+	it("renders the message in the source locale", async () => {
+		const { el } = await render({ message: "Hello, world!" });
+
+		expect(el.textContent).toBe("Hello, world!");
+	});
+
+	it("formats message, values and id injected by the build plugin", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		const { el } = await render({
+			id: "0yvn7bx",
+			message: "Hello, {name}!",
+			values: { name: "Ana" },
+		});
+
+		expect(el.textContent).toBe("Hola, Ana!");
+	});
+
+	it("re-renders when the locale changes", async () => {
+		const { vocoder, el } = await render({ message: "Hello" });
+
+		expect(el.textContent).toBe("Hello");
+		await vocoder.setLocale("es");
+		flushSync();
+		expect(el.textContent).toBe("Hola");
+	});
+
+	it("fills <N> placeholders with element slots", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		const { el } = await render({
+			message: "Click <0>here</0> for help",
+			components: [["a", { href: "/help" }]],
+		});
+
+		const link = el.querySelector("a");
+		expect(link?.getAttribute("href")).toBe("/help");
+		expect(link?.textContent).toBe("aqui");
+		expect(el.textContent).toBe("Haz clic aqui para obtener ayuda");
+	});
+
+	it("renders a component slot with the translated inner text", async () => {
+		const { el } = await render({
+			message: "Click <0>here</0> for help",
+			components: [[Link, { to: "/docs" }]],
+		});
+
+		const link = el.querySelector("a[data-link]");
+		expect(link?.getAttribute("href")).toBe("/docs");
+		expect(link?.textContent).toBe("here");
+	});
+
+	it("supports plural mode from props", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		const { el } = await render({ value: 3, one: "# item", other: "# items" });
+
+		expect(el.textContent).toBe("3 articulos");
+	});
+
+	it("formats ordinals from the locale's ordinalForms", async () => {
+		const { el } = await render({ value: 2, ordinal: true });
+
+		expect(el.textContent).toBe("2nd");
+	});
+});
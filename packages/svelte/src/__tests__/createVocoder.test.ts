@@ -0,0 +1,59 @@
+import { get } from "svelte/store";
+import { describe, expect, it } from "vitest";
+import { createVocoder } from "../lib/createVocoder";
+import { _setActiveVocoder, locale, ordinal, t } from "../lib/translate";
+
+async function start() {
+	const vocoder = createVocoder({ applyDir: false });
+	vocoder.start();
+	await vocoder.ready;
+	return vocoder;
+}
+
+describe("createVocoder", () => {
+	it("loads the manifest and exposes available locales", async () => {
+		const vocoder = await start();
+
+		expect(get(vocoder.availableLocales)).toEqual(["en", "es"]);
+		expect(get(vocoder.locale)).toBe("en");
+		expect(get(vocoder.isReady)).toBe(true);
+	});
+
+	it("setLocale loads the locale and persists it in the cookie", async () => {
+		const vocoder = await start();
+
+		await vocoder.setLocale("es-MX");
+
+		expect(get(vocoder.locale)).toBe("es");
+		expect(get(vocoder.t)("Hello")).toBe("Hola");
+		expect(document.cookie).toContain("vocoder_locale=es");
+	});
+
+	it("backs the global t, locale and ordinal stores", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		const vocoder = await start();
+		_setActiveVocoder(vocoder);
+
+		expect(get(t)("Hello, {name}!", { name: "Ana" })).toBe("Hola, Ana!");
+		expect(get(locale)).toBe("es");
+		expect(get(ordinal)(1)).toBe("1.º");
+
+		_setActiveVocoder(null);
+		expect(get(t)("Hello, {name}!", { name: "Ana" })).toBe("Hello, Ana!");
+	});
+
+	it("notifies $t subscribers when the locale changes", async () => {
+		const vocoder = await start();
+		const seen: string[] = [];
+		const unsubscribe = vocoder.t.subscribe((translate) => seen.push(translate("Hello")));
+
+		await vocoder.setLocale("es");
+		unsubscribe();
+
+		expect(seen).toEqual(["Hello", "Hola"]);
+	});
+
+	it("renders no hydration script on the client", () => {
+		expect(createVocoder().hydrationScript).toBe("");
+	});
+});
@@ -0,0 +1,19 @@
+// @vitest-environment node
+import { describe, expect, it } from "vitest";
+import { createVocoder } from "../lib/createVocoder";
+import { loadVocoder } from "../lib/load";
+
+describe("SSR hydration", () => {
+	it("embeds the cookie locale's translations after loadVocoder()", async () => {
+		const cookies = "vocoder_locale=es";
+		await loadVocoder(cookies);
+
+		const vocoder = createVocoder({ cookies });
+
+		expect(vocoder.hydrationScript).toMatch(
+			/^<script id="__vocoder_hydration__" type="application\/json">.*<\/script>$/,
+		);
+		expect(vocoder.hydrationScript).toContain('"locale":"es"');
+		expect(vocoder.hydrationScript).toContain("Hola, mundo!");
+	});
+});
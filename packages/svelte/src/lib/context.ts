@@ -0,0 +1,35 @@
+import { getContext, setContext } from "svelte";
+import { _setActiveVocoder } from "./translate";
+import type { Vocoder } from "./types";
+
+const VOCODER_CONTEXT = Symbol("vocoder");
+
+/**
+ * Provide a Vocoder instance to descendant components and make it the active
+ * instance behind the global `t` / `locale` / `ordinal` stores.
+ * Called by VocoderProvider during component initialization.
+ */
+export function setVocoder(vocoder: Vocoder): void {
+	setContext(VOCODER_CONTEXT, vocoder);
+	_setActiveVocoder(vocoder);
+}
+
+/**
+ * The Vocoder instance of the nearest `<VocoderProvider>`.
+ * Must be called during component initialization.
+ *
+ * @example
+ * ```svelte
+ * <script>
+ *   import { getVocoder } from '@vocoder/svelte';
+ *   const { locale, availableLocales, setLocale } = getVocoder();
+ * </script>
+ * ```
+ */
+export function getVocoder(): Vocoder {
+	const vocoder = getContext<Vocoder | undefined>(VOCODER_CONTEXT);
+	if (!vocoder) {
+		throw new Error("getVocoder must be used inside <VocoderProvider>");
+	}
+	return vocoder;
+}
@@ -0,0 +1,50 @@
+import { createVocoder as createCoreVocoder } from "@vocoder/core";
+import { derived, writable } from "svelte/store";
+import type { TranslateFunction, Vocoder, VocoderOptions } from "./types";
+
+/**
+ * Create the store-backed Vocoder state behind VocoderProvider — the
+ * @vocoder/core engine exposed as Svelte stores. Most apps render
+ * `<VocoderProvider>` instead of calling this directly.
+ *
+ * On the server, create one instance per request (VocoderProvider does) and
+ * pass the request cookies so SSR renders the visitor's locale.
+ */
+export function createVocoder(options: VocoderOptions = {}): Vocoder {
+	const vocoder = createCoreVocoder(options);
+
+	// Mirror the engine's immutable snapshots into a store.
+	const state = writable(vocoder.getState());
+	vocoder.subscribe(() => state.set(vocoder.getState()));
+
+	// t and ordinal — a new function whenever the state changes, so `$t(...)`
+	// in markup re-runs. options.id skips hash computation (used by <T>).
+	const t = derived(
+		state,
+		(): TranslateFunction => (text, values, tOptions) =>
+			vocoder.t(text, values, tOptions),
+	);
+	const ordinal = derived(
+		state,
+		() => (value: number, gender?: string) => vocoder.ordinal(value, gender),
+	);
+
+	return {
+		availableLocales: derived(state, ($state) => $state.availableLocales),
+		getDisplayName: vocoder.getDisplayName,
+		isReady: derived(state, ($state) => $state.isReady),
+		locale: derived(state, ($state) => $state.locale),
+		dir: derived(state, ($state) => $state.dir),
+		locales: derived(state, ($state) => $state.locales),
+		translations: derived(state, ($state) => $state.translations),
+		setLocale: vocoder.setLocale,
+		t,
+		hasTranslation: vocoder.hasTranslation,
+		ordinal,
+		get ready() {
+			return vocoder.ready;
+		},
+		start: vocoder.start,
+		hydrationScript: vocoder.hydrationScript,
+	};
+}
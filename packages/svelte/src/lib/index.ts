@@ -0,0 +1,20 @@
+export { generateMessageHash } from "@vocoder/core";
+export { default as T } from "./T.svelte";
+export { default as VocoderProvider } from "./VocoderProvider.svelte";
+export { getVocoder, setVocoder } from "./context";
+export { createVocoder } from "./createVocoder";
+export { loadVocoder } from "./load";
+export { locale, ordinal, setLocale, t } from "./translate";
+// Type exports
+export type {
+	ComponentSlot,
+	FormatMode,
+	LocaleInfo,
+	LocalesMap,
+	TOptions,
+	TranslateFunction,
+	TranslationsMap,
+	Vocoder,
+	VocoderOptions,
+} from "./types";
+export type { TProps } from "./utils/resolveT";
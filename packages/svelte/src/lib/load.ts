@@ -0,0 +1,50 @@
+import {
+	getBestMatchingLocale,
+	getConfig,
+	getCookie,
+	getLocales,
+	initializeVocoder,
+	loadLocale,
+	negotiateLocale,
+	parseAcceptLanguage,
+	STORAGE_KEY,
+} from "@vocoder/core";
+
+/**
+ * Load the build manifest and the request's locale before rendering.
+ *
+ * SvelteKit's server runtime is ESM, so the manifest cannot be required
+ * synchronously the way CommonJS SSR does. Await this in a server `load`
+ * function so VocoderProvider renders — and embeds in `__vocoder_hydration__` —
+ * the visitor's translations instead of the source text. Pass the
+ * Accept-Language header too so first-time visitors get their best match.
+ *
+ * @example
+ * ```ts
+ * // src/routes/+layout.server.ts
+ * import { loadVocoder } from '@vocoder/svelte';
+ *
+ * export const load = async ({ request }) => {
+ *   const cookies = request.headers.get('cookie') ?? undefined;
+ *   const acceptLanguage = request.headers.get('accept-language') ?? undefined;
+ *   await loadVocoder(cookies, acceptLanguage);
+ *   return { cookies, acceptLanguage };
+ * };
+ * ```
+ */
+export async function loadVocoder(
+	cookies?: string,
+	acceptLanguage?: string,
+): Promise<void> {
+	await initializeVocoder();
+
+	const available = Object.keys(getLocales());
+	if (available.length === 0) return;
+
+	const { sourceLocale, fallbacks } = getConfig();
+	const fallback = sourceLocale || available[0]!;
+	const preferred =
+		getCookie(STORAGE_KEY, cookies) ||
+		negotiateLocale(parseAcceptLanguage(acceptLanguage), available, fallback, fallbacks);
+	await loadLocale(getBestMatchingLocale(preferred, available, fallback, fallbacks));
+}
@@ -0,0 +1,71 @@
+import { formatICU } from "@vocoder/core";
+import { derived, get, writable } from "svelte/store";
+import type { Readable } from "svelte/store";
+import type { TranslateFunction, Vocoder } from "./types";
+
+/**
+ * The most recently rendered VocoderProvider's instance.
+ * Backs the global stores used outside the provider's context (load functions,
+ * plain modules). SSR renders synchronously, so during a request's render this
+ * is always that request's instance.
+ */
+const activeVocoder = writable<Vocoder | null>(null);
+
+/**
+ * Set the active Vocoder instance (called by VocoderProvider)
+ * @internal
+ */
+export function _setActiveVocoder(vocoder: Vocoder | null): void {
+	activeVocoder.set(vocoder);
+}
+
+const untranslated: TranslateFunction = (text, values) =>
+	values && Object.keys(values).length > 0 ? formatICU(text, values) : text;
+
+/** Follow a store of the active instance, with a fallback until a provider renders. */
+function fromActive<T>(pick: (vocoder: Vocoder) => Readable<T>, fallback: T): Readable<T> {
+	return derived(
+		activeVocoder,
+		($active, set) => {
+			if (!$active) {
+				set(fallback);
+				return;
+			}
+			return pick($active).subscribe(set);
+		},
+		fallback,
+	);
+}
+
+/**
+ * Translate store. Same signature as `getVocoder().t`; follows the active
+ * VocoderProvider, so it works in any component or module.
+ *
+ * @example
+ * ```svelte
+ * <script>
+ *   import { t } from '@vocoder/svelte';
+ * </script>
+ *
+ * <input placeholder={$t('Search')} />
+ * ```
+ */
+export const t: Readable<TranslateFunction> = fromActive((v) => v.t, untranslated);
+
+/** Current locale of the active VocoderProvider. */
+export const locale: Readable<string> = fromActive((v) => v.locale, "en");
+
+/**
+ * Ordinal store. Falls back to String(value) until a provider renders or when
+ * ordinal data is unavailable.
+ */
+export const ordinal: Readable<(value: number, gender?: string) => string> = fromActive(
+	(v) => v.ordinal,
+	(value: number) => String(value),
+);
+
+/** Switch the active VocoderProvider's locale. */
+export function setLocale(newLocale: string): Promise<void> {
+	const vocoder = get(activeVocoder);
+	return vocoder ? vocoder.setLocale(newLocale) : Promise.resolve();
+}
@@ -0,0 +1,111 @@
+import type { LocalesMap, TOptions, TranslationsMap } from "@vocoder/core";
+import type { Component } from "svelte";
+import type { Readable } from "svelte/store";
+
+export type {
+	FormatMode,
+	LocaleInfo,
+	LocalesMap,
+	TOptions,
+	TranslationsMap,
+} from "@vocoder/core";
+
+export interface VocoderOptions {
+	/**
+	 * Locale to fall back to until the build manifest is loaded.
+	 * The manifest's `sourceLocale` takes precedence once available.
+	 */
+	defaultLocale?: string;
+	/**
+	 * Cookie string for server-side rendering (optional).
+	 * Pass the request's Cookie header to enable SSR locale detection.
+	 * @example SvelteKit: return { cookies: request.headers.get('cookie') } from +layout.server.ts
+	 */
+	cookies?: string;
+	/**
+	 * The request's Accept-Language header for server-side rendering (optional).
+	 * First-time visitors without a locale cookie get their best match.
+	 * @example SvelteKit: request.headers.get('accept-language') in +layout.server.ts
+	 */
+	acceptLanguage?: string;
+	/**
+	 * Serve visitors without a locale cookie their preferred language —
+	 * `acceptLanguage` on the server, `navigator.languages` in the browser.
+	 * Set to false to always start them on the source locale.
+	 * @default true
+	 */
+	detectLocale?: boolean;
+	/**
+	 * Automatically apply `dir` and `lang` attributes to `document.documentElement`
+	 * when the locale changes. Enables RTL layout for Arabic, Hebrew, etc.
+	 * @default true
+	 */
+	applyDir?: boolean;
+}
+
+export type TranslateFunction = (
+	text: string,
+	values?: Record<string, unknown>,
+	options?: TOptions,
+) => string;
+
+export interface Vocoder {
+	availableLocales: Readable<string[]>;
+	getDisplayName: (targetLocale: string, viewingLocale?: string) => string;
+	/** True when initial translations are ready for render */
+	isReady: Readable<boolean>;
+	locale: Readable<string>;
+	/** Text direction for the current locale. 'rtl' for Arabic, Hebrew, etc. 'ltr' for all others. */
+	dir: Readable<"ltr" | "rtl">;
+	locales: Readable<LocalesMap>;
+	translations: Readable<TranslationsMap>;
+	setLocale: (locale: string) => Promise<void>;
+	/**
+	 * Translate store — `$t('Hello, {name}!', { name })` re-renders when the locale
+	 * or its translations change.
+	 */
+	t: Readable<TranslateFunction>;
+	hasTranslation: (text: string) => boolean;
+	/** Ordinal store — `$ordinal(1)` formats "1st" in en, "1.º" in es, "الأول" in ar. */
+	ordinal: Readable<(value: number, gender?: string) => string>;
+	/** Resolves once the manifest and the initial locale are loaded on the client. */
+	ready: Promise<void>;
+	/**
+	 * Client only — load the manifest and the preferred locale, then keep
+	 * `<html dir lang>` and background refresh in sync. Returns a cleanup function.
+	 * Called by VocoderProvider on mount.
+	 */
+	start: () => () => void;
+	/**
+	 * Server only — the `<script id="__vocoder_hydration__">` tag to embed in the
+	 * rendered HTML so the client starts with the server's locale and translations.
+	 * Empty on the client.
+	 */
+	hydrationScript: string;
+}
+
+/**
+ * A slot in a rich-text message: an element tag or a component, plus its props.
+ * The translated inner content of `<N>…</N>` becomes its children.
+ *
+ * The build plugin derives slots from the elements inside `<T>`; pass
+ * `components` explicitly when using `message` directly.
+ *
+ * @example [["a", { href: "/docs" }], [Link, { to: "/help" }]]
+ */
+export type ComponentSlot =
+	| [element: string | Component<any>]
+	| [element: string | Component<any>, props: Record<string, unknown>];
+
+/**
+ * A translated message split on its `<N>` placeholders. Elements with no
+ * matching slot keep their literal tag text in `raw`.
+ */
+export type MessagePart =
+	| string
+	| {
+			index: number;
+			slot: ComponentSlot | undefined;
+			raw: string;
+			children: MessagePart[];
+	  };
@@ -0,0 +1,184 @@
+import {
+	buildPluralICU,
+	buildSelectICU,
+	classifyProp,
+	DEFAULT_ORDINAL_ICU,
+	formatICU,
+	formatOrdinal,
+	formatValue,
+	generateMessageHash,
+	rewriteSelectordinalInICU,
+} from "@vocoder/core";
+import type { FormatMode, OrdinalForms } from "@vocoder/core";
+import type { ComponentSlot, MessagePart } from "../types";
+
+/** Props of `<T>` other than `children` and `components`. */
+export interface TProps {
+	/** Optional stable translation key. When provided, used as lookup key instead of message text. */
+	id?: string;
+	/** Message template for translation. Supports ICU MessageFormat syntax and `<N>` placeholders. */
+	message?: string;
+	/** Values for variable interpolation. */
+	values?: Record<string, unknown>;
+	/** The value that drives plural/select/ordinal selection or locale formatting. */
+	value?: string | number | Date;
+	/** Switch to ordinal mode — resolved from the locale's ordinalForms. */
+	ordinal?: boolean;
+	/** Grammatical gender for word-based ordinal locales (Arabic, Hebrew). */
+	gender?: string;
+	/** Pure locale formatting — bypasses translation lookup. */
+	format?: FormatMode;
+	/** ISO 4217 currency code. Required when format="currency". */
+	currency?: string;
+	dateStyle?: "full" | "long" | "medium" | "short";
+	timeStyle?: "full" | "long" | "medium" | "short";
+	/** Optional context string for disambiguation (same text, different meaning) */
+	context?: string;
+	/** Optional formality level */
+	formality?: "formal" | "informal" | "auto";
+	/** Note for translators, sent with the string by `vocoder sync`. Not rendered. */
+	note?: string;
+	/** Alias of `note`. */
+	description?: string;
+	/** Maximum length of the translation in characters, sent by `vocoder sync`. */
+	maxLength?: number | string;
+	/** Plural categories (one, other, _0…) and select cases (_male…). */
+	[key: string]: unknown;
+}
+
+export interface TState {
+	locale: string;
+	/** Translations of the current locale. */
+	translations: Record<string, string> | undefined;
+	ordinalForms: OrdinalForms | undefined;
+}
+
+/**
+ * Resolve the text `<T>` renders for the current locale — the same rules as
+ * the React and Vue T components. Returns null when there is nothing to
+ * translate (no message and no plural/select props), in which case `<T>`
+ * renders its children as-is.
+ */
+export function resolveT(props: TProps, state: TState): string | null {
+	const { locale, translations, ordinalForms } = state;
+
+	// Format mode: pure Intl formatting, no translation lookup
+	if (props.format !== undefined && props.value !== undefined) {
+		return formatValue(props.value, props.format, locale, {
+			currency: props.currency,
+			dateStyle: props.dateStyle,
+			timeStyle: props.timeStyle,
+		});
+	}
+
+	// Collect plural/select mode props.
+	// They are NOT used as interpolation values — use the `values` prop instead.
+	const pluralProps: Record<string, string> = {};
+	const selectProps: Record<string, string> = {};
+	let otherValue: string | undefined;
+
+	for (const [key, val] of Object.entries(props)) {
+		if (typeof val !== "string") continue;
+		const kind = classifyProp(key);
+		if (kind === "plural") pluralProps[key] = val;
+		else if (kind === "select") selectProps[key] = val;
+		else if (kind === "other") otherValue = val;
+	}
+
+	const hasPluralMode = Object.keys(pluralProps).length > 0;
+	const hasSelectMode = !hasPluralMode && Object.keys(selectProps).length > 0;
+
+	if (otherValue !== undefined) {
+		if (hasPluralMode) pluralProps.other = otherValue;
+		else if (hasSelectMode) selectProps.other = otherValue;
+	}
+
+	const lookup = (key: string) => translations?.[key];
+
+	// Ordinal path — Tier 1: ordinalForms (suffix or word), Tier 2: bundle
+	// translation of DEFAULT_ORDINAL_ICU, Tier 3: bare number.
+	if (props.ordinal && props.value !== undefined) {
+		const rank = Number(props.value);
+		if (ordinalForms) return formatOrdinal(rank, locale, ordinalForms, props.gender);
+
+		const ordinalValues = { count: props.value, ...(props.values ?? {}) };
+		const translated = lookup(props.id ?? generateMessageHash(DEFAULT_ORDINAL_ICU, props.context));
+		if (translated !== undefined) return formatICU(translated, ordinalValues, locale);
+		return String(props.value);
+	}
+
+	let sourceText: string;
+	let formatValues: Record<string, unknown>;
+
+	if (hasPluralMode && props.value !== undefined) {
+		sourceText = buildPluralICU(pluralProps);
+		formatValues = { count: props.value, ...(props.values ?? {}) };
+	} else if (hasSelectMode && props.value !== undefined) {
+		sourceText = buildSelectICU(selectProps);
+		formatValues = { value: props.value, ...(props.values ?? {}) };
+	} else if (props.message !== undefined) {
+		sourceText = props.message;
+		formatValues = { ...(props.values ?? {}) };
+	} else {
+		// Children without an injected message — the build plugin is not running.
+		return null;
+	}
+
+	const lookupKey = props.id ?? generateMessageHash(sourceText, props.context);
+	const rawText = lookup(lookupKey) ?? sourceText;
+
+	const textToFormat =
+		ordinalForms && rawText.includes("selectordinal")
+			? rewriteSelectordinalInICU(rawText, ordinalForms, formatValues)
+			: rawText;
+
+	if (!textToFormat) {
+		if (process.env.NODE_ENV === "development" && props.id) {
+			console.warn(`[vocoder] Missing translation for key "${props.id}"`);
+		}
+		return props.id ?? null;
+	}
+
+	return formatICU(textToFormat, formatValues, locale);
+}
+
+// Matches <0>content</0> (paired) or <0/> (self-closing).
+// Backreference \1 ensures the closing digit matches the opening digit.
+const TAG_RE = /<(\d+)>([\s\S]*?)<\/\1>|<(\d+)\/>/g;
+
+/**
+ * Split a formatted message on its numeric placeholders, pairing each with its
+ * slot. Nested placeholders are resolved recursively, so `<0><1>text</1></0>` works.
+ */
+export function parseMessageParts(
+	message: string,
+	components: ComponentSlot[] | Record<number, ComponentSlot> | undefined,
+): MessagePart[] {
+	const result: MessagePart[] = [];
+	const re = new RegExp(TAG_RE.source, "g");
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+
+	while ((match = re.exec(message)) !== null) {
+		if (match.index > lastIndex) {
+			result.push(message.slice(lastIndex, match.index));
+		}
+
+		const innerContent = match[2];
+		const index = parseInt((match[1] ?? match[3])!, 10);
+		result.push({
+			index,
+			slot: (components as Record<number, ComponentSlot> | undefined)?.[index],
+			raw: match[0],
+			children: innerContent ? parseMessageParts(innerContent, components) : [],
+		});
+
+		lastIndex = match.index + match[0].length;
+	}
+
+	if (lastIndex < message.length) {
+		result.push(message.slice(lastIndex));
+	}
+
+	return result;
+}
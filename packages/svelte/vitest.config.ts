@@ -0,0 +1,37 @@
+import path from "node:path";
+import { svelte } from "@sveltejs/vite-plugin-svelte";
+import type { Plugin } from "vite";
+import { defineConfig } from "vitest/config";
+
+/** Mock virtual modules injected by @vocoder/plugin during tests. */
+function mockVocoderVirtualModules(): Plugin {
+	const fixturePath = path.resolve(
+		__dirname,
+		"test/fixtures/generated-manifest.ts",
+	);
+	return {
+		name: "mock-vocoder-virtual-modules",
+		resolveId(id) {
+			if (id === "virtual:vocoder/manifest") return fixturePath;
+			if (id.startsWith("virtual:vocoder/translations/")) return `\0${id}`;
+			return null;
+		},
+		load(id) {
+			if (id.startsWith("\0virtual:vocoder/translations/")) {
+				return "export default {};";
+			}
+			return null;
+		},
+	};
+}
+
+export default defineConfig({
+	plugins: [svelte(), mockVocoderVirtualModules()],
+	// Resolve svelte's client runtime — the default export condition is the SSR build.
+	resolve: { conditions: ["browser"] },
+	test: {
+		environment: "jsdom",
+		globals: true,
+		setupFiles: ["./src/__tests__/setup.ts"],
+	},
+});
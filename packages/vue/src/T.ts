@@ -0,0 +1,203 @@
+import {
+	buildPluralICU,
+	buildSelectICU,
+	classifyProp,
+	DEFAULT_ORDINAL_ICU,
+	formatICU,
+	formatOrdinal,
+	formatValue,
+	generateMessageHash,
+	rewriteSelectordinalInICU,
+} from "@vocoder/core";
+import type { FormatMode } from "@vocoder/core";
+import { defineComponent, isVNode } from "vue";
+import type { PropType } from "vue";
+import type { ComponentSlot } from "./types";
+import { useVocoder } from "./useVocoder";
+import {
+	collectSlotElements,
+	extractSlotText,
+	formatElements,
+} from "./utils/formatElements";
+
+/** Translate and format message text in templates. Supports three modes:
+ *
+ * **Interpolation** (default):
+ * ```vue
+ * <T message="Hello {name}!" :values="{ name }" />
+ * <T>Hello {{ name }}!</T>   <!-- natural syntax: build plugin injects id + message + values -->
+ * ```
+ *
+ * **Plural** (triggered by one/other/two/few/many attrs or _N exact matches):
+ * ```vue
+ * <T :value="count" _0="No items" one="# item" other="# items" />
+ * ```
+ *
+ * **Select** (triggered by _word attrs without CLDR categories):
+ * ```vue
+ * <T :value="gender" _male="his" _female="her" other="their" />
+ * ```
+ *
+ * Rich text: elements in the default slot fill the `<N>` placeholders of the
+ * translated message, in the same order the extractor numbers them.
+ */
+export const T = defineComponent({
+	name: "VocoderT",
+	inheritAttrs: false,
+	props: {
+		/** Optional stable translation key. When provided, used as lookup key instead of message text. */
+		id: String,
+		/** Message template for translation. Supports ICU MessageFormat syntax and `<N>` placeholders. */
+		message: String,
+		/** Values for variable interpolation. */
+		values: Object as PropType<Record<string, unknown>>,
+		/** The value that drives plural/select/ordinal selection or locale formatting. */
+		value: [String, Number, Date] as PropType<string | number | Date>,
+		/** Switch to ordinal mode — resolved from the locale's ordinalForms. */
+		ordinal: Boolean,
+		/** Grammatical gender for word-based ordinal locales (Arabic, Hebrew). */
+		gender: String,
+		/** Pure locale formatting — bypasses translation lookup. */
+		format: String as PropType<FormatMode>,
+		/** ISO 4217 currency code. Required when format="currency". */
+		currency: String,
+		dateStyle: String as PropType<"full" | "long" | "medium" | "short">,
+		timeStyle: String as PropType<"full" | "long" | "medium" | "short">,
+		/** Optional context string for disambiguation (same text, different meaning) */
+		context: String,
+		/** Optional formality level */
+		formality: String as PropType<"formal" | "informal" | "auto">,
+		/** Note for translators, sent with the string by `vocoder sync`. Not rendered. */
+		note: String,
+		/** Alias of `note`. */
+		description: String,
+		/** Maximum length of the translation in characters, sent by `vocoder sync`. */
+		maxLength: [Number, String] as PropType<number | string>,
+		/** Component slots for `<N>` placeholders. Overrides slots derived from the default slot. */
+		components: [Array, Object] as PropType<
+			ComponentSlot[] | Record<number, ComponentSlot>
+		>,
+	},
+	setup(props, { attrs, slots }) {
+		const { t, locale, locales, hasTranslation } = useVocoder();
+
+		return () => {
+			const slotNodes = slots.default?.();
+
+			try {
+				// Format mode: pure Intl formatting, no translation lookup
+				if (props.format !== undefined && props.value !== undefined) {
+					return formatValue(props.value, props.format, locale.value, {
+						currency: props.currency,
+						dateStyle: props.dateStyle,
+						timeStyle: props.timeStyle,
+					});
+				}
+
+				// Collect plural/select mode props from attrs.
+				// Attrs are NOT used as interpolation values — use the `values` prop instead.
+				const pluralProps: Record<string, string> = {};
+				const selectProps: Record<string, string> = {};
+				let otherValue: string | undefined;
+
+				for (const [key, val] of Object.entries(attrs)) {
+					if (typeof val !== "string") continue;
+					const kind = classifyProp(key);
+					if (kind === "plural") pluralProps[key] = val;
+					else if (kind === "select") selectProps[key] = val;
+					else if (kind === "other") otherValue = val;
+				}
+
+				const hasPluralMode = Object.keys(pluralProps).length > 0;
+				const hasSelectMode = !hasPluralMode && Object.keys(selectProps).length > 0;
+
+				if (otherValue !== undefined) {
+					if (hasPluralMode) pluralProps.other = otherValue;
+					else if (hasSelectMode) selectProps.other = otherValue;
+				}
+
+				// Ordinal path — Tier 1: ordinalForms (suffix or word), Tier 2: bundle
+				// translation of DEFAULT_ORDINAL_ICU, Tier 3: bare number.
+				if (props.ordinal && props.value !== undefined) {
+					const rank = Number(props.value);
+					const forms = locales.value[locale.value]?.ordinalForms;
+					if (forms) return formatOrdinal(rank, locale.value, forms, props.gender);
+
+					const ordinalValues = { count: props.value, ...(props.values ?? {}) };
+					const lookupKey = props.id ?? generateMessageHash(DEFAULT_ORDINAL_ICU, props.context);
+					if (hasTranslation(lookupKey)) {
+						return formatICU(t(DEFAULT_ORDINAL_ICU, undefined, { id: lookupKey }), ordinalValues, locale.value);
+					}
+					return String(props.value);
+				}
+
+				let sourceText: string;
+				let formatValues: Record<string, unknown>;
+
+				if (hasPluralMode && props.value !== undefined) {
+					sourceText = buildPluralICU(pluralProps);
+					formatValues = { count: props.value, ...(props.values ?? {}) };
+				} else if (hasSelectMode && props.value !== undefined) {
+					sourceText = buildSelectICU(selectProps);
+					formatValues = { value: props.value, ...(props.values ?? {}) };
+				} else {
+					sourceText = props.message ?? extractSlotText(slotNodes).trim();
+					formatValues = { ...(props.values ?? {}) };
+				}
+
+				const lookupKey = props.id ?? generateMessageHash(sourceText, props.context);
+				const rawText = hasTranslation(lookupKey)
+					? t(sourceText, undefined, { id: lookupKey })
+					: sourceText;
+
+				const ordinalForms = locales.value[locale.value]?.ordinalForms;
+				const textToFormat =
+					ordinalForms && rawText?.includes("selectordinal")
+						? rewriteSelectordinalInICU(rawText, ordinalForms, formatValues)
+						: rawText;
+
+				if (!textToFormat) {
+					if (process.env.NODE_ENV === "development" && props.id) {
+						console.warn(`[vocoder] Missing translation for key "${props.id}"`);
+					}
+					return props.id ?? slotNodes ?? null;
+				}
+
+				// Rich-text slots: explicit components prop, else elements from the default slot.
+				let activeComponents: ComponentSlot[] | Record<number, ComponentSlot> =
+					props.components ?? collectSlotElements(slotNodes);
+
+				// Hoist VNode values into component slots so
+				// <T message="Click {icon} here" :values="{ icon: h(Icon) }" /> renders.
+				let activeText = textToFormat;
+				let activeValues = formatValues;
+				const vnodeKeys = Object.keys(formatValues).filter((k) => isVNode(formatValues[k]));
+				if (vnodeKeys.length > 0) {
+					const existing = Object.keys(activeComponents).map(Number);
+					const baseIdx = existing.length === 0 ? 0 : Math.max(...existing) + 1;
+					const extra: Record<number, ComponentSlot> = {};
+					activeValues = { ...formatValues };
+					for (let i = 0; i < vnodeKeys.length; i++) {
+						const key = vnodeKeys[i]!;
+						const slotIdx = baseIdx + i;
+						extra[slotIdx] = formatValues[key] as ComponentSlot;
+						delete activeValues[key];
+						activeText = activeText.replace(new RegExp(`\\{${key}\\}`, "g"), `<${slotIdx}/>`);
+					}
+					activeComponents = { ...activeComponents, ...extra };
+				}
+
+				const icuFormatted = formatICU(activeText, activeValues, locale.value);
+
+				if (Object.keys(activeComponents).length > 0 && /<\d+\/?>/.test(icuFormatted)) {
+					return formatElements(icuFormatted, activeComponents);
+				}
+
+				return icuFormatted;
+			} catch (err) {
+				console.error("Vocoder formatting error:", err);
+				return slotNodes ?? null;
+			}
+		};
+	},
+});
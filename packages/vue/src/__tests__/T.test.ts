@@ -0,0 +1,92 @@
+import { createApp, defineComponent, h, nextTick } from "vue";
+import type { Component } from "vue";
+import { afterEach, describe, expect, it } from "vitest";
+import { createVocoder } from "../createVocoder";
+import { T } from "../T";
+
+let container: HTMLElement | null = null;
+
+async function mount(render: () => ReturnType<typeof h>) {
+	const vocoder = createVocoder();
+	container = document.createElement("div");
+	createApp(defineComponent({ render }) as Component).use(vocoder).mount(container);
+	await vocoder.ready;
+	await nextTick();
+	return { vocoder, el: container };
+}
+
+afterEach(() => {
+	container = null;
+});
+
+describe("T component", () => {
+	it("renders the source text in the source locale", async () => {
+		const { el } = await mount(() => h(T, null, () => "Hello, world!"));
+
+		expect(el.textContent).toBe("Hello, world!");
+	});
+
+	it("translates slot text using the cookie-selected locale", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		const { el } = await mount(() => h(T, null, () => "Hello, world!"));
+
+		expect(el.textContent).toBe("Hola, mundo!");
+	});
+
+	it("formats message and values injected by the build plugin", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		const { el } = await mount(() =>
+			h(T, { message: "Hello, {name}!", values: { name: "Ana" } }, () => "Hello, Ana!"),
+		);
+
+		expect(el.textContent).toBe("Hola, Ana!");
+	});
+
+	it("re-renders when the locale changes", async () => {
+		const { vocoder, el } = await mount(() => h(T, { message: "Hello" }));
+
+		expect(el.textContent).toBe("Hello");
+		await vocoder.setLocale("es");
+		await nextTick();
+		expect(el.textContent).toBe("Hola");
+	});
+
+	it("fills <N> placeholders with elements from the default slot", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		const { el } = await mount(() =>
+			h(T, { message: "Click <0>here</0> for help" }, () => [
+				"Click ",
+				h("a", { href: "/help" }, "here"),
+				" for help",
+			]),
+		);
+
+		const link = el.querySelector("a");
+		expect(link?.getAttribute("href")).toBe("/help");
+		expect(link?.textContent).toBe("aqui");
+		expect(el.textContent).toBe("Haz clic aqui para obtener ayuda");
+	});
+
+	it("supports plural mode from attrs", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		const { el } = await mount(() =>
+			h(T, { value: 3, one: "# item", other: "# items" }),
+		);
+
+		expect(el.textContent).toBe("3 articulos");
+	});
+
+	it("supports select mode from attrs", async () => {
+		const { el } = await mount(() =>
+			h(T, { value: "female", _male: "his", _female: "her", other: "their" }),
+		);
+
+		expect(el.textContent).toBe("her");
+	});
+
+	it("resolves ordinals from ordinalForms", async () => {
+		const { el } = await mount(() => h(T, { value: 2, ordinal: true }));
+
+		expect(el.textContent).toBe("2nd");
+	});
+});
@@ -0,0 +1,79 @@
+import { createApp, defineComponent, h, nextTick } from "vue";
+import type { Component } from "vue";
+import { describe, expect, it } from "vitest";
+import { createVocoder } from "../createVocoder";
+import { ordinal, t } from "../translate";
+import { useVocoder } from "../useVocoder";
+
+async function install(render: () => ReturnType<typeof h> = () => h("div")) {
+	const vocoder = createVocoder();
+	createApp(defineComponent({ render }) as Component)
+		.use(vocoder)
+		.mount(document.createElement("div"));
+	await vocoder.ready;
+	return vocoder;
+}
+
+describe("createVocoder", () => {
+	it("loads the manifest and exposes available locales", async () => {
+		const vocoder = await install();
+
+		expect(vocoder.availableLocales.value).toEqual(["en", "es"]);
+		expect(vocoder.locale.value).toBe("en");
+		expect(vocoder.isReady.value).toBe(true);
+	});
+
+	it("setLocale loads the locale and persists it in the cookie", async () => {
+		const vocoder = await install();
+
+		await vocoder.setLocale("es-MX");
+
+		expect(vocoder.locale.value).toBe("es");
+		expect(vocoder.t("Hello")).toBe("Hola");
+		expect(document.cookie).toContain("vocoder_locale=es");
+	});
+
+	it("backs the global t() and ordinal() exports", async () => {
+		document.cookie = "vocoder_locale=es; Path=/";
+		await install();
+
+		expect(t("Hello, {name}!", { name: "Ana" })).toBe("Hola, Ana!");
+		expect(ordinal(1)).toBe("1.º");
+	});
+
+	it("provides the context to useVocoder()", async () => {
+		let translated = "";
+		const Child = defineComponent({
+			setup() {
+				const { t: translate } = useVocoder();
+				return () => {
+					translated = translate("Hello, world!");
+					return h("span", translated);
+				};
+			},
+		});
+
+		const vocoder = await install(() => h(Child));
+		await vocoder.setLocale("es");
+		await nextTick();
+
+		expect(translated).toBe("Hola, mundo!");
+	});
+
+	it("throws when useVocoder() is used without the plugin", () => {
+		const Orphan = defineComponent({
+			setup() {
+				useVocoder();
+				return () => null;
+			},
+		});
+
+		const app = createApp(Orphan);
+		app.config.errorHandler = (error) => {
+			throw error;
+		};
+		expect(() => app.mount(document.createElement("div"))).toThrow(
+			"useVocoder must be used inside an app with createVocoder() installed",
+		);
+	});
+});
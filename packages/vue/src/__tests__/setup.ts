@@ -0,0 +1,5 @@
+import { beforeEach } from "vitest";
+
+beforeEach(() => {
+	document.cookie = "vocoder_locale=; Path=/; Max-Age=0";
+});
@@ -0,0 +1,85 @@
+import { createVocoder as createCoreVocoder } from "@vocoder/core";
+import { computed, shallowRef } from "vue";
+import type { App } from "vue";
+import { T } from "./T";
+import { _setActiveVocoder } from "./translate";
+import type {
+	CreateVocoderOptions,
+	VocoderContext,
+	VocoderPlugin,
+} from "./types";
+import { VocoderKey } from "./useVocoder";
+
+/**
+ * Create the Vocoder plugin — the Vue counterpart of VocoderProvider.
+ * Provides locale state to `useVocoder()`, registers `<T>` globally and backs
+ * the global `t()` / `ordinal()` exports.
+ *
+ * For SSR, create one instance per request (alongside createSSRApp), pass the
+ * request cookies and inject `renderHydrationScript()` into the HTML.
+ *
+ * @example
+ * ```ts
+ * import { createVocoder } from '@vocoder/vue';
+ *
+ * const vocoder = createVocoder({ defaultLocale: 'en' });
+ * app.use(vocoder);
+ * ```
+ */
+export function createVocoder(options: CreateVocoderOptions = {}): VocoderPlugin {
+	const vocoder = createCoreVocoder(options);
+
+	// Mirror the engine's immutable snapshots into a shallowRef. Reading it
+	// inside a render or computed tracks it, so callers re-render on locale change.
+	const state = shallowRef(vocoder.getState());
+	vocoder.subscribe(() => {
+		state.value = vocoder.getState();
+	});
+
+	const context: VocoderContext = {
+		availableLocales: computed(() => state.value.availableLocales),
+		getDisplayName: (targetLocale, viewingLocale) => {
+			state.value;
+			return vocoder.getDisplayName(targetLocale, viewingLocale);
+		},
+		isReady: computed(() => state.value.isReady),
+		locale: computed(() => state.value.locale),
+		dir: computed(() => state.value.dir),
+		locales: computed(() => state.value.locales),
+		setLocale: vocoder.setLocale,
+		t: (text, values, tOptions) => {
+			state.value;
+			return vocoder.t(text, values, tOptions);
+		},
+		hasTranslation: (text) => {
+			state.value;
+			return vocoder.hasTranslation(text);
+		},
+		ordinal: (value, gender) => {
+			state.value;
+			return vocoder.ordinal(value, gender);
+		},
+	};
+
+	return {
+		...context,
+
+		get ready() {
+			return vocoder.ready;
+		},
+
+		install(app: App) {
+			app.provide(VocoderKey, context);
+			app.component("T", T);
+			_setActiveVocoder(context);
+
+			// Client only: load the manifest and the preferred locale, then keep
+			// <html dir lang> and background refresh in sync.
+			vocoder.start();
+		},
+
+		renderHydrationScript() {
+			return vocoder.hydrationScript;
+		},
+	};
+}
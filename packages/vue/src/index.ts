@@ -0,0 +1,17 @@
+export { generateMessageHash } from "@vocoder/core";
+export { createVocoder } from "./createVocoder";
+export { T } from "./T";
+export { ordinal, t } from "./translate";
+// Type exports
+export type {
+	ComponentSlot,
+	CreateVocoderOptions,
+	FormatMode,
+	LocaleInfo,
+	LocalesMap,
+	TOptions,
+	TranslationsMap,
+	VocoderContext,
+	VocoderPlugin,
+} from "./types";
+export { useVocoder, VocoderKey } from "./useVocoder";
@@ -0,0 +1,41 @@
+import { formatICU } from "@vocoder/core";
+import type { TOptions } from "@vocoder/core";
+import type { VocoderContext } from "./types";
+
+/**
+ * The context of the most recently installed createVocoder() plugin.
+ * Backs the global t() and ordinal() exports used outside components.
+ */
+let activeVocoder: VocoderContext | null = null;
+
+/**
+ * Set the active Vocoder context (called by createVocoder on install)
+ * @internal
+ */
+export function _setActiveVocoder(context: VocoderContext | null): void {
+	activeVocoder = context;
+}
+
+/**
+ * Translate text outside components (stores, services, router guards).
+ * Same signature as `useVocoder().t`; uses the most recently installed app.
+ *
+ * @example
+ * ```ts
+ * import { t } from '@vocoder/vue';
+ * const greeting = t('Hello, {name}!', { name: 'John' });
+ * ```
+ */
+export function t(text: string, values?: Record<string, unknown>, options?: TOptions): string {
+	if (activeVocoder) return activeVocoder.t(text, values, options);
+	if (values && Object.keys(values).length > 0) return formatICU(text, values);
+	return text;
+}
+
+/**
+ * Format a number as a locale-aware ordinal outside components.
+ * Falls back to String(value) when no app is installed or ordinal data is unavailable.
+ */
+export function ordinal(value: number, gender?: string): string {
+	return activeVocoder ? activeVocoder.ordinal(value, gender) : String(value);
+}
@@ -0,0 +1,85 @@
+import type { LocalesMap, TOptions } from "@vocoder/core";
+import type { App, ComputedRef, Ref, VNode } from "vue";
+
+export type {
+	FormatMode,
+	LocaleInfo,
+	LocalesMap,
+	TOptions,
+	TranslationsMap,
+} from "@vocoder/core";
+
+export interface CreateVocoderOptions {
+	/**
+	 * Locale to fall back to until the build manifest is loaded.
+	 * The manifest's `sourceLocale` takes precedence once available.
+	 */
+	defaultLocale?: string;
+	/**
+	 * Cookie string for server-side rendering (optional).
+	 * Pass the request's Cookie header to enable SSR locale detection.
+	 * @example Nuxt: useRequestHeaders(['cookie']).cookie
+	 * @example Vite SSR: req.headers.cookie
+	 */
+	cookies?: string;
+	/**
+	 * The request's Accept-Language header for server-side rendering (optional).
+	 * First-time visitors without a locale cookie get their best match.
+	 * @example Nuxt: useRequestHeaders(['accept-language'])['accept-language']
+	 */
+	acceptLanguage?: string;
+	/**
+	 * Serve visitors without a locale cookie their preferred language —
+	 * `acceptLanguage` on the server, `navigator.languages` in the browser.
+	 * Set to false to always start them on the source locale.
+	 * @default true
+	 */
+	detectLocale?: boolean;
+	/**
+	 * Automatically apply `dir` and `lang` attributes to `document.documentElement`
+	 * when the locale changes. Enables RTL layout for Arabic, Hebrew, etc.
+	 * @default true
+	 */
+	applyDir?: boolean;
+}
+
+export interface VocoderContext {
+	availableLocales: ComputedRef<string[]>;
+	getDisplayName: (targetLocale: string, viewingLocale?: string) => string;
+	/** True when initial translations are ready for render */
+	isReady: ComputedRef<boolean>;
+	locale: Readonly<Ref<string>>;
+	/** Text direction for the current locale. 'rtl' for Arabic, Hebrew, etc. 'ltr' for all others. */
+	dir: ComputedRef<"ltr" | "rtl">;
+	locales: Readonly<Ref<LocalesMap>>;
+	setLocale: (locale: string) => Promise<void>;
+	/**
+	 * Reactive translate function. Same signature as the global `t()` export but
+	 * tracks the current locale — safe to call in templates and computed refs.
+	 */
+	t: (text: string, values?: Record<string, unknown>, options?: TOptions) => string;
+	hasTranslation: (text: string) => boolean;
+	/** Format a number as a locale-aware ordinal (e.g. "1st" in en, "1.º" in es, "الأول" in ar). */
+	ordinal: (value: number, gender?: string) => string;
+}
+
+export interface VocoderPlugin extends VocoderContext {
+	install: (app: App) => void;
+	/** Resolves once the manifest and the initial locale are loaded on the client. */
+	ready: Promise<void>;
+	/**
+	 * Server only — the `<script id="__vocoder_hydration__">` tag to inject into the
+	 * rendered HTML so the client starts with the server's locale and translations.
+	 * Returns an empty string on the client.
+	 */
+	renderHydrationScript: () => string;
+}
+
+/**
+ * A slot in a rich-text message. Either a VNode (translated inner content becomes
+ * its children) or a render function that receives the translated inner content.
+ *
+ * Slots are derived from the <T> default slot automatically; the `components`
+ * prop overrides them.
+ */
+export type ComponentSlot = VNode | ((children: Array<VNode | string>) => VNode);
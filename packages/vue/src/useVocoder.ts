@@ -0,0 +1,28 @@
+import { inject } from "vue";
+import type { InjectionKey } from "vue";
+import type { VocoderContext } from "./types";
+
+export const VocoderKey: InjectionKey<VocoderContext> = Symbol("vocoder");
+
+/**
+ * Access the current locale and translate functions inside components.
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * import { useVocoder } from '@vocoder/vue';
+ * const { t, locale, setLocale } = useVocoder();
+ * </script>
+ *
+ * <template>
+ *   <input :placeholder="t('Search')" />
+ * </template>
+ * ```
+ */
+export function useVocoder(): VocoderContext {
+	const context = inject(VocoderKey, null);
+	if (!context) {
+		throw new Error("useVocoder must be used inside an app with createVocoder() installed");
+	}
+	return context;
+}
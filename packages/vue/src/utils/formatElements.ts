@@ -0,0 +1,99 @@
+import { cloneVNode, Comment, Fragment, h, isVNode, Text } from "vue";
+import type { VNode } from "vue";
+import type { ComponentSlot } from "../types";
+
+// Matches <0>content</0> (paired) or <0/> (self-closing).
+// Backreference \1 ensures the closing digit matches the opening digit.
+const TAG_RE = /<(\d+)>([\s\S]*?)<\/\1>|<(\d+)\/>/g;
+
+/**
+ * Collect the element VNodes of a <T> default slot in extraction order.
+ *
+ * Mirrors the extractor's numbering for Vue templates: elements are indexed
+ * depth-first, parent before children, so slot[N] matches `<N>` in the message.
+ * Fragments (v-for, v-if groups) are transparent; text and comments are skipped.
+ */
+export function collectSlotElements(nodes: unknown): VNode[] {
+	const elements: VNode[] = [];
+
+	const walk = (node: unknown) => {
+		if (Array.isArray(node)) {
+			for (const child of node) walk(child);
+			return;
+		}
+		if (!isVNode(node) || node.type === Comment || node.type === Text) return;
+		if (node.type !== Fragment) elements.push(node);
+		if (Array.isArray(node.children)) walk(node.children);
+	};
+
+	walk(nodes);
+	return elements;
+}
+
+/**
+ * Plain text of a <T> default slot. Used as the source message when the build
+ * plugin has not injected a `message` prop.
+ */
+export function extractSlotText(nodes: unknown): string {
+	if (typeof nodes === "string" || typeof nodes === "number") return String(nodes);
+	if (Array.isArray(nodes)) return nodes.map(extractSlotText).join("");
+	if (!isVNode(nodes) || nodes.type === Comment) return "";
+	return extractSlotText(nodes.children);
+}
+
+/**
+ * Replaces numeric component placeholders in a translated message with VNodes.
+ *
+ * Slot rendering:
+ * - VNode slot on a native element: translated inner content replaces its children.
+ * - VNode slot on a component: translated inner content becomes its default slot.
+ * - Function slot: receives translated inner content, returns a VNode.
+ *
+ * Unknown indices (no matching slot) are rendered as literal tag text.
+ * Nested placeholders are resolved recursively, so `<0><1>text</1></0>` works.
+ */
+export function formatElements(
+	message: string,
+	components: ComponentSlot[] | Record<number, ComponentSlot>,
+): Array<VNode | string> {
+	const result: Array<VNode | string> = [];
+	const re = new RegExp(TAG_RE.source, "g");
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+
+	while ((match = re.exec(message)) !== null) {
+		if (match.index > lastIndex) {
+			result.push(message.slice(lastIndex, match.index));
+		}
+
+		const pairedIndex = match[1];
+		const innerContent = match[2];
+		const selfClosingIndex = match[3];
+		const idx = parseInt((pairedIndex ?? selfClosingIndex)!, 10);
+		const slot = (components as Record<number, ComponentSlot>)[idx];
+		const inner = innerContent ? formatElements(innerContent, components) : [];
+
+		if (!slot) {
+			// No matching slot — render placeholder text literally so content is not lost.
+			result.push(match[0]);
+		} else if (typeof slot === "function") {
+			result.push(h(Fragment, { key: idx }, [slot(inner)]));
+		} else if (selfClosingIndex !== undefined) {
+			result.push(cloneVNode(slot, { key: idx }));
+		} else if (typeof slot.type === "string") {
+			result.push(h(slot.type, { ...slot.props, key: idx }, inner));
+		} else {
+			result.push(
+				h(slot.type as any, { ...slot.props, key: idx }, { default: () => inner }),
+			);
+		}
+
+		lastIndex = match.index + match[0].length;
+	}
+
+	if (lastIndex < message.length) {
+		result.push(message.slice(lastIndex));
+	}
+
+	return result;
+}
@@ -0,0 +1,13 @@
+import { defineConfig } from "tsup";
+
+export default defineConfig({
+	entry: { index: "src/index.ts" },
+	format: ["esm", "cjs"],
+	dts: true,
+	clean: true,
+	sourcemap: true,
+	target: "es2017",
+	platform: "neutral",
+	treeshake: true,
+	external: ["vue", "@vocoder/core", /^virtual:/],
+});